@@ -1,23 +1,10 @@
 #!/usr/bin/env node
-import { initCommand } from './cli/commands/init.js';
-
-/**
- * Extracted CLI arguments.
- *
- * Structure:
- *   [0] = "node"
- *   [1] = path to this CLI file
- *   [2] = command name (e.g. "init")
- *   [3...] = additional arguments for the command
- */
-const [, , command, ...rest] = process.argv;
+import { runCli } from './cli/runCli.js';
 
 /**
  * Main entrypoint for the `bigcommerce-oauth-next` command-line interface.
  *
- * This executable provides a thin command dispatcher that routes user
- * commands to their corresponding handler implementations. It is intended
- * to be invoked either directly via:
+ * This executable is intended to be invoked either directly via:
  *
  * ```bash
  * npx bigcommerce-oauth-next init ./some/path
@@ -29,33 +16,19 @@ const [, , command, ...rest] = process.argv;
  * pnpm exec bigcommerce-oauth-next init ./src/app
  * ```
  *
- * Supported commands:
- * -------------------
- * - `init <path>`
- *   Copies the built-in Next.js OAuth template files into the specified
- *   project directory. Delegates to {@link initCommand}.
+ * Run `bigcommerce-oauth-next --help` for the list of commands and
+ * `bigcommerce-oauth-next <command> --help` for a command's flags.
  *
- * If the user provides an unknown command or insufficient arguments,
- * the CLI prints a usage guide and exits with a non-zero status code.
- *
- * This file serves as the lightweight command router; all substantial
- * functionality (template copying, validation, etc.) lives within the
- * dedicated command modules under `src/cli/commands/`.
- *
- * @returns {Promise<void>} Resolves when command execution completes.
+ * This file only hands `process.argv` to {@link runCli} and applies the exit
+ * code it returns; dispatch, flag parsing, and help output live in
+ * `src/cli/`, and each command is a module under `src/cli/commands/`.
  */
-async function main() {
-  switch (command) {
-    case 'init':
-      await initCommand(rest);
-      break;
-
-    default:
-      console.error(`Unknown command: ${command}`);
-      console.error(`Usage: bigcommerce-oauth-next init <path>`);
-      process.exit(1);
-  }
-  return;
-}
-
-main();
+runCli(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,15 @@
+/**
+ * Process exit codes returned by CLI commands.
+ *
+ * - `Success`: the command completed.
+ * - `Failure`: the command ran but could not complete (e.g. a failed check).
+ * - `Usage`: the command line was invalid (unknown command or flag, missing
+ *   argument).
+ */
+export const ExitCode = {
+  Success: 0,
+  Failure: 1,
+  Usage: 2,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
@@ -0,0 +1,244 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { defineCommand } from '../defineCommand.js';
+import type { ScaffoldLocation } from '../dto/ScaffoldLocation.js';
+import type { TemplateFeature } from '../dto/TemplateFeature.js';
+import type { TemplateFile } from '../dto/TemplateFile.js';
+import type { TemplateLanguage } from '../dto/TemplateLanguage.js';
+import type { TemplateVariables } from '../dto/TemplateVariables.js';
+import { ScaffoldNotFoundError } from '../errors/ScaffoldNotFoundError.js';
+import { ExitCode } from '../ExitCode.js';
+import { applyCopyPlan, planCopy } from '../utils/copyPlan.js';
+import { locateScaffold } from '../utils/findScaffolds.js';
+import { renderTemplates } from '../utils/renderTemplates.js';
+import { resolveTemplateDir } from '../utils/resolveTemplateDir.js';
+import { createManifest, readManifest, writeManifest } from '../utils/scaffoldManifest.js';
+import { isTemplateSelected } from '../utils/templateFeatures.js';
+import {
+  DEFAULT_APP_NAME,
+  DEFAULT_PACKAGE,
+  defaultResultPath,
+} from '../utils/templateVariables.js';
+
+/**
+ * Parts that can be added to an existing scaffold, mapped to the template
+ * feature they emit. `composition` restores the composition roots of the
+ * features already present.
+ */
+const TARGETS: Record<string, TemplateFeature | 'composition'> = {
+  load: 'load',
+  uninstall: 'uninstall',
+  'remove-user': 'remove-user',
+  'result-page': 'ui',
+  composition: 'composition',
+};
+
+/**
+ * File that shows a feature is already part of a scaffold, without
+ * extension.
+ */
+const FEATURE_MARKERS: Record<TemplateFeature, string> = {
+  load: 'load/route',
+  uninstall: 'uninstall/route',
+  'remove-user': 'remove-user/route',
+  ui: 'result/page',
+};
+
+const NO_FEATURES = new Set<TemplateFeature>();
+
+/**
+ * Checks whether a file exists with any source extension.
+ */
+function existsWithAnyExtension(dir: string, file: string): boolean {
+  const parent = path.join(dir, path.dirname(file));
+  const name = path.basename(file);
+
+  return (
+    fs.existsSync(parent) &&
+    fs.readdirSync(parent).some((entry) => entry.replace(/\.[^.]+$/, '') === name)
+  );
+}
+
+/**
+ * Recovers the template variables `init` used, from the scaffold's install
+ * route, so added files match the existing ones.
+ */
+function readVariables(scaffoldDir: string, basePath: string, appName: string): TemplateVariables {
+  const routeFile = fs
+    .readdirSync(scaffoldDir)
+    .find((file) => /^route\.(?:ts|js|tsx|jsx|mts|mjs)$/.test(file));
+  const route = routeFile ? fs.readFileSync(path.join(scaffoldDir, routeFile), 'utf8') : '';
+  const read = (pattern: RegExp) => pattern.exec(route)?.[1];
+
+  return {
+    appName,
+    basePath,
+    successPath: read(/successPath:\s*'([^']*)'/) ?? defaultResultPath(basePath),
+    errorPath: read(/errorPath:\s*'([^']*)'/) ?? defaultResultPath(basePath),
+    packageName:
+      read(/import\s*\{[^}]*\bInstallController\b[^}]*\}\s*from\s*'([^']+)'/) ?? DEFAULT_PACKAGE,
+  };
+}
+
+/**
+ * Adds a single callback, the result page, or the composition roots to a
+ * scaffold created by `init`.
+ *
+ * This command is executed as `bigcommerce-oauth-next add`. It performs the
+ * following steps:
+ *
+ * 1. Locates the scaffold: the directory given as the second argument, or
+ *    the only directory in the project's App Router that holds
+ *    `_composition/installApp.ts` or an `InstallController` route.
+ * 2. Takes the template set and variables from the scaffold's manifest,
+ *    or, for scaffolds without one, picks the set from the install route's
+ *    extension and recovers the package import specifier and
+ *    result page paths from its install route and the base path from its
+ *    location.
+ * 3. Renders the files of the requested part and writes only those that do
+ *    not exist yet, next to the existing `_composition/` directory.
+ *
+ * Existing files are never modified, so running the command again changes
+ * nothing. Every file is reported as created or kept, and created files
+ * are recorded in the manifest.
+ *
+ * Returns {@link ExitCode.Usage} for an unknown part, and
+ * {@link ExitCode.Failure} if no scaffold, or more than one, is found, or
+ * the scaffold targets the Pages Router.
+ *
+ * @example
+ * ```bash
+ * npx bigcommerce-oauth-next add uninstall
+ * ```
+ */
+export const addCommand = defineCommand({
+  name: 'add',
+  arguments: '<part> [scaffold-dir]',
+  summary: 'Add a callback, the result page, or composition roots to a scaffold',
+  description:
+    `Parts: ${Object.keys(TARGETS).join(', ')}. Writes only the files that are missing from ` +
+    'the scaffold created by init, found in app/ or src/app/ unless [scaffold-dir] is given. ' +
+    'Existing files are left untouched.',
+  options: {
+    'app-name': {
+      type: 'string',
+      valueName: '<name>',
+      description: `Name shown on the result page (default "${DEFAULT_APP_NAME}")`,
+    },
+    'dry-run': { type: 'boolean', description: 'Print the plan without writing files' },
+  },
+  examples: [
+    'bigcommerce-oauth-next add load',
+    'bigcommerce-oauth-next add result-page --app-name "Acme Sync"',
+    'bigcommerce-oauth-next add uninstall ./src/app/(oauth)/auth --dry-run',
+  ],
+
+  run({ positionals, flags }) {
+    const [part, scaffoldPath] = positionals;
+    const target = part === undefined ? undefined : TARGETS[part];
+
+    if (!part || !target) {
+      console.error(part ? `Unknown part: ${part}` : 'Missing part.');
+      console.error(`Usage: bigcommerce-oauth-next add <${Object.keys(TARGETS).join('|')}>`);
+      return ExitCode.Usage;
+    }
+
+    let scaffold: ScaffoldLocation;
+
+    try {
+      scaffold = locateScaffold(process.cwd(), scaffoldPath);
+    } catch (err) {
+      if (!(err instanceof ScaffoldNotFoundError)) throw err;
+
+      console.error(err.message);
+      for (const dir of err.candidates) console.error(`  ${dir}`);
+      return ExitCode.Failure;
+    }
+
+    const { dir: scaffoldDir, basePath } = scaffold;
+    const manifest = readManifest(scaffoldDir);
+
+    if (manifest?.router === 'pages') {
+      console.error(
+        `${scaffoldDir} is a Pages Router scaffold; the Pages Router templates only cover the install callback.`,
+      );
+      return ExitCode.Failure;
+    }
+
+    const present = (Object.keys(FEATURE_MARKERS) as TemplateFeature[]).filter((feature) =>
+      existsWithAnyExtension(scaffoldDir, FEATURE_MARKERS[feature]),
+    );
+    const features = new Set<TemplateFeature>(present);
+    if (target !== 'composition') features.add(target);
+
+    const belongsToTarget = (file: TemplateFile) =>
+      target === 'composition'
+        ? file.relativePath.startsWith('_composition/')
+        : isTemplateSelected(file.relativePath, new Set([target])) &&
+          !isTemplateSelected(file.relativePath, NO_FEATURES);
+
+    const lang: TemplateLanguage =
+      manifest?.lang ?? (fs.existsSync(path.join(scaffoldDir, 'route.js')) ? 'js' : 'ts');
+    const files = renderTemplates(
+      resolveTemplateDir(lang),
+      manifest
+        ? { ...manifest.variables, appName: flags['app-name'] ?? manifest.variables.appName }
+        : readVariables(scaffoldDir, basePath, flags['app-name'] ?? DEFAULT_APP_NAME),
+      features,
+    ).filter(belongsToTarget);
+
+    // Files that exist under another extension, e.g. a route converted to
+    // JavaScript, count as present and are kept.
+    const plan = planCopy(files, scaffoldDir).map((entry) =>
+      entry.status === 'create' &&
+      existsWithAnyExtension(scaffoldDir, entry.relativePath.replace(/\.[^.]+$/, ''))
+        ? { ...entry, status: 'unchanged' as const }
+        : entry,
+    );
+
+    const verb = flags['dry-run'] ? 'Would add' : 'Adding';
+    console.log(`${verb} ${part} to ${scaffoldDir}:`);
+
+    if (flags['dry-run']) {
+      for (const entry of plan) {
+        console.log(
+          `  ${(entry.status === 'create' ? 'create' : 'keep').padEnd(7)} ${entry.relativePath}`,
+        );
+      }
+      console.log('\nDry run: no files were written.');
+      return ExitCode.Success;
+    }
+
+    const summary = applyCopyPlan(plan);
+
+    // Record the new files so `upgrade` can merge into them later.
+    if (manifest && summary.created.length > 0) {
+      const created = files.filter((file) => summary.created.includes(file.relativePath));
+      const additions = createManifest({ ...manifest, features: [...features] }, created);
+
+      writeManifest(scaffoldDir, {
+        ...manifest,
+        features: additions.features,
+        files: { ...manifest.files, ...additions.files },
+      });
+    }
+
+    for (const file of summary.created) console.log(`  created ${file}`);
+    for (const file of summary.skipped) console.log(`  kept    ${file} (already exists)`);
+
+    if (summary.created.length === 0) {
+      console.log(`Nothing to do: ${part} is already part of this scaffold.`);
+    } else {
+      console.log(`Done! ${String(summary.created.length)} created.`);
+    }
+
+    if (target === 'ui' && !present.includes('ui')) {
+      console.log(
+        `Point the install route at the new page by replacing responseMode: 'html' with ` +
+          `successPath and errorPath set to ${defaultResultPath(basePath)}.`,
+      );
+    }
+
+    return ExitCode.Success;
+  },
+});
@@ -0,0 +1,134 @@
+import * as path from 'node:path';
+import { validateBigCommerceConfig } from '../../config/validateBigCommerceConfig.js';
+import type { ConfigIssue } from '../../config/dto/ConfigIssue.js';
+import { defineCommand } from '../defineCommand.js';
+import { ExitCode } from '../ExitCode.js';
+import { findRouteFile } from '../utils/findRouteFile.js';
+import { ENV_FILES, readEnvFiles } from '../utils/readEnvFiles.js';
+
+/**
+ * Variables the scaffolded routes read through `loadBigCommerceConfig`.
+ */
+const VARIABLES = [
+  'BIGCOMMERCE_CLIENT_ID',
+  'BIGCOMMERCE_CLIENT_SECRET',
+  'BIGCOMMERCE_REDIRECT_URI',
+];
+
+/**
+ * Suggests how to resolve a configuration issue.
+ */
+function fixFor(issue: ConfigIssue): string {
+  if (issue.variable === 'BIGCOMMERCE_REDIRECT_URI') {
+    return issue.reason === 'insecure_url'
+      ? 'BigCommerce only calls back over https. Expose the app through an https tunnel (e.g. ngrok) and update the Auth Callback URL to match.'
+      : 'Set it to the Auth Callback URL registered for your app in the BigCommerce Developer Portal, e.g. https://<your-domain>/auth.';
+  }
+
+  return `Copy it from your app's credentials in the BigCommerce Developer Portal into .env.local.`;
+}
+
+/**
+ * Checks that a Next.js project is ready to receive BigCommerce callbacks.
+ *
+ * This command is executed as `bigcommerce-oauth-next doctor`. It performs the following checks and prints an actionable
+ * fix for each one that fails:
+ *
+ * 1. At least one development env file (`.env`, `.env.local`, …) exists.
+ * 2. `BIGCOMMERCE_CLIENT_ID`, `BIGCOMMERCE_CLIENT_SECRET`, and
+ *    `BIGCOMMERCE_REDIRECT_URI` are set — in the env files or the shell —
+ *    and the redirect URI is an absolute `https` URL.
+ * 3. An App Router `route` file or a Pages Router API route exists at the
+ *    path the redirect URI implies (e.g. `app/auth/route.ts` for
+ *    `https://example.com/auth`, `pages/api/auth/index.ts` for
+ *    `https://example.com/api/auth`).
+ *
+ * Variables set in the shell take precedence over env files, matching how
+ * Next.js loads them.
+ *
+ * Returns {@link ExitCode.Failure} if any check fails.
+ *
+ * @example
+ * ```bash
+ * npx bigcommerce-oauth-next doctor
+ * ```
+ */
+export const doctorCommand = defineCommand({
+  name: 'doctor',
+  arguments: '[project-dir]',
+  summary: 'Check env files, credentials, and the install route',
+  description:
+    'Validates BIGCOMMERCE_CLIENT_ID, BIGCOMMERCE_CLIENT_SECRET, and BIGCOMMERCE_REDIRECT_URI ' +
+    'from the shell and .env files, and confirms a route exists at the redirect URI path. ' +
+    'Defaults to the current directory.',
+  options: {},
+  examples: ['bigcommerce-oauth-next doctor', 'bigcommerce-oauth-next doctor ./apps/web'],
+
+  run({ positionals }) {
+    const projectDir = path.resolve(process.cwd(), positionals[0] ?? '.');
+    const envFiles = readEnvFiles(projectDir);
+    const env: Record<string, string | undefined> = { ...envFiles.values };
+    let problems = 0;
+
+    for (const variable of VARIABLES) {
+      if (process.env[variable] !== undefined) env[variable] = process.env[variable];
+    }
+
+    const pass = (message: string) => {
+      console.log(`✓ ${message}`);
+    };
+    const fail = (message: string, fix: string) => {
+      problems++;
+      console.log(`✗ ${message}`);
+      console.log(`    Fix: ${fix}`);
+    };
+
+    console.log(`Checking BigCommerce OAuth setup in ${projectDir}\n`);
+
+    if (envFiles.files.length > 0) {
+      pass(`Env files found: ${envFiles.files.join(', ')}`);
+    } else {
+      fail(
+        `No env file found (looked for ${ENV_FILES.join(', ')}).`,
+        `Create .env.local with ${VARIABLES.join(', ')}.`,
+      );
+    }
+
+    const issues = validateBigCommerceConfig(env);
+
+    for (const variable of VARIABLES) {
+      const issue = issues.find((candidate) => candidate.variable === variable);
+
+      if (issue) {
+        fail(issue.message, fixFor(issue));
+      } else {
+        const source = process.env[variable] === undefined ? envFiles.sources[variable] : undefined;
+        pass(`${variable} is set (${source ?? 'environment'}).`);
+      }
+    }
+
+    const redirectUri = env.BIGCOMMERCE_REDIRECT_URI;
+
+    if (redirectUri && !issues.some((issue) => issue.variable === 'BIGCOMMERCE_REDIRECT_URI')) {
+      const { pathname } = new URL(redirectUri);
+      const routeFile = findRouteFile(projectDir, pathname);
+
+      if (routeFile) {
+        pass(`Install route for ${pathname} found at ${path.relative(projectDir, routeFile)}.`);
+      } else {
+        fail(
+          `No route handler found for ${pathname} under app/, src/app/, pages/api/, or src/pages/api/.`,
+          `Run \`npx bigcommerce-oauth-next init <app-dir>\` to scaffold it, or move your install route to app${pathname === '/' ? '' : pathname}/route.ts.`,
+        );
+      }
+    }
+
+    if (problems > 0) {
+      console.log(`\n${String(problems)} problem(s) found.`);
+      return ExitCode.Failure;
+    }
+
+    console.log('\nAll checks passed.');
+    return ExitCode.Success;
+  },
+});
@@ -0,0 +1,19 @@
+import type { CliCommand } from '../dto/CliCommand.js';
+import { addCommand } from './add.js';
+import { doctorCommand } from './doctor.js';
+import { initCommand } from './init.js';
+import { reencryptTokensCommand } from './reencryptTokens.js';
+import { upgradeCommand } from './upgrade.js';
+
+/**
+ * Every command the `bigcommerce-oauth-next` executable dispatches to, in
+ * the order they are listed by `--help`. To add a command, create a module
+ * in this directory with {@link defineCommand} and register it here.
+ */
+export const commands: CliCommand[] = [
+  initCommand,
+  addCommand,
+  upgradeCommand,
+  doctorCommand,
+  reencryptTokensCommand,
+];
@@ -1,84 +1,546 @@
+import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { dirname } from 'node:path';
-import { fileURLToPath } from 'node:url';
-import { copyDirectory } from '../utils/fileCopy.js';
+import { defineCommand } from '../defineCommand.js';
+import type { CopyPlanEntry } from '../dto/CopyPlanEntry.js';
+import type { NextProject } from '../dto/NextProject.js';
+import type { TemplateLanguage } from '../dto/TemplateLanguage.js';
+import type { TemplateFeature } from '../dto/TemplateFeature.js';
+import type { TemplateRouter } from '../dto/TemplateRouter.js';
+import type { TemplateVariables } from '../dto/TemplateVariables.js';
+import { ExitCode } from '../ExitCode.js';
+import { applyCopyPlan, planCopy } from '../utils/copyPlan.js';
+import { detectNextProject, satisfiesFloor } from '../utils/detectNextProject.js';
+import { formatDiff } from '../utils/formatDiff.js';
+import { isInteractive, promptConflict } from '../utils/promptConflict.js';
+import { promptText } from '../utils/promptText.js';
+import { readPackageInfo } from '../utils/readPackageInfo.js';
+import { renderTemplates } from '../utils/renderTemplates.js';
+import { resolveTemplateDir, templateVariant } from '../utils/resolveTemplateDir.js';
+import { createManifest, writeManifest } from '../utils/scaffoldManifest.js';
+import { isTemplateFeature, TEMPLATE_FEATURES } from '../utils/templateFeatures.js';
+import {
+  DEFAULT_APP_NAME,
+  DEFAULT_BASE_PATH,
+  DEFAULT_PACKAGE,
+  defaultResultPath,
+} from '../utils/templateVariables.js';
 
 /**
- * Absolute file path of the current module.
- *
- * In ESM environments, `__filename` is not defined by default.
- * This value is reconstructed using `import.meta.url` to provide
- * equivalent functionality to CommonJS modules.
+ * Features selectable with `--with`; the result page is toggled by `--no-ui`.
  */
-const __filename = fileURLToPath(import.meta.url);
+const CALLBACK_FEATURES = TEMPLATE_FEATURES.filter((feature) => feature !== 'ui');
 
 /**
- * Directory name of the current module.
- *
- * ESM modules do not provide `__dirname` by default. This value
- * is derived from the reconstructed `__filename` and is used for
- * resolving paths relative to the module file (e.g., template
- * directories bundled with the package).
+ * One URL segment of the base path, e.g. `auth` in `api/auth`.
+ */
+const PATH_SEGMENT = /^[a-z0-9][\w-]*$/i;
+
+/**
+ * npm package name, optionally scoped, optionally followed by a subpath.
+ */
+const PACKAGE_PATTERN = /^(?:@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*(?:\/[\w.-]+)*$/;
+
+/**
+ * Summarizes a detected project in one line, e.g.
+ * `Next.js 15.1.0, App Router in src/app, TypeScript, "@/" → src`.
+ */
+function describeProject(project: NextProject): string {
+  const router = project.appDir
+    ? `App Router in ${project.appDir}`
+    : project.pagesDir
+      ? `Pages Router in ${project.pagesDir}`
+      : 'no router directory yet';
+
+  return [
+    project.nextVersion ? `Next.js ${project.nextVersion}` : 'next not installed',
+    router,
+    project.typescript ? 'TypeScript' : 'JavaScript',
+    ...(project.importAlias ? [`"@/" → ${project.importAlias}`] : []),
+  ].join(', ');
+}
+
+/**
+ * Reports problems with the detected project. A missing `next` dependency
+ * is an error unless the user chose the path explicitly, in which case it is
+ * a warning; an outdated Next.js is always an error. Returns `false` if
+ * `init` must stop.
+ */
+function checkProject(project: NextProject, explicitPath: boolean): boolean {
+  const problems: { message: string; fatal: boolean }[] = [];
+  // The lower bound of the `next` peer range is the oldest version the templates support.
+  const nextRange = readPackageInfo().nextVersionRange;
+
+  if (!project.nextVersion) {
+    problems.push({
+      message: `${project.root}/package.json does not list next as a dependency.`,
+      fatal: !explicitPath,
+    });
+  } else if (satisfiesFloor(project.nextVersion, nextRange) === false) {
+    problems.push({
+      message: `Next.js ${project.nextVersion} is not supported; the templates need next ${nextRange}.`,
+      fatal: true,
+    });
+  }
+
+  for (const { message, fatal } of problems) {
+    if (fatal) {
+      console.error(message);
+    } else {
+      console.warn(`Warning: ${message}`);
+    }
+  }
+
+  return !problems.some((problem) => problem.fatal);
+}
+
+/**
+ * Checks a `--lang` value against the bundled template sets.
+ */
+function isTemplateLanguage(value: string): value is TemplateLanguage {
+  return value === 'ts' || value === 'js';
+}
+
+/**
+ * Checks a `--router` value against the supported routers.
+ */
+function isTemplateRouter(value: string): value is TemplateRouter {
+  return value === 'app' || value === 'pages';
+}
+
+/**
+ * Splits comma-separated `--with` values into feature names.
+ */
+function parseFeatureList(values: string[]): string[] {
+  return values
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter((value) => value !== '');
+}
+
+/**
+ * Asks which optional callbacks to scaffold until every answer is known.
+ */
+async function askCallbacks(): Promise<string[]> {
+  for (;;) {
+    const names = parseFeatureList([
+      await promptText(
+        `Additional callbacks (comma-separated: ${CALLBACK_FEATURES.join(', ')})`,
+        '',
+      ),
+    ]);
+    const unknown = names.filter((name) => !(CALLBACK_FEATURES as string[]).includes(name));
+
+    if (unknown.length === 0) return names;
+    console.log(`Unknown callback(s): ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Checks the template variables, returning an error message for the first
+ * invalid one.
+ */
+function validateVariables(variables: TemplateVariables): string | undefined {
+  if (variables.appName.trim() === '' || /[<>{}'"`\\]/.test(variables.appName)) {
+    return `Invalid app name "${variables.appName}": it must not be empty or contain < > { } quotes or backslashes.`;
+  }
+
+  if (!variables.basePath.split('/').every((segment) => PATH_SEGMENT.test(segment))) {
+    return `Invalid base path "${variables.basePath}": use URL segments such as "auth" or "api/bigcommerce".`;
+  }
+
+  for (const [flag, value] of [
+    ['--success-path', variables.successPath],
+    ['--error-path', variables.errorPath],
+  ] as const) {
+    if (!/^\/[^\s'"`\\]*$/.test(value)) {
+      return `Invalid ${flag} "${value}": it must be an absolute path such as /${variables.basePath}/result.`;
+    }
+  }
+
+  if (!PACKAGE_PATTERN.test(variables.packageName)) {
+    return `Invalid --package "${variables.packageName}": it must be an npm package name.`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Formats one plan entry as a line of `--dry-run` output.
+ */
+function describeEntry(entry: CopyPlanEntry): string {
+  const label =
+    entry.status === 'create'
+      ? 'create'
+      : entry.status === 'unchanged'
+        ? 'unchanged'
+        : (entry.resolution ?? 'conflict');
+
+  return `  ${label.padEnd(10)} ${entry.relativePath}`;
+}
+
+/**
+ * Resolves every conflict by asking the user, file by file. Returns `false`
+ * if the user aborts, in which case nothing must be written.
  */
-const __dirname = dirname(__filename);
+async function resolveInteractively(conflicts: CopyPlanEntry[]): Promise<boolean> {
+  let remaining: 'overwrite' | 'skip' | undefined;
+
+  for (const entry of conflicts) {
+    if (remaining) {
+      entry.resolution = remaining;
+      continue;
+    }
+
+    const diff = formatDiff(fs.readFileSync(entry.target, 'utf8'), entry.content);
+    const choice = await promptConflict(entry.relativePath, diff);
+
+    if (choice === 'abort') return false;
+
+    entry.resolution = choice === 'overwrite' || choice === 'overwrite-all' ? 'overwrite' : 'skip';
+    if (choice === 'overwrite-all' || choice === 'skip-all') remaining = entry.resolution;
+  }
+
+  return true;
+}
 
 /**
- * Initializes a new project directory by copying the built-in
- * TypeScript template set into a user-specified location.
+ * Initializes a new project directory by rendering the built-in
+ * TypeScript or JavaScript template set into a user-specified location.
  *
- * This function is executed as part of the `bigcommerce-oauth-next init`
- * CLI command. It performs the following steps:
+ * This command is executed as `bigcommerce-oauth-next init`. It performs the
+ * following steps:
  *
- * 1. Validates that a target path was provided.
- * 2. Resolves the final absolute output directory based on the user's
- *    current working directory.
- * 3. Locates the packaged template directory inside the installed
- *    `bigcommerce-oauth-next` package.
- * 4. Recursively copies all template files into the destination folder.
+ * 1. Finds the Next.js project from the nearest `package.json` and detects
+ *    its `next` version, router directories, language, and `@/` alias.
+ *    Without a path argument, the destination defaults to the project's
+ *    App Router directory (`app/` or `src/app/`), or to its `pages/`
+ *    directory when it only uses the Pages Router. Projects on a `next`
+ *    below the peer dependency floor are refused.
+ * 2. Collects the template variables (app name, route base path,
+ *    success/error pages, package import specifier) and the optional
+ *    features (`--with load,uninstall,remove-user`, `--no-ui`). Values not
+ *    given as flags are asked for in a terminal, or take their defaults
+ *    with `--yes` or without a terminal.
+ * 3. Renders the selected templates under `<path>/<base-path>/`, from
+ *    `templates/js` (JSDoc-typed) when `--lang js` is given or the project
+ *    has no `tsconfig.json`, and from `templates/ts` otherwise. With
+ *    `--router pages` (the default for Pages-Router-only projects) it
+ *    renders `templates/pages-ts` instead: an install API route at
+ *    `<path>/api/<base-path>` and the result page at
+ *    `<path>/<base-path>/result`. That set is TypeScript only and covers
+ *    the install callback alone.
+ * 4. Compares every rendered file with the destination and detects
+ *    conflicts — existing files whose content differs — before writing
+ *    anything.
+ * 5. Resolves conflicts with `--force` (overwrite), `--skip-existing`
+ *    (keep), or an interactive per-file prompt showing a diff. Without a
+ *    terminal (or with `--yes`) and without either flag, it refuses to
+ *    write.
+ * 6. Writes the files, or only prints the plan with `--dry-run`, and prints
+ *    a summary of created, skipped, and overwritten files.
+ * 7. Records the template version and every generated file in a manifest
+ *    next to the scaffold (in `<path>` for the Pages Router), which
+ *    `upgrade` merges template changes against.
  *
  * The resulting scaffold includes example route handlers, UI components,
  * and composition files that serve as a starting point for integrating
  * BigCommerce OAuth flows into a Next.js application.
  *
- * @async
- * @param {string[]} args - CLI arguments passed to the `init` command.
- *   The first argument must be a relative or absolute path describing
- *   where the templates should be copied within the user's project.
- *
- * @throws Will terminate the process with exit code `1` if no path
- *         argument is provided.
+ * Returns {@link ExitCode.Usage} if no path is given outside a project or
+ * the flags contradict each other or hold invalid values, and
+ * {@link ExitCode.Failure} if the project is unsupported, conflicts are left
+ * unresolved, or the user quits the prompt.
  *
  * @example
  * ```bash
- * npx bigcommerce-oauth-next init ./src/app
+ * npx bigcommerce-oauth-next init --with load,uninstall --yes
  * ```
  *
  * @example
  * ```ts
  * // Programmatic usage (internal)
- * await initCommand(["./src/app/bc"]);
+ * await initCommand.run({ positionals: ['./src/app'], flags: { yes: true, with: ['load'] } });
  * ```
  */
-export async function initCommand(args: string[]) {
-  const targetPath = args[0];
+export const initCommand = defineCommand({
+  name: 'init',
+  arguments: '[path]',
+  summary: 'Scaffold the OAuth route files into a Next.js app directory',
+  description:
+    'Renders the install route, composition root, and result page into <path>/<base-path>, ' +
+    'optionally with the load, uninstall, and remove-user callbacks. <path> defaults to the ' +
+    "detected project's app/ or src/app/ directory, or its pages/ directory with --router pages, " +
+    'which renders a pages/api install route instead. Settings not given as flags are asked ' +
+    'for in a terminal. Existing files that differ from the templates are never overwritten without --force or confirmation.',
+  options: {
+    'app-name': {
+      type: 'string',
+      valueName: '<name>',
+      description: `Name shown on the result page (default "${DEFAULT_APP_NAME}")`,
+    },
+    'base-path': {
+      type: 'string',
+      valueName: '<path>',
+      description: `Route segment the callbacks live under (default "${DEFAULT_BASE_PATH}")`,
+    },
+    'success-path': {
+      type: 'string',
+      valueName: '<path>',
+      description: 'Page to redirect to after install (default /<base-path>/result)',
+    },
+    'error-path': {
+      type: 'string',
+      valueName: '<path>',
+      description: 'Page to redirect to on failure (default /<base-path>/result)',
+    },
+    package: {
+      type: 'string',
+      valueName: '<name>',
+      description: `Import specifier of this package (default "${DEFAULT_PACKAGE}")`,
+    },
+    with: {
+      type: 'string',
+      multiple: true,
+      valueName: '<callbacks>',
+      description: `Also scaffold callbacks: ${CALLBACK_FEATURES.join(', ')}`,
+    },
+    'no-ui': {
+      type: 'boolean',
+      description: 'Skip the result page; the install route answers with HTML',
+    },
+    lang: {
+      type: 'string',
+      valueName: '<ts|js>',
+      description: 'Template language (default: js without a tsconfig.json, else ts)',
+    },
+    router: {
+      type: 'string',
+      valueName: '<app|pages>',
+      description: 'Target router (default: pages for Pages-Router-only projects, else app)',
+    },
+    yes: { type: 'boolean', short: 'y', description: 'Use defaults instead of asking' },
+    'dry-run': { type: 'boolean', description: 'Print the plan without writing files' },
+    force: { type: 'boolean', short: 'f', description: 'Overwrite conflicting files' },
+    'skip-existing': { type: 'boolean', description: 'Keep conflicting files as they are' },
+  },
+  examples: [
+    'bigcommerce-oauth-next init',
+    'bigcommerce-oauth-next init --with load,uninstall,remove-user --yes',
+    'bigcommerce-oauth-next init ./app --base-path api/bigcommerce --no-ui --dry-run',
+    'bigcommerce-oauth-next init ./src/app --lang js --skip-existing',
+    'bigcommerce-oauth-next init --router pages --base-path bigcommerce',
+  ],
 
-  if (!targetPath) {
-    console.error('Missing target path.');
-    console.error('Usage: bigcommerce-oauth-next init <path>');
-    process.exit(1);
-  }
+  async run({ positionals, flags }) {
+    const targetPath = positionals[0];
+    const projectRoot = process.cwd();
+    const project = detectNextProject(
+      targetPath ? path.resolve(projectRoot, targetPath) : projectRoot,
+    );
 
-  // Resolve the user-specified destination directory
-  const projectRoot = process.cwd();
-  const dest = path.resolve(projectRoot, targetPath);
+    if (!targetPath && !project) {
+      console.error('Missing target path: no package.json found in this or any parent directory.');
+      console.error('Usage: bigcommerce-oauth-next init [path]');
+      return ExitCode.Usage;
+    }
 
-  // Resolve the path to the TypeScript template directory bundled with the package
-  const templateDir = path.resolve(__dirname, '../templates/ts');
+    if (flags.lang !== undefined && !isTemplateLanguage(flags.lang)) {
+      console.error(`Unknown --lang value: ${flags.lang}. Choose ts or js.`);
+      return ExitCode.Usage;
+    }
 
-  console.log(`Scaffolding BigCommerce OAuth Next files to:\n  ${dest}`);
+    if (flags.router !== undefined && !isTemplateRouter(flags.router)) {
+      console.error(`Unknown --router value: ${flags.router}. Choose app or pages.`);
+      return ExitCode.Usage;
+    }
 
-  // Copy the entire template directory to the destination
-  copyDirectory(templateDir, dest);
+    const router: TemplateRouter =
+      flags.router ?? (project?.pagesDir && !project.appDir ? 'pages' : 'app');
 
-  console.log('Done!');
-}
+    if (router === 'pages' && flags.lang === 'js') {
+      console.error('The Pages Router templates are TypeScript only; drop --lang js.');
+      return ExitCode.Usage;
+    }
+
+    if (flags.force && flags['skip-existing']) {
+      console.error('--force and --skip-existing cannot be combined.');
+      return ExitCode.Usage;
+    }
+
+    const requested = flags.with ? parseFeatureList(flags.with) : undefined;
+    const unknown = requested?.filter((name) => !(CALLBACK_FEATURES as string[]).includes(name));
+
+    if (unknown && unknown.length > 0) {
+      console.error(`Unknown --with value(s): ${unknown.join(', ')}`);
+      console.error(`Choose from: ${CALLBACK_FEATURES.join(', ')}`);
+      return ExitCode.Usage;
+    }
+
+    if (router === 'pages' && requested && requested.length > 0) {
+      console.error('The Pages Router templates only include the install callback; drop --with.');
+      return ExitCode.Usage;
+    }
+
+    const interactive = !flags.yes && isInteractive();
+    const ask = (question: string, value: string | undefined, fallback: string) =>
+      value === undefined && interactive
+        ? promptText(question, fallback)
+        : Promise.resolve(value ?? fallback);
+
+    const appName = await ask('App name', flags['app-name'], DEFAULT_APP_NAME);
+    const basePath = (await ask('Route base path', flags['base-path'], DEFAULT_BASE_PATH))
+      .trim()
+      .replace(/^\/+|\/+$/g, '');
+    const variables: TemplateVariables = {
+      appName,
+      basePath,
+      successPath: flags['success-path'] ?? defaultResultPath(basePath),
+      errorPath: flags['error-path'] ?? defaultResultPath(basePath),
+      packageName: flags.package ?? DEFAULT_PACKAGE,
+    };
+
+    const invalid = validateVariables(variables);
+
+    if (invalid) {
+      console.error(invalid);
+      return ExitCode.Usage;
+    }
+
+    const callbacks = requested ?? (interactive && router === 'app' ? await askCallbacks() : []);
+    const ui =
+      !flags['no-ui'] &&
+      (!interactive ||
+        !/^n/i.test(await promptText('Scaffold the install result page? [Y/n]', '')));
+    const features = new Set<TemplateFeature>(callbacks.filter(isTemplateFeature));
+    if (ui) features.add('ui');
+
+    if (project) {
+      console.log(`Detected ${describeProject(project)}.`);
+      if (!checkProject(project, Boolean(targetPath))) return ExitCode.Failure;
+    }
+
+    if (router === 'pages' && !flags.router) {
+      console.log(
+        'Only a Pages Router was found; using the Pages Router templates (pass --router app to override).',
+      );
+    }
+
+    const lang: TemplateLanguage = flags.lang ?? (project?.typescript === false ? 'js' : 'ts');
+
+    if (router === 'pages' && lang === 'js') {
+      console.error(
+        'No tsconfig.json found, but the Pages Router templates are TypeScript only. ' +
+          'Add a tsconfig.json, or pass --router app to use the JavaScript App Router templates.',
+      );
+      return ExitCode.Failure;
+    }
+
+    if (lang === 'js' && !flags.lang) {
+      console.log(
+        'No tsconfig.json found; using the JavaScript templates (pass --lang ts to override).',
+      );
+    }
+
+    // Default to the router directory, creating it where Next.js looks for
+    // it: under src/ when the project keeps its code there.
+    const routerDir = router === 'pages' ? project?.pagesDir : project?.appDir;
+    const dest = targetPath
+      ? path.resolve(projectRoot, targetPath)
+      : path.join(
+          project?.root ?? projectRoot,
+          routerDir ??
+            path.join(
+              fs.existsSync(path.join(project?.root ?? projectRoot, 'src')) ? 'src' : '',
+              router,
+            ),
+        );
+
+    if (project && routerDir && targetPath) {
+      const expected = path.join(project.root, routerDir);
+      const relative = path.relative(expected, dest);
+
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        console.warn(
+          `Warning: ${dest} is outside ${expected}; Next.js only serves ${router === 'pages' ? 'API routes from the pages' : 'route handlers from the app'} directory.`,
+        );
+      }
+    }
+
+    const rendered = renderTemplates(
+      resolveTemplateDir(templateVariant(lang, router)),
+      variables,
+      features,
+    );
+    // The Pages Router set places its files under api/<base-path> and
+    // <base-path> itself; the App Router set lives entirely in <base-path>.
+    const scaffoldDir = router === 'pages' ? dest : path.join(dest, basePath);
+    const plan = planCopy(
+      rendered.map((file) => ({
+        ...file,
+        relativePath: path.posix.join(router === 'pages' ? '' : basePath, file.relativePath),
+      })),
+      dest,
+    );
+    const conflicts = plan.filter((entry) => entry.status === 'conflict');
+
+    if (flags.force || flags['skip-existing']) {
+      for (const entry of conflicts) entry.resolution = flags.force ? 'overwrite' : 'skip';
+    }
+
+    if (flags['dry-run']) {
+      console.log(`Would scaffold BigCommerce OAuth Next files to:\n  ${dest}\n`);
+      for (const entry of plan) console.log(describeEntry(entry));
+      console.log('\nDry run: no files were written.');
+      return ExitCode.Success;
+    }
+
+    const unresolved = conflicts.filter((entry) => !entry.resolution);
+
+    if (unresolved.length > 0 && !interactive) {
+      console.error('These files already exist and differ from the templates:');
+      for (const entry of unresolved) console.error(`  ${entry.relativePath}`);
+      console.error(
+        'Re-run with --force or --skip-existing, or in an interactive terminal without --yes.',
+      );
+      return ExitCode.Failure;
+    }
+
+    if (!(await resolveInteractively(unresolved))) {
+      console.log('Aborted: no files were written.');
+      return ExitCode.Failure;
+    }
+
+    console.log(`Scaffolding BigCommerce OAuth Next files to:\n  ${dest}`);
+
+    const summary = applyCopyPlan(plan);
+    // Files kept as they were after a conflict were not generated, so they are left out of
+    // the manifest; `upgrade` then reports them instead of merging into them.
+    const generated = rendered.filter((_, index) => {
+      const entry = plan[index];
+      return entry?.status !== 'conflict' || entry.resolution === 'overwrite';
+    });
+    writeManifest(
+      scaffoldDir,
+      createManifest(
+        {
+          templateVersion: readPackageInfo().version,
+          lang,
+          router,
+          variables,
+          features: [...features],
+        },
+        generated,
+      ),
+    );
+
+    console.log(
+      `Done! ${String(summary.created.length)} created, ` +
+        `${String(summary.overwritten.length)} overwritten, ` +
+        `${String(summary.skipped.length)} skipped.`,
+    );
+    for (const file of summary.overwritten) console.log(`  overwritten ${file}`);
+    for (const file of summary.skipped) console.log(`  skipped     ${file}`);
+
+    return ExitCode.Success;
+  },
+});
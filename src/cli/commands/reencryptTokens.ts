@@ -0,0 +1,82 @@
+import * as path from 'node:path';
+import { JsonFileStoreRepository } from '../../stores/adapters/JsonFileStoreRepository.js';
+import { EncryptedStoreRepository } from '../../stores/encryption/EncryptedStoreRepository.js';
+import { parseTokenEncryptionKeys } from '../../stores/encryption/parseTokenEncryptionKeys.js';
+import { defineCommand } from '../defineCommand.js';
+import { ExitCode } from '../ExitCode.js';
+
+/**
+ * Re-encrypts every access token in a JSON store file under the active key.
+ *
+ * This command is executed as `bigcommerce-oauth-next reencrypt-tokens`.
+ * Keys are read from the environment rather than flags, so they never land
+ * in shell history:
+ *
+ * - `BIGCOMMERCE_TOKEN_KEYS` — comma-separated `id:base64secret` pairs,
+ *   listing the new key and every key still referenced by stored records.
+ * - `BIGCOMMERCE_TOKEN_ACTIVE_KEY_ID` — id of the key to re-encrypt with.
+ *   Defaults to the first listed key.
+ *
+ * Plain-text records are encrypted as well, so the command also migrates a
+ * store file written before encryption was enabled. Custom repositories can
+ * do the same with {@link EncryptedStoreRepository.reencryptAll}.
+ *
+ * Returns {@link ExitCode.Usage} if the path or keys are missing, and
+ * {@link ExitCode.Failure} if a key is invalid or a record cannot be
+ * decrypted.
+ *
+ * @example
+ * ```bash
+ * BIGCOMMERCE_TOKEN_KEYS="2026-02:<new>,2026-01:<old>" \
+ *   npx bigcommerce-oauth-next reencrypt-tokens .data/stores.json
+ * ```
+ */
+export const reencryptTokensCommand = defineCommand({
+  name: 'reencrypt-tokens',
+  arguments: '<store-file>',
+  summary: 'Re-encrypt stored access tokens under the active key',
+  description:
+    'Reads keys from BIGCOMMERCE_TOKEN_KEYS ("id:base64secret,...") and the active key id ' +
+    'from BIGCOMMERCE_TOKEN_ACTIVE_KEY_ID (defaults to the first key).',
+  options: {},
+  examples: [
+    'BIGCOMMERCE_TOKEN_KEYS="2026-02:<new>,2026-01:<old>" bigcommerce-oauth-next reencrypt-tokens .data/stores.json',
+  ],
+
+  async run({ positionals }) {
+    const filePath = positionals[0];
+    const { BIGCOMMERCE_TOKEN_KEYS, BIGCOMMERCE_TOKEN_ACTIVE_KEY_ID } = process.env;
+
+    if (!filePath) {
+      console.error('Missing store file path.');
+      console.error('Usage: bigcommerce-oauth-next reencrypt-tokens <store-file>');
+      return ExitCode.Usage;
+    }
+
+    if (!BIGCOMMERCE_TOKEN_KEYS) {
+      console.error('Missing BIGCOMMERCE_TOKEN_KEYS environment variable.');
+      return ExitCode.Usage;
+    }
+
+    try {
+      const stores = EncryptedStoreRepository.create(
+        new JsonFileStoreRepository(path.resolve(process.cwd(), filePath)),
+        {
+          keys: parseTokenEncryptionKeys(BIGCOMMERCE_TOKEN_KEYS),
+          activeKeyId: BIGCOMMERCE_TOKEN_ACTIVE_KEY_ID,
+        },
+      );
+
+      const summary = await stores.reencryptAll();
+
+      console.log(
+        `Re-encrypted ${String(summary.reencrypted)} of ${String(summary.total)} stores ` +
+          `(${String(summary.unchanged)} already under the active key).`,
+      );
+      return ExitCode.Success;
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : err);
+      return ExitCode.Failure;
+    }
+  },
+});
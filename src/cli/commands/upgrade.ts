@@ -0,0 +1,216 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { defineCommand } from '../defineCommand.js';
+import type { ScaffoldLocation } from '../dto/ScaffoldLocation.js';
+import { ScaffoldNotFoundError } from '../errors/ScaffoldNotFoundError.js';
+import { ExitCode } from '../ExitCode.js';
+import { locateScaffold } from '../utils/findScaffolds.js';
+import { mergeThreeWay } from '../utils/mergeThreeWay.js';
+import { readPackageInfo } from '../utils/readPackageInfo.js';
+import { renderTemplates } from '../utils/renderTemplates.js';
+import { resolveTemplateDir, templateVariant } from '../utils/resolveTemplateDir.js';
+import {
+  createManifest,
+  hashContent,
+  MANIFEST_FILE,
+  readManifest,
+  writeManifest,
+} from '../utils/scaffoldManifest.js';
+
+/**
+ * What `upgrade` does with one file:
+ *
+ * - `create`: new in this template version.
+ * - `update`: untouched since generated; replaced by the new template.
+ * - `merge`: customized; template changes merged in cleanly.
+ * - `conflict`: customized; merged with conflict markers.
+ * - `keep`: customized, and the template did not change.
+ * - `unchanged`: already matches the new template.
+ * - `deleted`: removed by the user; not recreated.
+ * - `obsolete`: no longer generated; left in place.
+ * - `untracked`: exists, but was kept instead of generated (e.g. by
+ *   `init --skip-existing`); left in place for a manual comparison.
+ */
+type UpgradeAction =
+  | 'create'
+  | 'update'
+  | 'merge'
+  | 'conflict'
+  | 'keep'
+  | 'unchanged'
+  | 'deleted'
+  | 'obsolete'
+  | 'untracked';
+
+/**
+ * Brings a scaffold up to date with the templates of this package version.
+ *
+ * This command is executed as `bigcommerce-oauth-next upgrade`. It reads
+ * the manifest `init` wrote next to the scaffold, renders the current
+ * templates with the recorded variables and features, and compares three
+ * versions of every file: the user's, the one originally generated (kept in
+ * the manifest), and the new template.
+ *
+ * - Files whose hash still matches the manifest are replaced silently.
+ * - Customized files receive a line-based three-way merge; overlapping
+ *   edits are written with `<<<<<<< yours` / `>>>>>>> template` markers.
+ * - Files the user deleted stay deleted, and files no longer generated are
+ *   reported but left in place.
+ * - Files the manifest does not record, because `init` kept an existing
+ *   file instead of generating it, are reported and left alone: without
+ *   the generated version there is no base to merge from.
+ *
+ * The manifest is then rewritten for the new version.
+ *
+ * Returns {@link ExitCode.Failure} if the scaffold or its manifest cannot
+ * be found, or if any file was written with conflict markers.
+ *
+ * @example
+ * ```bash
+ * npx bigcommerce-oauth-next upgrade --dry-run
+ * ```
+ */
+export const upgradeCommand = defineCommand({
+  name: 'upgrade',
+  arguments: '[scaffold-dir]',
+  summary: 'Merge template changes from this version into a scaffold',
+  description:
+    'Updates untouched scaffold files and three-way merges customized ones, using the ' +
+    `manifest (${MANIFEST_FILE}) init wrote next to the scaffold. Conflicts are marked in ` +
+    'the files for manual resolution.',
+  options: {
+    'dry-run': { type: 'boolean', description: 'Print the plan without writing files' },
+  },
+  examples: [
+    'bigcommerce-oauth-next upgrade',
+    'bigcommerce-oauth-next upgrade ./src/app/auth --dry-run',
+  ],
+
+  run({ positionals, flags }) {
+    let scaffold: ScaffoldLocation;
+
+    try {
+      scaffold = locateScaffold(process.cwd(), positionals[0]);
+    } catch (err) {
+      if (!(err instanceof ScaffoldNotFoundError)) throw err;
+
+      console.error(err.message);
+      for (const dir of err.candidates) console.error(`  ${dir}`);
+      return ExitCode.Failure;
+    }
+
+    const { dir } = scaffold;
+    const manifest = readManifest(dir);
+
+    if (!manifest) {
+      console.error(
+        `${dir} has no ${MANIFEST_FILE}; it was scaffolded before templates were versioned.`,
+      );
+      console.error(
+        'Re-run `bigcommerce-oauth-next init --skip-existing` to record one; files that ' +
+          'differ from the templates are then reported as untracked.',
+      );
+      return ExitCode.Failure;
+    }
+
+    // The installed package version is the template version being upgraded to.
+    const version = readPackageInfo().version;
+    const files = renderTemplates(
+      resolveTemplateDir(templateVariant(manifest.lang, manifest.router)),
+      manifest.variables,
+      new Set(manifest.features),
+    );
+    const results: { relativePath: string; action: UpgradeAction }[] = [];
+    const writes: { target: string; content: string }[] = [];
+
+    for (const file of files) {
+      const target = path.join(dir, ...file.relativePath.split('/'));
+      const recorded = manifest.files[file.relativePath];
+      let action: UpgradeAction;
+
+      if (!fs.existsSync(target)) {
+        action = recorded ? 'deleted' : 'create';
+        if (!recorded) writes.push({ target, content: file.content });
+      } else {
+        const current = fs.readFileSync(target, 'utf8');
+
+        if (current === file.content) {
+          action = 'unchanged';
+        } else if (!recorded) {
+          action = 'untracked';
+        } else if (recorded.hash === hashContent(current)) {
+          action = 'update';
+          writes.push({ target, content: file.content });
+        } else if (recorded.content === file.content) {
+          action = 'keep';
+        } else {
+          const merged = mergeThreeWay(recorded.content, current, file.content, {
+            ours: 'yours',
+            theirs: `template ${version}`,
+          });
+
+          action = merged.conflicts > 0 ? 'conflict' : 'merge';
+          writes.push({ target, content: merged.content });
+        }
+      }
+
+      results.push({ relativePath: file.relativePath, action });
+    }
+
+    const generated = new Set(files.map((file) => file.relativePath));
+
+    for (const relativePath of Object.keys(manifest.files).sort()) {
+      if (!generated.has(relativePath)) results.push({ relativePath, action: 'obsolete' });
+    }
+
+    console.log(
+      `${flags['dry-run'] ? 'Would upgrade' : 'Upgrading'} ${dir} ` +
+        `from templates ${manifest.templateVersion} to ${version}:`,
+    );
+    for (const { relativePath, action } of results) {
+      console.log(`  ${action.padEnd(9)} ${relativePath}`);
+    }
+
+    const untracked = new Set(
+      results
+        .filter((result) => result.action === 'untracked')
+        .map((result) => result.relativePath),
+    );
+
+    if (untracked.size > 0) {
+      console.log(
+        '\nNot recorded as generated, so left unchanged; compare them with the template, ' +
+          'or delete them to have upgrade recreate them:',
+      );
+      for (const relativePath of untracked) console.log(`  ${relativePath}`);
+    }
+
+    if (flags['dry-run']) {
+      console.log('\nDry run: no files were written.');
+      return ExitCode.Success;
+    }
+
+    for (const { target, content } of writes) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    }
+    writeManifest(
+      dir,
+      createManifest(
+        { ...manifest, templateVersion: version },
+        files.filter((file) => !untracked.has(file.relativePath)),
+      ),
+    );
+
+    const conflicted = results.filter((result) => result.action === 'conflict');
+
+    if (conflicted.length > 0) {
+      console.log('\nResolve the conflict markers in:');
+      for (const { relativePath } of conflicted) console.log(`  ${relativePath}`);
+      return ExitCode.Failure;
+    }
+
+    console.log(`\nDone! ${String(writes.length)} file(s) written.`);
+    return ExitCode.Success;
+  },
+});
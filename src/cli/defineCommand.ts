@@ -0,0 +1,26 @@
+import type { CliCommand } from './dto/CliCommand.js';
+import type { CliOption } from './dto/CliOption.js';
+
+/**
+ * Declares a CLI command, inferring flag types from its `options` so `run`
+ * receives typed `flags`.
+ *
+ * @example
+ * export const greetCommand = defineCommand({
+ *   name: 'greet',
+ *   summary: 'Print a greeting',
+ *   options: { loud: { type: 'boolean', description: 'Shout' } },
+ *   run({ flags }) {
+ *     console.log(flags.loud ? 'HELLO' : 'hello');
+ *     return ExitCode.Success;
+ *   },
+ * });
+ *
+ * @param command Command declaration
+ * @returns The same declaration, typed for the registry
+ */
+export function defineCommand<const TOptions extends Record<string, CliOption>>(
+  command: CliCommand<TOptions>,
+): CliCommand<TOptions> {
+  return command;
+}
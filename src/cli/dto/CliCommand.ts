@@ -0,0 +1,51 @@
+import type { CliCommandInput } from './CliCommandInput.js';
+import type { CliOption } from './CliOption.js';
+import type { ExitCode } from '../ExitCode.js';
+
+/**
+ * A `bigcommerce-oauth-next` subcommand.
+ *
+ * Each command lives in its own module under `src/cli/commands/` and is
+ * listed in the registry there; {@link runCli} takes care of dispatch,
+ * flag parsing, and help output.
+ */
+export interface CliCommand<
+  TOptions extends Record<string, CliOption> = Record<string, CliOption>,
+> {
+  /**
+   * Name typed on the command line, e.g. `"init"`.
+   */
+  name: string;
+
+  /**
+   * Positional argument synopsis shown after the name, e.g. `"<path>"`.
+   */
+  arguments?: string;
+
+  /**
+   * One-line summary shown in the global command list.
+   */
+  summary: string;
+
+  /**
+   * Longer text shown in the command's own `--help` output.
+   */
+  description?: string;
+
+  /**
+   * Flags accepted by the command. `--help` is added automatically.
+   */
+  options: TOptions;
+
+  /**
+   * Example invocations shown in the command's `--help` output.
+   */
+  examples?: string[];
+
+  /**
+   * Executes the command.
+   *
+   * @returns The process exit code
+   */
+  run(input: CliCommandInput<TOptions>): ExitCode | Promise<ExitCode>;
+}
@@ -0,0 +1,17 @@
+import type { CliFlags } from './CliFlags.js';
+import type { CliOption } from './CliOption.js';
+
+/**
+ * Arguments handed to {@link CliCommand.run} after flag parsing.
+ */
+export interface CliCommandInput<TOptions extends Record<string, CliOption>> {
+  /**
+   * Positional arguments following the command name.
+   */
+  positionals: string[];
+
+  /**
+   * Typed flag values.
+   */
+  flags: CliFlags<TOptions>;
+}
@@ -0,0 +1,15 @@
+import type { CliOption } from './CliOption.js';
+
+/**
+ * Parsed flag values for a set of {@link CliOption} declarations. Flags
+ * that were not passed are `undefined`.
+ */
+export type CliFlags<TOptions extends Record<string, CliOption>> = {
+  [K in keyof TOptions]?: TOptions[K]['type'] extends 'boolean'
+    ? TOptions[K]['multiple'] extends true
+      ? boolean[]
+      : boolean
+    : TOptions[K]['multiple'] extends true
+      ? string[]
+      : string;
+};
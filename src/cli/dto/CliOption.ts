@@ -0,0 +1,34 @@
+/**
+ * Declaration of a single command-line flag.
+ *
+ * Parsed with `node:util` `parseArgs`, so the shape mirrors its option
+ * config plus the text shown in help output.
+ */
+export interface CliOption {
+  /**
+   * `"boolean"` for switches such as `--force`, `"string"` for flags that
+   * take a value such as `--lang ts`.
+   */
+  type: 'boolean' | 'string';
+
+  /**
+   * Single-character alias, e.g. `"f"` for `-f`.
+   */
+  short?: string;
+
+  /**
+   * Accept the flag more than once, collecting every value.
+   */
+  multiple?: boolean;
+
+  /**
+   * Placeholder for the value in help output, e.g. `"<lang>"`. Only used
+   * for string flags.
+   */
+  valueName?: string;
+
+  /**
+   * One-line description shown in help output.
+   */
+  description: string;
+}
@@ -0,0 +1,8 @@
+/**
+ * Answer to the interactive overwrite prompt.
+ *
+ * - `overwrite` / `skip`: this file only.
+ * - `overwrite-all` / `skip-all`: this file and every remaining conflict.
+ * - `abort`: stop without writing anything.
+ */
+export type ConflictChoice = 'overwrite' | 'skip' | 'overwrite-all' | 'skip-all' | 'abort';
@@ -0,0 +1,34 @@
+/**
+ * One file that a scaffolding command intends to write.
+ */
+export interface CopyPlanEntry {
+  /**
+   * Path relative to the destination directory, with `/` separators.
+   */
+  relativePath: string;
+
+  /**
+   * Rendered content to write.
+   */
+  content: string;
+
+  /**
+   * Absolute path the file would be written to.
+   */
+  target: string;
+
+  /**
+   * State of the target before anything is written:
+   *
+   * - `create`: the target does not exist.
+   * - `unchanged`: the target already has the template's content.
+   * - `conflict`: the target exists with different content.
+   */
+  status: 'create' | 'unchanged' | 'conflict';
+
+  /**
+   * Decision for a conflicting file. Only `create` entries and conflicts
+   * resolved to `overwrite` are written.
+   */
+  resolution?: 'overwrite' | 'skip';
+}
@@ -0,0 +1,20 @@
+/**
+ * Files touched by {@link applyCopyPlan}, as relative paths.
+ */
+export interface CopySummary {
+  /**
+   * Files that did not exist and were written.
+   */
+  created: string[];
+
+  /**
+   * Existing files replaced with the template's content.
+   */
+  overwritten: string[];
+
+  /**
+   * Existing files left as they were, either because they already matched
+   * or because the conflict was resolved to `skip`.
+   */
+  skipped: string[];
+}
@@ -0,0 +1,15 @@
+/**
+ * Outcome of a three-way merge.
+ */
+export interface MergeResult {
+  /**
+   * Merged text. Conflicting regions are wrapped in `<<<<<<<`, `=======`,
+   * and `>>>>>>>` markers.
+   */
+  content: string;
+
+  /**
+   * Number of conflicting regions in {@link content}.
+   */
+  conflicts: number;
+}
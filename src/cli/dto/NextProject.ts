@@ -0,0 +1,37 @@
+/**
+ * Layout of a Next.js project as detected by `detectNextProject`. Paths are
+ * relative to {@link root} and use `/` separators.
+ */
+export interface NextProject {
+  /**
+   * Absolute path of the directory holding the project's `package.json`.
+   */
+  root: string;
+
+  /**
+   * Installed `next` version, or the range declared in `package.json` when
+   * `node_modules` is missing. Absent when `next` is not a dependency.
+   */
+  nextVersion?: string;
+
+  /**
+   * App Router directory, `"app"` or `"src/app"`, if one exists.
+   */
+  appDir?: string;
+
+  /**
+   * Pages Router directory, `"pages"` or `"src/pages"`, if one exists.
+   */
+  pagesDir?: string;
+
+  /**
+   * Whether the project has a `tsconfig.json`.
+   */
+  typescript: boolean;
+
+  /**
+   * Directory the `@/*` path alias points to, e.g. `"src"` or `"."`, if the
+   * project's `tsconfig.json` or `jsconfig.json` declares one.
+   */
+  importAlias?: string;
+}
@@ -0,0 +1,17 @@
+/**
+ * Fields of this package's own `package.json` used by the CLI, as read by
+ * `readPackageInfo`.
+ */
+export interface PackageInfo {
+  /**
+   * Published package version; printed by `--version` and recorded in
+   * scaffold manifests.
+   */
+  version: string;
+
+  /**
+   * The `next` peer dependency range. Its lower bound is the oldest Next.js
+   * version the templates support.
+   */
+  nextVersionRange: string;
+}
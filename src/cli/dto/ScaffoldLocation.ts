@@ -0,0 +1,14 @@
+/**
+ * A scaffold created by `init`, as found by `locateScaffold`.
+ */
+export interface ScaffoldLocation {
+  /**
+   * Absolute scaffold directory, holding `route.ts` and `_composition/`.
+   */
+  dir: string;
+
+  /**
+   * URL base path it serves, without slashes, e.g. `"auth"`.
+   */
+  basePath: string;
+}
@@ -0,0 +1,57 @@
+import type { TemplateFeature } from './TemplateFeature.js';
+import type { TemplateLanguage } from './TemplateLanguage.js';
+import type { TemplateRouter } from './TemplateRouter.js';
+import type { TemplateVariables } from './TemplateVariables.js';
+
+/**
+ * Record of a scaffold, written next to it by `init` and kept current by
+ * `add` and `upgrade`. It lets `upgrade` tell untouched files from
+ * customized ones and merge template changes into the latter.
+ */
+export interface ScaffoldManifest {
+  /**
+   * Version of this package whose templates generated the files.
+   */
+  templateVersion: string;
+
+  /**
+   * Template set the files were rendered from.
+   */
+  lang: TemplateLanguage;
+
+  /**
+   * Router the files were rendered for. Absent in manifests written before
+   * Pages Router support, which are App Router scaffolds.
+   */
+  router?: TemplateRouter;
+
+  /**
+   * Values the templates were rendered with.
+   */
+  variables: TemplateVariables;
+
+  /**
+   * Features the scaffold was rendered with.
+   */
+  features: TemplateFeature[];
+
+  /**
+   * Generated files, keyed by path relative to the scaffold directory.
+   */
+  files: Record<string, ScaffoldManifestFile>;
+}
+
+/**
+ * One generated file as the template produced it.
+ */
+export interface ScaffoldManifestFile {
+  /**
+   * SHA-256 of {@link content}, hex-encoded.
+   */
+  hash: string;
+
+  /**
+   * Content as generated, used as the common ancestor when merging.
+   */
+  content: string;
+}
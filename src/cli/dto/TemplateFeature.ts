@@ -0,0 +1,10 @@
+/**
+ * Optional parts of the scaffold. The install route and its composition root
+ * are always emitted.
+ *
+ * - `load`, `uninstall`, `remove-user`: the matching callback route and
+ *   composition root.
+ * - `ui`: the install result page. Without it the install route answers with
+ *   the built-in HTML page instead of redirecting.
+ */
+export type TemplateFeature = 'load' | 'uninstall' | 'remove-user' | 'ui';
@@ -0,0 +1,14 @@
+/**
+ * A rendered template, ready to be planned and written.
+ */
+export interface TemplateFile {
+  /**
+   * Path relative to the target directory, with `/` separators.
+   */
+  relativePath: string;
+
+  /**
+   * File content after variable substitution.
+   */
+  content: string;
+}
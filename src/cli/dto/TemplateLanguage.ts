@@ -0,0 +1,6 @@
+/**
+ * Template set to render: `ts` for TypeScript projects, `js` for plain
+ * JavaScript projects with JSDoc types. Names the directory under
+ * `templates/`.
+ */
+export type TemplateLanguage = 'ts' | 'js';
@@ -0,0 +1,5 @@
+/**
+ * Next.js router a template set targets: `app` renders App Router route
+ * handlers, `pages` a `pages/api` route and a page.
+ */
+export type TemplateRouter = 'app' | 'pages';
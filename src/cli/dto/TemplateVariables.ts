@@ -0,0 +1,35 @@
+/**
+ * Values substituted into the templates by `init`. Each one replaces a
+ * `__TOKEN__` placeholder in file contents.
+ */
+export interface TemplateVariables {
+  /**
+   * Name shown on the result page (`__APP_NAME__`). Defaults to `"My App"`.
+   */
+  appName: string;
+
+  /**
+   * Route segment the callbacks are served under, without leading or
+   * trailing slashes (`__BASE_PATH__`). Also the directory the files are
+   * written to, relative to the target path. Defaults to `"auth"`.
+   */
+  basePath: string;
+
+  /**
+   * Page the install route redirects to on success (`__SUCCESS_PATH__`).
+   * Defaults to `/{basePath}/result`.
+   */
+  successPath: string;
+
+  /**
+   * Page the install and load routes redirect to on failure
+   * (`__ERROR_PATH__`). Defaults to `/{basePath}/result`.
+   */
+  errorPath: string;
+
+  /**
+   * Import specifier of this package (`__PACKAGE__`), for projects that
+   * re-export it under an alias. Defaults to `"bigcommerce-oauth-next"`.
+   */
+  packageName: string;
+}
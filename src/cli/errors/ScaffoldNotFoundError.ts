@@ -0,0 +1,14 @@
+/**
+ * Thrown by {@link locateScaffold} when no single scaffold can be chosen.
+ *
+ * {@link candidates} lists the scaffolds found when there is more than one,
+ * so the command can ask the user to pick.
+ */
+export class ScaffoldNotFoundError extends Error {
+  constructor(
+    message: string,
+    readonly candidates: string[] = [],
+  ) {
+    super(message);
+  }
+}
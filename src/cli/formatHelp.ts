@@ -0,0 +1,73 @@
+import type { CliCommand } from './dto/CliCommand.js';
+import type { CliOption } from './dto/CliOption.js';
+
+/**
+ * Name of the executable as users type it.
+ */
+export const BIN_NAME = 'bigcommerce-oauth-next';
+
+const HELP_OPTION: CliOption = { type: 'boolean', short: 'h', description: 'Show help' };
+
+const VERSION_OPTION: CliOption = { type: 'boolean', short: 'v', description: 'Show version' };
+
+/**
+ * Formats the top-level help listing every registered command.
+ *
+ * @param commands Registered commands
+ * @returns Help text, without a trailing newline
+ */
+export function formatGlobalHelp(commands: CliCommand[]): string {
+  return [
+    `Usage: ${BIN_NAME} <command> [options]`,
+    '',
+    'Commands:',
+    ...formatColumns(commands.map((command) => [synopsis(command), command.summary])),
+    '',
+    'Options:',
+    ...formatOptions({ help: HELP_OPTION, version: VERSION_OPTION }),
+    '',
+    `Run \`${BIN_NAME} <command> --help\` for details on a command.`,
+  ].join('\n');
+}
+
+/**
+ * Formats the help for a single command: usage, description, flags, and
+ * examples.
+ *
+ * @param command Command to describe
+ * @returns Help text, without a trailing newline
+ */
+export function formatCommandHelp(command: CliCommand): string {
+  const lines = [`Usage: ${BIN_NAME} ${synopsis(command)} [options]`, '', command.summary];
+
+  if (command.description) {
+    lines.push('', command.description);
+  }
+
+  lines.push('', 'Options:', ...formatOptions({ ...command.options, help: HELP_OPTION }));
+
+  if (command.examples?.length) {
+    lines.push('', 'Examples:', ...command.examples.map((example) => `  ${example}`));
+  }
+
+  return lines.join('\n');
+}
+
+function synopsis(command: CliCommand): string {
+  return command.arguments ? `${command.name} ${command.arguments}` : command.name;
+}
+
+function formatOptions(options: Record<string, CliOption>): string[] {
+  return formatColumns(
+    Object.entries(options).map(([name, option]) => {
+      const flag =
+        option.type === 'string' ? `--${name} ${option.valueName ?? '<value>'}` : `--${name}`;
+      return [option.short ? `-${option.short}, ${flag}` : `    ${flag}`, option.description];
+    }),
+  );
+}
+
+function formatColumns(rows: [string, string][]): string[] {
+  const width = Math.max(...rows.map(([left]) => left.length));
+  return rows.map(([left, right]) => `  ${left.padEnd(width)}  ${right}`);
+}
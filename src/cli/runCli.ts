@@ -0,0 +1,95 @@
+import type { ParseArgsOptionsConfig } from 'node:util';
+import { parseArgs } from 'node:util';
+import { commands as registeredCommands } from './commands/index.js';
+import type { CliCommand } from './dto/CliCommand.js';
+import type { CliFlags } from './dto/CliFlags.js';
+import type { CliOption } from './dto/CliOption.js';
+import { ExitCode } from './ExitCode.js';
+import { BIN_NAME, formatCommandHelp, formatGlobalHelp } from './formatHelp.js';
+import { readPackageInfo } from './utils/readPackageInfo.js';
+
+type CliOptions = Record<string, CliOption>;
+
+/**
+ * Parses a command line and runs the matching command.
+ *
+ * - No command, `--help`, or `-h` prints the global help.
+ * - `--version` or `-v` prints the package version.
+ * - `<command> --help` prints that command's help.
+ * - Unknown commands and flags print an error and return
+ *   {@link ExitCode.Usage}.
+ *
+ * Commands never call `process.exit`; the returned code is applied by the
+ * executable, so everything here can be exercised from tests.
+ *
+ * @param argv Arguments after the executable, e.g. `["init", "src/app"]`
+ * @param commands Commands to dispatch to. Defaults to the registry in
+ *                 `src/cli/commands/index.ts`.
+ * @returns The process exit code
+ */
+export async function runCli(
+  argv: string[],
+  commands: CliCommand[] = registeredCommands,
+): Promise<ExitCode> {
+  const [name, ...rest] = argv;
+
+  if (name === undefined || name === '--help' || name === '-h') {
+    console.log(formatGlobalHelp(commands));
+    return name === undefined ? ExitCode.Usage : ExitCode.Success;
+  }
+
+  if (name === '--version' || name === '-v') {
+    console.log(readPackageInfo().version);
+    return ExitCode.Success;
+  }
+
+  const command = commands.find((candidate) => candidate.name === name);
+
+  if (!command) {
+    console.error(`Unknown command: ${name}`);
+    console.error(`Run \`${BIN_NAME} --help\` to list the available commands.`);
+    return ExitCode.Usage;
+  }
+
+  let parsed: ReturnType<typeof parseArgs>;
+
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: { ...toParseArgsOptions(command), help: { type: 'boolean', short: 'h' } },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    console.error(`Run \`${BIN_NAME} ${command.name} --help\` for usage.`);
+    return ExitCode.Usage;
+  }
+
+  const { help, ...flags } = parsed.values;
+
+  if (help) {
+    console.log(formatCommandHelp(command));
+    return ExitCode.Success;
+  }
+
+  // parseArgs validated the values against the command's own declarations.
+  return command.run({ positionals: parsed.positionals, flags: flags as CliFlags<CliOptions> });
+}
+
+/**
+ * Strips help-only fields so the declarations can be handed to `parseArgs`,
+ * which rejects an explicitly `undefined` alias.
+ */
+function toParseArgsOptions(command: CliCommand): ParseArgsOptionsConfig {
+  return Object.fromEntries(
+    Object.entries(command.options).map(([name, option]) => [
+      name,
+      {
+        type: option.type,
+        multiple: option.multiple ?? false,
+        ...(option.short ? { short: option.short } : {}),
+      },
+    ]),
+  );
+}
@@ -0,0 +1,55 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { CopyPlanEntry } from '../dto/CopyPlanEntry.js';
+import type { CopySummary } from '../dto/CopySummary.js';
+import type { TemplateFile } from '../dto/TemplateFile.js';
+
+/**
+ * Compares rendered files with a destination without writing anything, so
+ * conflicts can be resolved before the first file changes.
+ *
+ * @param {TemplateFile[]} files - Files to write, relative to `dest`.
+ * @param {string} dest - Destination directory; it need not exist.
+ * @returns {CopyPlanEntry[]} One entry per file, in the given order.
+ */
+export function planCopy(files: TemplateFile[], dest: string): CopyPlanEntry[] {
+  return files.map(({ relativePath, content }) => {
+    const target = path.join(dest, ...relativePath.split('/'));
+
+    let status: CopyPlanEntry['status'] = 'create';
+
+    if (fs.existsSync(target)) {
+      status = fs.readFileSync(target, 'utf8') === content ? 'unchanged' : 'conflict';
+    }
+
+    return { relativePath, content, target, status };
+  });
+}
+
+/**
+ * Writes the files of a plan: every `create` entry and every conflict
+ * resolved to `overwrite`. Unresolved conflicts are left untouched.
+ *
+ * @param {CopyPlanEntry[]} plan - Plan produced by {@link planCopy}.
+ * @returns {CopySummary} The files created, overwritten, and skipped.
+ */
+export function applyCopyPlan(plan: CopyPlanEntry[]): CopySummary {
+  const summary: CopySummary = { created: [], overwritten: [], skipped: [] };
+
+  for (const entry of plan) {
+    if (
+      entry.status === 'unchanged' ||
+      (entry.status === 'conflict' && entry.resolution !== 'overwrite')
+    ) {
+      summary.skipped.push(entry.relativePath);
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(entry.target), { recursive: true });
+    fs.writeFileSync(entry.target, entry.content);
+
+    (entry.status === 'create' ? summary.created : summary.overwritten).push(entry.relativePath);
+  }
+
+  return summary;
+}
@@ -0,0 +1,118 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { NextProject } from '../dto/NextProject.js';
+import { APP_DIRS, PAGES_DIRS } from './findRouteFile.js';
+
+/**
+ * Finds the Next.js project containing a directory and describes its layout.
+ *
+ * Walks up from `startDir` to the nearest `package.json`, then reads:
+ *
+ * - the `next` version from `node_modules/next/package.json`, falling back to
+ *   the range in `dependencies` or `devDependencies`;
+ * - which of `app/`, `src/app/`, `pages/`, and `src/pages/` exist, in the
+ *   order Next.js itself prefers them;
+ * - whether a `tsconfig.json` exists, and where the `@/*` alias points.
+ *
+ * `startDir` need not exist, so a target path that `init` is about to
+ * create can be passed directly.
+ *
+ * @param {string} startDir - Absolute directory to start from.
+ * @returns {NextProject | undefined} The project, or `undefined` if no
+ *          `package.json` is found.
+ */
+export function detectNextProject(startDir: string): NextProject | undefined {
+  const root = findProjectRoot(startDir);
+  if (!root) return undefined;
+
+  const firstDir = (candidates: string[]) =>
+    candidates.find((dir) => fs.existsSync(path.join(root, dir)));
+  const typescript = fs.existsSync(path.join(root, 'tsconfig.json'));
+
+  return {
+    root,
+    nextVersion: readNextVersion(root),
+    appDir: firstDir(APP_DIRS),
+    pagesDir: firstDir(PAGES_DIRS),
+    typescript,
+    importAlias: readImportAlias(path.join(root, typescript ? 'tsconfig.json' : 'jsconfig.json')),
+  };
+}
+
+/**
+ * Checks a version or range against a minimum such as `">=15"`, using the
+ * lowest version the range allows.
+ *
+ * @param {string} version - Version or range, e.g. `"15.1.0"` or `"^14.2.3"`.
+ * @param {string} floor - Minimum, e.g. the `next` peer dependency range.
+ * @returns {boolean | undefined} `undefined` when either side names no
+ *          version, e.g. `"latest"` or `"canary"`.
+ */
+export function satisfiesFloor(version: string, floor: string): boolean | undefined {
+  const actual = parseVersion(version);
+  const minimum = parseVersion(floor);
+  if (!actual || !minimum) return undefined;
+
+  for (let i = 0; i < 3; i++) {
+    const difference = (actual[i] ?? 0) - (minimum[i] ?? 0);
+    if (difference !== 0) return difference > 0;
+  }
+
+  return true;
+}
+
+function findProjectRoot(startDir: string): string | undefined {
+  let dir = startDir;
+
+  for (;;) {
+    if (fs.existsSync(path.join(dir, 'package.json'))) return dir;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function readNextVersion(root: string): string | undefined {
+  const installed = readJson(path.join(root, 'node_modules', 'next', 'package.json'));
+  if (typeof installed?.version === 'string') return installed.version;
+
+  const manifest = readJson(path.join(root, 'package.json'));
+
+  for (const field of ['dependencies', 'devDependencies']) {
+    const dependencies = manifest?.[field] as Record<string, unknown> | undefined;
+    const range = dependencies?.next;
+    if (typeof range === 'string') return range;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the `@/*` entry of `compilerOptions.paths`. Matched textually, since
+ * tsconfig files are JSON with comments.
+ */
+function readImportAlias(configFile: string): string | undefined {
+  if (!fs.existsSync(configFile)) return undefined;
+
+  const config = fs.readFileSync(configFile, 'utf8');
+  const target = /"@\/\*"\s*:\s*\[\s*"([^"]*)"/.exec(config)?.[1];
+  if (target === undefined) return undefined;
+
+  const baseUrl = /"baseUrl"\s*:\s*"([^"]*)"/.exec(config)?.[1] ?? '.';
+  return path.posix.normalize(path.posix.join(baseUrl, target.replace(/\/?\*$/, '')));
+}
+
+function readJson(file: string): Record<string, unknown> | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseVersion(value: string): number[] | undefined {
+  const match = /(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(value);
+  // Missing minor and patch parts are `undefined` at runtime.
+  return match?.slice(1).map((part: string | undefined) => Number(part ?? 0));
+}
@@ -3,9 +3,9 @@ import * as path from 'node:path';
 
 /**
  * Recursively copies the contents of a source directory into a destination
- * directory. This utility is used by the CLI scaffolding command to copy
- * template files from the installed package into a user-specified project
- * directory.
+ * directory, overwriting whatever is already there. The `init` command uses
+ * {@link planCopy} and {@link applyCopyPlan} instead, so that existing files
+ * are never replaced without confirmation.
  *
  * Behavior:
  * - Creates the destination directory if it does not already exist.
@@ -0,0 +1,77 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * App Router directories checked, relative to the project root.
+ */
+export const APP_DIRS = ['app', 'src/app'];
+
+/**
+ * Pages Router directories checked, relative to the project root.
+ */
+export const PAGES_DIRS = ['pages', 'src/pages'];
+
+const ROUTE_FILE = /^route\.(?:ts|js|tsx|jsx|mts|mjs)$/;
+
+const SOURCE_EXTENSIONS = ['ts', 'js', 'tsx', 'jsx', 'mts', 'mjs'];
+
+/**
+ * Locates the App Router `route` file, or the Pages Router API route, that
+ * serves a URL pathname.
+ *
+ * Route groups such as `(oauth)` do not contribute a URL segment, so they
+ * are descended into transparently. Dynamic segments are not matched. API
+ * routes are looked up as `pages/api/<path>.<ext>` or
+ * `pages/api/<path>/index.<ext>`.
+ *
+ * @param {string} projectDir - Root of the Next.js project.
+ * @param {string} pathname - URL pathname, e.g. `"/auth"`.
+ * @returns {string | undefined} Absolute path of the route file, if found.
+ */
+export function findRouteFile(projectDir: string, pathname: string): string | undefined {
+  const segments = pathname.split('/').filter(Boolean);
+
+  for (const appDir of APP_DIRS) {
+    const found = search(path.join(projectDir, appDir), segments);
+    if (found) return found;
+  }
+
+  if (segments[0] === 'api') {
+    for (const pagesDir of PAGES_DIRS) {
+      const base = path.join(projectDir, pagesDir, ...segments);
+      const found = [base, path.join(base, 'index')]
+        .flatMap((candidate) => SOURCE_EXTENSIONS.map((extension) => `${candidate}.${extension}`))
+        .find((candidate) => fs.existsSync(candidate));
+
+      if (found) return found;
+    }
+  }
+
+  return undefined;
+}
+
+function search(dir: string, segments: string[]): string | undefined {
+  if (!fs.existsSync(dir)) return undefined;
+
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  const [next, ...rest] = segments;
+
+  if (next === undefined) {
+    const file = entries.find((entry) => entry.isFile() && ROUTE_FILE.test(entry.name));
+    if (file) return path.join(dir, file.name);
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const found = /^\(.+\)$/.test(entry.name)
+      ? search(path.join(dir, entry.name), segments)
+      : entry.name === next
+        ? search(path.join(dir, entry.name), rest)
+        : undefined;
+
+    if (found) return found;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,138 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ScaffoldLocation } from '../dto/ScaffoldLocation.js';
+import { ScaffoldNotFoundError } from '../errors/ScaffoldNotFoundError.js';
+import { detectNextProject } from './detectNextProject.js';
+import { MANIFEST_FILE } from './scaffoldManifest.js';
+
+const SOURCE_FILE = /\.(?:ts|js|tsx|jsx|mts|mjs)$/;
+const ROUTE_FILE = /^route\.(?:ts|js|tsx|jsx|mts|mjs)$/;
+
+/**
+ * Checks whether a directory holds a scaffold written by `init`: a
+ * manifest, an `_composition/installApp` file, or a `route` file that
+ * creates an `InstallController`.
+ *
+ * @param {string} dir - Directory to inspect.
+ * @returns {boolean} Whether `dir` is a scaffold directory.
+ */
+export function isScaffold(dir: string): boolean {
+  if (!fs.existsSync(dir)) return false;
+  if (fs.existsSync(path.join(dir, MANIFEST_FILE))) return true;
+
+  const composition = path.join(dir, '_composition');
+  if (
+    fs.existsSync(composition) &&
+    fs
+      .readdirSync(composition)
+      .some((file) => file.startsWith('installApp.') && SOURCE_FILE.test(file))
+  ) {
+    return true;
+  }
+
+  return fs
+    .readdirSync(dir)
+    .some(
+      (file) =>
+        ROUTE_FILE.test(file) &&
+        fs.readFileSync(path.join(dir, file), 'utf8').includes('InstallController'),
+    );
+}
+
+/**
+ * Finds every scaffold directory below an App Router directory, so
+ * commands that extend a scaffold can locate it without being told where
+ * `init` put it.
+ *
+ * `node_modules` and dot-directories are skipped, and the search does not
+ * descend into a scaffold once found.
+ *
+ * @param {string} appDir - Absolute App Router directory, e.g. `<root>/src/app`.
+ * @returns {string[]} Absolute scaffold directories, sorted.
+ */
+export function findScaffolds(appDir: string): string[] {
+  if (!fs.existsSync(appDir)) return [];
+  if (isScaffold(appDir)) return [appDir];
+
+  return fs
+    .readdirSync(appDir, { withFileTypes: true })
+    .filter(
+      (entry) =>
+        entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'),
+    )
+    .flatMap((entry) => findScaffolds(path.join(appDir, entry.name)))
+    .sort();
+}
+
+/**
+ * Derives the URL base path of a scaffold from its location in the App
+ * Router. Route groups such as `(oauth)` do not contribute a segment.
+ *
+ * @param {string} appDir - Absolute App Router directory.
+ * @param {string} scaffoldDir - Absolute scaffold directory inside it.
+ * @returns {string} Base path without slashes, e.g. `"auth"`.
+ */
+export function scaffoldBasePath(appDir: string, scaffoldDir: string): string {
+  return path
+    .relative(appDir, scaffoldDir)
+    .split(path.sep)
+    .filter((segment) => segment !== '' && !/^\(.+\)$/.test(segment))
+    .join('/');
+}
+
+/**
+ * Finds the scaffold a command should work on: `scaffoldPath` when given,
+ * otherwise the only scaffold in the App Router of the project containing
+ * `cwd`. A Pages Router scaffold spans `pages/api` and `pages`, so it is
+ * found by the manifest `init` writes in the pages directory.
+ *
+ * @param {string} cwd - Directory the command runs in.
+ * @param {string} [scaffoldPath] - Scaffold directory given by the user,
+ *        relative to `cwd`.
+ * @returns {ScaffoldLocation} The scaffold and the base path it serves.
+ *
+ * @throws {ScaffoldNotFoundError} If `scaffoldPath` is not a scaffold, or
+ *         the project has none or more than one.
+ */
+export function locateScaffold(cwd: string, scaffoldPath?: string): ScaffoldLocation {
+  const project = detectNextProject(scaffoldPath ? path.resolve(cwd, scaffoldPath) : cwd);
+  const appDir = project?.appDir ? path.join(project.root, project.appDir) : undefined;
+  let dir: string;
+
+  if (scaffoldPath) {
+    dir = path.resolve(cwd, scaffoldPath);
+
+    if (!isScaffold(dir)) {
+      throw new ScaffoldNotFoundError(`${dir} does not contain a scaffold created by init.`);
+    }
+  } else {
+    const pagesDir = project?.pagesDir ? path.join(project.root, project.pagesDir) : undefined;
+    const found = [
+      ...(appDir ? findScaffolds(appDir) : []),
+      ...(pagesDir && fs.existsSync(path.join(pagesDir, MANIFEST_FILE)) ? [pagesDir] : []),
+    ];
+    const [only] = found;
+
+    if (!only) {
+      throw new ScaffoldNotFoundError(
+        'No scaffold found. Run `bigcommerce-oauth-next init` first, or pass its directory.',
+      );
+    }
+
+    if (found.length > 1) {
+      throw new ScaffoldNotFoundError(
+        'Found more than one scaffold; pass the one to use as [scaffold-dir]:',
+        found,
+      );
+    }
+
+    dir = only;
+  }
+
+  const basePath =
+    appDir && !path.relative(appDir, dir).startsWith('..')
+      ? scaffoldBasePath(appDir, dir)
+      : path.basename(dir);
+
+  return { dir, basePath };
+}
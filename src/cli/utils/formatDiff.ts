@@ -0,0 +1,68 @@
+/**
+ * Number of unchanged lines shown around each change.
+ */
+const CONTEXT_LINES = 2;
+
+/**
+ * Renders a line diff between two texts: `-` for lines only in `before`,
+ * `+` for lines only in `after`, and a few lines of context around each
+ * change. Runs of unchanged lines beyond the context are collapsed to `…`.
+ *
+ * Intended for the small files the CLI scaffolds; the comparison is a plain
+ * longest-common-subsequence over lines.
+ *
+ * @param {string} before - Current content, e.g. the user's file.
+ * @param {string} after - Incoming content, e.g. the template.
+ * @returns {string} The diff, or an empty string when the texts match.
+ */
+export function formatDiff(before: string, after: string): string {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // lcs[i * width + j] = length of the common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  const at = (i: number, j: number) => lcs[i * width + j] ?? 0;
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const lines: { kind: ' ' | '-' | '+'; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: ' ', text: a[i] ?? '' });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || at(i, j + 1) > at(i + 1, j))) {
+      lines.push({ kind: '+', text: b[j] ?? '' });
+      j++;
+    } else {
+      lines.push({ kind: '-', text: a[i] ?? '' });
+      i++;
+    }
+  }
+
+  const changed = lines.flatMap((line, index) => (line.kind === ' ' ? [] : [index]));
+  if (changed.length === 0) return '';
+
+  const output: string[] = [];
+  let last = -1;
+
+  lines.forEach((line, index) => {
+    const nearChange = changed.some((c) => Math.abs(c - index) <= CONTEXT_LINES);
+    if (!nearChange) return;
+
+    if (last !== -1 && index > last + 1) output.push('…');
+    output.push(`${line.kind} ${line.text}`);
+    last = index;
+  });
+
+  return output.join('\n');
+}
@@ -0,0 +1,124 @@
+import type { MergeResult } from '../dto/MergeResult.js';
+
+/**
+ * Merges two edits of the same text, line by line.
+ *
+ * Regions changed on one side only take that side's version; regions
+ * changed identically on both sides are taken once. Regions changed
+ * differently on both sides are emitted as a conflict:
+ *
+ * ```text
+ * <<<<<<< {oursLabel}
+ * …ours…
+ * =======
+ * …theirs…
+ * >>>>>>> {theirsLabel}
+ * ```
+ *
+ * Intended for the small files the CLI scaffolds; alignment is a plain
+ * longest-common-subsequence of each side against the base.
+ *
+ * @param {string} base - Common ancestor, e.g. the originally generated file.
+ * @param {string} ours - Local edit, e.g. the user's file.
+ * @param {string} theirs - Incoming edit, e.g. the new template.
+ * @param {{ ours: string; theirs: string }} labels - Names for the markers.
+ * @returns {MergeResult} The merged text and its conflict count.
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels = { ours: 'ours', theirs: 'theirs' },
+): MergeResult {
+  const o = ours.split('\n');
+  const b = base.split('\n');
+  const t = theirs.split('\n');
+  const toOurs = matchLines(b, o);
+  const toTheirs = matchLines(b, t);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < b.length || j < o.length || k < t.length) {
+    // A base line kept at the current position on both sides is stable.
+    if (i < b.length && toOurs[i] === j && toTheirs[i] === k) {
+      output.push(b[i] ?? '');
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // The changed region runs up to the next base line both sides kept.
+    let next = i;
+    while (next < b.length && (toOurs[next] === -1 || toTheirs[next] === -1)) next++;
+
+    const oursEnd = next < b.length ? (toOurs[next] ?? o.length) : o.length;
+    const theirsEnd = next < b.length ? (toTheirs[next] ?? t.length) : t.length;
+    const baseChunk = b.slice(i, next);
+    const oursChunk = o.slice(j, oursEnd);
+    const theirsChunk = t.slice(k, theirsEnd);
+
+    if (sameLines(oursChunk, baseChunk)) {
+      output.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      output.push(...oursChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}`,
+        ...oursChunk,
+        '=======',
+        ...theirsChunk,
+        `>>>>>>> ${labels.theirs}`,
+      );
+    }
+
+    i = next;
+    j = oursEnd;
+    k = theirsEnd;
+  }
+
+  return { content: output.join('\n'), conflicts };
+}
+
+/**
+ * Aligns two line lists by their longest common subsequence. Returns, for
+ * every line of `a`, the index of the matching line in `b`, or `-1`.
+ */
+function matchLines(a: string[], b: string[]): Int32Array {
+  // lcs[i * width + j] = length of the common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  const at = (i: number, j: number) => lcs[i * width + j] ?? 0;
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const match = new Int32Array(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      match[i++] = j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return match;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
@@ -0,0 +1,53 @@
+import * as readline from 'node:readline/promises';
+import type { ConflictChoice } from '../dto/ConflictChoice.js';
+
+const ANSWERS: Record<string, ConflictChoice> = {
+  y: 'overwrite',
+  n: 'skip',
+  a: 'overwrite-all',
+  s: 'skip-all',
+  q: 'abort',
+};
+
+/**
+ * Whether the CLI can ask questions: both stdin and stdout are terminals.
+ *
+ * @returns {boolean} `false` in CI, pipes, and redirected output.
+ */
+export function isInteractive(): boolean {
+  return process.stdin.isTTY && process.stdout.isTTY;
+}
+
+/**
+ * Asks whether an existing file should be overwritten, after printing the
+ * diff between it and the incoming template.
+ *
+ * Repeats the question until one of `y`, `n`, `a`, `s`, or `q` is entered;
+ * an empty answer counts as `n`, so pressing Enter never destroys a file.
+ *
+ * @param {string} relativePath - Path of the conflicting file, for display.
+ * @param {string} diff - Diff produced by {@link formatDiff}.
+ * @returns {Promise<ConflictChoice>} The user's decision.
+ */
+export async function promptConflict(relativePath: string, diff: string): Promise<ConflictChoice> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  try {
+    console.log(`\n${relativePath} already exists and differs from the template:\n${diff}\n`);
+
+    for (;;) {
+      const answer = (
+        await rl.question(
+          `Overwrite ${relativePath}? [y]es, [n]o, [a]ll, [s]kip all, [q]uit (default n): `,
+        )
+      )
+        .trim()
+        .toLowerCase();
+
+      const choice = ANSWERS[answer === '' ? 'n' : answer.charAt(0)];
+      if (choice) return choice;
+    }
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,21 @@
+import * as readline from 'node:readline/promises';
+
+/**
+ * Asks a free-text question on the terminal.
+ *
+ * @param {string} question - Prompt, without the default hint.
+ * @param {string} defaultValue - Returned when the answer is empty; shown in
+ *   parentheses unless empty itself.
+ * @returns {Promise<string>} The trimmed answer, or the default.
+ */
+export async function promptText(question: string, defaultValue: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  try {
+    const hint = defaultValue === '' ? '' : ` (${defaultValue})`;
+    const answer = (await rl.question(`${question}${hint}: `)).trim();
+    return answer === '' ? defaultValue : answer;
+  } finally {
+    rl.close();
+  }
+}
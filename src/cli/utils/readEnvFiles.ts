@@ -0,0 +1,73 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Env files Next.js loads in development, lowest precedence first.
+ */
+export const ENV_FILES = ['.env', '.env.development', '.env.local', '.env.development.local'];
+
+/**
+ * Variables read from a project's env files.
+ */
+export interface EnvFiles {
+  /**
+   * Names of the env files that exist, lowest precedence first.
+   */
+  files: string[];
+
+  /**
+   * Merged variables, later files overriding earlier ones.
+   */
+  values: Record<string, string>;
+
+  /**
+   * File each variable in {@link values} was taken from.
+   */
+  sources: Record<string, string>;
+}
+
+/**
+ * Reads the development env files of a project the way Next.js layers them.
+ *
+ * Supports `KEY=value` lines, an optional `export` prefix, `#` comments, and
+ * single- or double-quoted values. Variable expansion is not performed.
+ *
+ * @param {string} projectDir - Directory containing the env files.
+ * @returns {EnvFiles} The files found and the merged variables.
+ */
+export function readEnvFiles(projectDir: string): EnvFiles {
+  const result: EnvFiles = { files: [], values: {}, sources: {} };
+
+  for (const file of ENV_FILES) {
+    const filePath = path.join(projectDir, file);
+    if (!fs.existsSync(filePath)) continue;
+
+    result.files.push(file);
+
+    for (const [key, value] of parseEnv(fs.readFileSync(filePath, 'utf8'))) {
+      result.values[key] = value;
+      result.sources[key] = file;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses the contents of a single env file into key/value pairs.
+ */
+function parseEnv(contents: string): [string, string][] {
+  const entries: [string, string][] = [];
+
+  for (const line of contents.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) continue;
+
+    const [, key = '', raw = ''] = match;
+    const quoted = /^(['"])(.*)\1$/.exec(raw);
+
+    entries.push([key, quoted ? (quoted[2] ?? '') : raw.replace(/\s+#.*$/, '')]);
+  }
+
+  return entries;
+}
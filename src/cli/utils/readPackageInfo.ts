@@ -0,0 +1,58 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PackageInfo } from '../dto/PackageInfo.js';
+
+const PACKAGE_NAME = 'bigcommerce-oauth-next';
+
+let cached: PackageInfo | undefined;
+
+/**
+ * Reads this package's own `package.json`.
+ *
+ * Walks up from this module to the first `package.json` named
+ * `bigcommerce-oauth-next`, so the lookup works both from the bundled
+ * `dist/` output and from the TypeScript sources during development and
+ * tests. The file is read once and cached.
+ *
+ * @returns {PackageInfo} The package version and `next` peer range.
+ *
+ * @throws {Error} If the package's `package.json` cannot be found.
+ */
+export function readPackageInfo(): PackageInfo {
+  cached ??= findPackageInfo(path.dirname(fileURLToPath(import.meta.url)));
+  return cached;
+}
+
+function findPackageInfo(startDir: string): PackageInfo {
+  let dir = startDir;
+
+  for (;;) {
+    const manifest = readManifest(path.join(dir, 'package.json'));
+
+    if (manifest?.name === PACKAGE_NAME) {
+      return {
+        version: manifest.version ?? '0.0.0',
+        nextVersionRange: manifest.peerDependencies?.next ?? '*',
+      };
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) throw new Error(`package.json of ${PACKAGE_NAME} not found.`);
+    dir = parent;
+  }
+}
+
+interface Manifest {
+  name?: string;
+  version?: string;
+  peerDependencies?: Record<string, string>;
+}
+
+function readManifest(file: string): Manifest | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as Manifest;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,66 @@
+import type { TemplateFeature } from '../dto/TemplateFeature.js';
+import type { TemplateVariables } from '../dto/TemplateVariables.js';
+
+const TOKENS: Record<string, keyof TemplateVariables> = {
+  __APP_NAME__: 'appName',
+  __BASE_PATH__: 'basePath',
+  __SUCCESS_PATH__: 'successPath',
+  __ERROR_PATH__: 'errorPath',
+  __PACKAGE__: 'packageName',
+};
+
+const DIRECTIVE = /^\s*\/\/ #(if|else|endif)\b\s*(.*)$/;
+
+/**
+ * Renders one template file.
+ *
+ * 1. Conditional blocks are resolved. A block opens with a
+ *    `// #if feature[, feature…]` line, may contain a `// #else` line, and
+ *    closes with `// #endif`; it is kept when any listed feature is
+ *    selected. Directive lines themselves are always removed, and blocks do
+ *    not nest.
+ * 2. `__TOKEN__` placeholders are replaced with their variable values.
+ *
+ * Templates stay valid TypeScript before rendering, since directives are
+ * comments and placeholders are plain identifiers or string contents.
+ *
+ * @param {string} content - Raw template content.
+ * @param {TemplateVariables} variables - Values for the placeholders.
+ * @param {ReadonlySet<TemplateFeature>} features - Selected features.
+ * @returns {string} The rendered content.
+ */
+export function renderTemplate(
+  content: string,
+  variables: TemplateVariables,
+  features: ReadonlySet<TemplateFeature>,
+): string {
+  const output: string[] = [];
+  let keep = true;
+
+  for (const line of content.split('\n')) {
+    const directive = DIRECTIVE.exec(line);
+
+    if (!directive) {
+      if (keep) output.push(line);
+      continue;
+    }
+
+    const [, keyword, args = ''] = directive;
+
+    if (keyword === 'if') {
+      keep = args
+        .split(',')
+        .map((feature) => feature.trim())
+        .some((feature) => features.has(feature as TemplateFeature));
+    } else if (keyword === 'else') {
+      keep = !keep;
+    } else {
+      keep = true;
+    }
+  }
+
+  return output.join('\n').replace(/__[A-Z_]+__/g, (token) => {
+    const variable = TOKENS[token];
+    return variable ? variables[variable] : token;
+  });
+}
@@ -0,0 +1,49 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { TemplateFeature } from '../dto/TemplateFeature.js';
+import type { TemplateFile } from '../dto/TemplateFile.js';
+import type { TemplateVariables } from '../dto/TemplateVariables.js';
+import { renderTemplate } from './renderTemplate.js';
+import { isTemplateSelected } from './templateFeatures.js';
+
+/**
+ * Renders the files of a template set for the selected features.
+ *
+ * Files belonging to unselected features are dropped and every remaining
+ * file is rendered with {@link renderTemplate}. Paths stay relative to the
+ * template root, with `__BASE_PATH__` directories replaced by the base path;
+ * callers place them under the scaffold directory.
+ *
+ * @param {string} templateDir - Root of the template set, e.g. `templates/ts`.
+ * @param {TemplateVariables} variables - Values for the placeholders.
+ * @param {ReadonlySet<TemplateFeature>} features - Selected features.
+ * @returns {TemplateFile[]} Rendered files, sorted by path.
+ */
+export function renderTemplates(
+  templateDir: string,
+  variables: TemplateVariables,
+  features: ReadonlySet<TemplateFeature>,
+): TemplateFile[] {
+  return listFiles(templateDir)
+    .map((file) => file.split(path.sep).join('/'))
+    .filter((relativePath) => isTemplateSelected(relativePath, features))
+    .map((relativePath) => ({
+      relativePath: relativePath.replaceAll('__BASE_PATH__', variables.basePath),
+      content: renderTemplate(
+        fs.readFileSync(path.join(templateDir, relativePath), 'utf8'),
+        variables,
+        features,
+      ),
+    }))
+    .sort((a, b) => (a.relativePath < b.relativePath ? -1 : 1));
+}
+
+/**
+ * Lists every file below a directory, relative to it.
+ */
+function listFiles(dir: string, prefix = ''): string[] {
+  return fs.readdirSync(path.join(dir, prefix), { withFileTypes: true }).flatMap((entry) => {
+    const relativePath = path.join(prefix, entry.name);
+    return entry.isDirectory() ? listFiles(dir, relativePath) : [relativePath];
+  });
+}
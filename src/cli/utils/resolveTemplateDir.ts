@@ -0,0 +1,42 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { TemplateLanguage } from '../dto/TemplateLanguage.js';
+import type { TemplateRouter } from '../dto/TemplateRouter.js';
+
+/**
+ * Locates a template set bundled with the package.
+ *
+ * Walks up from this module until a `templates/<variant>` directory is
+ * found, so the lookup works both from the bundled `dist/` output and from
+ * the TypeScript sources during development and tests.
+ *
+ * @param {string} variant - Template set to locate, e.g. `"ts"`.
+ * @returns {string} Absolute path of the template directory.
+ *
+ * @throws {Error} If the package does not contain the template set.
+ */
+export function resolveTemplateDir(variant = 'ts'): string {
+  let dir = path.dirname(fileURLToPath(import.meta.url));
+
+  for (;;) {
+    const candidate = path.join(dir, 'templates', variant);
+    if (fs.existsSync(candidate)) return candidate;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) throw new Error(`Template set "${variant}" not found.`);
+    dir = parent;
+  }
+}
+
+/**
+ * Names the template set for a language and router. The Pages Router set
+ * exists in TypeScript only.
+ *
+ * @param {TemplateLanguage} lang - Template language.
+ * @param {TemplateRouter} [router] - Target router; `app` when omitted.
+ * @returns {string} Template set to pass to {@link resolveTemplateDir}.
+ */
+export function templateVariant(lang: TemplateLanguage, router: TemplateRouter = 'app'): string {
+  return router === 'pages' ? 'pages-ts' : lang;
+}
@@ -0,0 +1,70 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ScaffoldManifest } from '../dto/ScaffoldManifest.js';
+import type { TemplateFile } from '../dto/TemplateFile.js';
+
+/**
+ * Name of the manifest file, stored in the scaffold directory. Next.js only
+ * routes `page` and `route` files, so it is never served.
+ */
+export const MANIFEST_FILE = '.bigcommerce-oauth.json';
+
+/**
+ * Hashes file content for {@link ScaffoldManifestFile.hash}.
+ *
+ * @param {string} content - File content.
+ * @returns {string} Hex-encoded SHA-256.
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Builds a manifest for freshly rendered files.
+ *
+ * @param {Omit<ScaffoldManifest, 'files'>} settings - Template version, set,
+ *        variables, and features the files were rendered with.
+ * @param {TemplateFile[]} files - Rendered files, relative to the scaffold.
+ * @returns {ScaffoldManifest} The manifest.
+ */
+export function createManifest(
+  settings: Omit<ScaffoldManifest, 'files'>,
+  files: TemplateFile[],
+): ScaffoldManifest {
+  return {
+    ...settings,
+    features: [...settings.features].sort(),
+    files: Object.fromEntries(
+      files.map((file) => [
+        file.relativePath,
+        { hash: hashContent(file.content), content: file.content },
+      ]),
+    ),
+  };
+}
+
+/**
+ * Reads the manifest of a scaffold.
+ *
+ * @param {string} scaffoldDir - Scaffold directory.
+ * @returns {ScaffoldManifest | undefined} The manifest, or `undefined` if the
+ *          scaffold has none.
+ */
+export function readManifest(scaffoldDir: string): ScaffoldManifest | undefined {
+  const file = path.join(scaffoldDir, MANIFEST_FILE);
+  if (!fs.existsSync(file)) return undefined;
+
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as ScaffoldManifest;
+}
+
+/**
+ * Writes the manifest of a scaffold.
+ *
+ * @param {string} scaffoldDir - Scaffold directory.
+ * @param {ScaffoldManifest} manifest - Manifest to store.
+ */
+export function writeManifest(scaffoldDir: string, manifest: ScaffoldManifest): void {
+  fs.mkdirSync(scaffoldDir, { recursive: true });
+  fs.writeFileSync(path.join(scaffoldDir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+}
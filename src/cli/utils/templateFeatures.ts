@@ -0,0 +1,58 @@
+import type { TemplateFeature } from '../dto/TemplateFeature.js';
+
+/**
+ * Every optional feature, in the order they are listed in help and prompts.
+ */
+export const TEMPLATE_FEATURES: readonly TemplateFeature[] = [
+  'load',
+  'uninstall',
+  'remove-user',
+  'ui',
+];
+
+/**
+ * Template paths (files without extension, or directories ending in `/`)
+ * that belong to optional features. A path is emitted when any of its
+ * features is selected; paths not listed here are always emitted. Shared by
+ * every template set.
+ */
+const FEATURE_PATHS: [string, TemplateFeature[]][] = [
+  ['result/', ['ui']],
+  ['__BASE_PATH__/result', ['ui']],
+  ['load/', ['load']],
+  ['_composition/loadApp', ['load']],
+  ['uninstall/', ['uninstall']],
+  ['_composition/uninstallApp', ['uninstall']],
+  ['remove-user/', ['remove-user']],
+  ['_composition/removeUser', ['remove-user']],
+  ['_composition/signedPayloadVerifier', ['load', 'uninstall', 'remove-user']],
+];
+
+/**
+ * Checks a value against the known feature names.
+ *
+ * @param {string} value - Candidate, e.g. from `--with`.
+ * @returns {boolean} Whether `value` is a {@link TemplateFeature}.
+ */
+export function isTemplateFeature(value: string): value is TemplateFeature {
+  return (TEMPLATE_FEATURES as readonly string[]).includes(value);
+}
+
+/**
+ * Decides whether a template file is part of the selected feature set.
+ *
+ * @param {string} relativePath - Template path relative to the template root.
+ * @param {ReadonlySet<TemplateFeature>} features - Selected features.
+ * @returns {boolean} Whether the file should be emitted.
+ */
+export function isTemplateSelected(
+  relativePath: string,
+  features: ReadonlySet<TemplateFeature>,
+): boolean {
+  const withoutExtension = relativePath.replace(/\.[^./]+$/, '');
+  const match = FEATURE_PATHS.find(([prefix]) =>
+    prefix.endsWith('/') ? relativePath.startsWith(prefix) : withoutExtension === prefix,
+  );
+
+  return !match || match[1].some((feature) => features.has(feature));
+}
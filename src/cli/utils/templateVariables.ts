@@ -0,0 +1,25 @@
+/**
+ * Name shown on the result page when none is given.
+ */
+export const DEFAULT_APP_NAME = 'My App';
+
+/**
+ * Route segment the callbacks are scaffolded under when none is given.
+ */
+export const DEFAULT_BASE_PATH = 'auth';
+
+/**
+ * Import specifier the templates use for this package.
+ */
+export const DEFAULT_PACKAGE = 'bigcommerce-oauth-next';
+
+/**
+ * URL of the scaffolded result page for a base path.
+ *
+ * @param {string} basePath - Route segment without slashes, e.g. `"auth"`, or
+ *   `""` for the app root.
+ * @returns {string} E.g. `"/auth/result"`.
+ */
+export function defaultResultPath(basePath: string): string {
+  return basePath === '' ? '/result' : `/${basePath}/result`;
+}
@@ -0,0 +1,21 @@
+/**
+ * App credentials and callback URL read from the environment by
+ * {@link loadBigCommerceConfig}.
+ */
+export interface BigCommerceConfig {
+  /**
+   * The app's client id (`BIGCOMMERCE_CLIENT_ID`).
+   */
+  clientId: string;
+
+  /**
+   * The app's client secret (`BIGCOMMERCE_CLIENT_SECRET`).
+   */
+  clientSecret: string;
+
+  /**
+   * The Auth Callback URL registered with BigCommerce
+   * (`BIGCOMMERCE_REDIRECT_URI`). Always an absolute `https` URL.
+   */
+  redirectUri: string;
+}
@@ -0,0 +1,21 @@
+import type { ConfigIssueReason } from './ConfigIssueReason.js';
+
+/**
+ * A single problem found by {@link validateBigCommerceConfig}.
+ */
+export interface ConfigIssue {
+  /**
+   * Name of the offending environment variable.
+   */
+  variable: string;
+
+  /**
+   * Machine-readable reason, for tooling that suggests a fix.
+   */
+  reason: ConfigIssueReason;
+
+  /**
+   * Human-readable description of the problem.
+   */
+  message: string;
+}
@@ -0,0 +1,8 @@
+/**
+ * Why an environment variable failed validation.
+ *
+ * - `missing`: unset or blank.
+ * - `invalid_url`: not an absolute URL.
+ * - `insecure_url`: a URL that does not use `https`.
+ */
+export type ConfigIssueReason = 'missing' | 'invalid_url' | 'insecure_url';
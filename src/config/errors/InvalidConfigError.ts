@@ -0,0 +1,17 @@
+import type { ConfigIssue } from '../dto/ConfigIssue.js';
+
+/**
+ * Thrown by {@link loadBigCommerceConfig} when one or more environment
+ * variables are missing or malformed.
+ *
+ * Every problem is reported at once through {@link issues}, so a fresh
+ * project is fixed in one pass instead of surfacing later as a
+ * `token_exchange_failed` install.
+ */
+export class InvalidConfigError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid BigCommerce configuration:\n${issues.map((issue) => `  - ${issue.message}`).join('\n')}`,
+    );
+  }
+}
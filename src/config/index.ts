@@ -0,0 +1,8 @@
+export * from './loadBigCommerceConfig.js';
+export * from './validateBigCommerceConfig.js';
+
+export * from './dto/BigCommerceConfig.js';
+export * from './dto/ConfigIssue.js';
+export * from './dto/ConfigIssueReason.js';
+
+export * from './errors/InvalidConfigError.js';
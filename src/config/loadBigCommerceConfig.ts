@@ -0,0 +1,34 @@
+import type { BigCommerceConfig } from './dto/BigCommerceConfig.js';
+import { InvalidConfigError } from './errors/InvalidConfigError.js';
+import { validateBigCommerceConfig } from './validateBigCommerceConfig.js';
+
+/**
+ * Reads and validates the app's BigCommerce credentials from the environment.
+ *
+ * Call it once in the composition root instead of reading `process.env`
+ * with `|| ''` fallbacks, so a missing variable fails at startup with a
+ * clear message rather than as a failed token exchange at install time.
+ *
+ * @example
+ * const { clientId, clientSecret, redirectUri } = loadBigCommerceConfig();
+ *
+ * @param env Environment to read. Defaults to `process.env`.
+ * @returns The trimmed, validated configuration
+ *
+ * @throws {InvalidConfigError} Listing every missing or malformed variable.
+ */
+export function loadBigCommerceConfig(
+  env: Record<string, string | undefined> = process.env,
+): BigCommerceConfig {
+  const issues = validateBigCommerceConfig(env);
+
+  if (issues.length > 0) {
+    throw new InvalidConfigError(issues);
+  }
+
+  return {
+    clientId: env.BIGCOMMERCE_CLIENT_ID?.trim() ?? '',
+    clientSecret: env.BIGCOMMERCE_CLIENT_SECRET?.trim() ?? '',
+    redirectUri: env.BIGCOMMERCE_REDIRECT_URI?.trim() ?? '',
+  };
+}
@@ -0,0 +1,51 @@
+import type { ConfigIssue } from './dto/ConfigIssue.js';
+
+/**
+ * Checks the BigCommerce environment variables without throwing.
+ *
+ * - `BIGCOMMERCE_CLIENT_ID` and `BIGCOMMERCE_CLIENT_SECRET` must be set.
+ * - `BIGCOMMERCE_REDIRECT_URI` must be an absolute `https` URL.
+ *
+ * @param env Environment to read, e.g. `process.env`
+ * @returns Every problem found; empty when the configuration is usable
+ */
+export function validateBigCommerceConfig(env: Record<string, string | undefined>): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  for (const variable of ['BIGCOMMERCE_CLIENT_ID', 'BIGCOMMERCE_CLIENT_SECRET']) {
+    if (!env[variable]?.trim()) {
+      issues.push({ variable, reason: 'missing', message: `${variable} is not set.` });
+    }
+  }
+
+  const variable = 'BIGCOMMERCE_REDIRECT_URI';
+  const redirectUri = env[variable]?.trim();
+
+  if (!redirectUri) {
+    issues.push({ variable, reason: 'missing', message: `${variable} is not set.` });
+    return issues;
+  }
+
+  let protocol: string;
+
+  try {
+    protocol = new URL(redirectUri).protocol;
+  } catch {
+    issues.push({
+      variable,
+      reason: 'invalid_url',
+      message: `${variable} must be an absolute URL, got "${redirectUri}".`,
+    });
+    return issues;
+  }
+
+  if (protocol !== 'https:') {
+    issues.push({
+      variable,
+      reason: 'insecure_url',
+      message: `${variable} must use https, got "${redirectUri}".`,
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,13 @@
+import type { IncomingMessage } from 'node:http';
+
+/**
+ * The part of an Express `Request` read by {@link toExpressHandler}.
+ * Declared structurally so this package does not depend on `express`.
+ */
+export interface ExpressRequest extends IncomingMessage {
+  /**
+   * URL as received, before a mounting router stripped its prefix from
+   * `url`.
+   */
+  originalUrl?: string;
+}
@@ -0,0 +1,5 @@
+/**
+ * A Web Fetch API request handler, such as the one returned by
+ * `FetchInstallController.create`.
+ */
+export type FetchHandler = (request: Request) => Response | Promise<Response>;
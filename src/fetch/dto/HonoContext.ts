@@ -0,0 +1,12 @@
+/**
+ * The part of a Hono `Context` read by {@link toHonoHandler}. Declared
+ * structurally so this package does not depend on `hono`.
+ */
+export interface HonoContext {
+  req: {
+    /**
+     * The underlying Fetch API request.
+     */
+    raw: Request;
+  };
+}
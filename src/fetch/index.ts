@@ -0,0 +1,41 @@
+export * from './toExpressHandler.js';
+export * from './toHonoHandler.js';
+
+export * from './dto/ExpressRequest.js';
+export * from './dto/FetchHandler.js';
+export * from './dto/HonoContext.js';
+
+export * from '../use-cases/install/controllers/FetchInstallController.js';
+export * from '../use-cases/install/controllers/InstallFlow.js';
+
+export * from '../use-cases/install/controllers/dto/InstallFailedEvent.js';
+export * from '../use-cases/install/controllers/dto/InstallHandlerConfig.js';
+export * from '../use-cases/install/controllers/dto/InstallHooks.js';
+export * from '../use-cases/install/controllers/dto/InstallRequest.js';
+export * from '../use-cases/install/controllers/dto/InstallResponseMode.js';
+export * from '../use-cases/install/controllers/dto/InstallResult.js';
+export * from '../use-cases/install/controllers/dto/InstallStartedEvent.js';
+export * from '../use-cases/install/controllers/dto/InstallStatus.js';
+export * from '../use-cases/install/controllers/dto/InstallSucceededEvent.js';
+export * from '../use-cases/install/controllers/dto/InstallTrace.js';
+
+export * from '../use-cases/install/controllers/errors/AppRevokedError.js';
+export * from '../use-cases/install/controllers/errors/BigCommerceUnavailableError.js';
+export * from '../use-cases/install/controllers/errors/InsufficientScopeError.js';
+export * from '../use-cases/install/controllers/errors/InvalidClientCredentialsError.js';
+export * from '../use-cases/install/controllers/errors/InvalidNonceError.js';
+export * from '../use-cases/install/controllers/errors/MissingOAuthParamsError.js';
+export * from '../use-cases/install/controllers/errors/NetworkError.js';
+export * from '../use-cases/install/controllers/errors/NetworkTimeoutError.js';
+export * from '../use-cases/install/controllers/errors/RateLimitedError.js';
+export * from '../use-cases/install/controllers/errors/ReplayedCodeError.js';
+export * from '../use-cases/install/controllers/errors/TokenExchangeFailedError.js';
+export * from '../use-cases/install/controllers/errors/normalizeTokenExchangeError.js';
+
+export * from '../use-cases/install/guard/InstallGuard.js';
+export * from '../use-cases/install/guard/InMemoryInstallGuardStore.js';
+export * from '../use-cases/install/guard/dto/InstallGuardConfig.js';
+export * from '../use-cases/install/guard/dto/InstallGuardStore.js';
+
+export * from '../use-cases/shared/errors/index.js';
+export * from '../use-cases/shared/http/index.js';
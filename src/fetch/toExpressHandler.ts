@@ -0,0 +1,53 @@
+import type { ServerResponse } from 'node:http';
+import { toWebHeaders } from '@/use-cases/shared/http/toWebHeaders.js';
+import type { ExpressRequest } from './dto/ExpressRequest.js';
+import type { FetchHandler } from './dto/FetchHandler.js';
+
+/**
+ * Adapts a Fetch API handler into an Express route handler.
+ *
+ * The Node.js request is converted into a `Request` carrying the method,
+ * the full original URL (resolved against the `host` header), and the
+ * headers. BigCommerce calls every callback with `GET`, so the request body
+ * is not forwarded. The returned `Response` is written back with its status,
+ * headers — every `set-cookie` separately — and body. Errors are passed to
+ * `next`.
+ *
+ * @example
+ * app.get(
+ *   '/auth',
+ *   toExpressHandler(FetchInstallController.create({ installApp, redirectUri })),
+ * );
+ *
+ * @param handler Handler to expose, e.g. from `FetchInstallController.create`
+ * @returns A handler for `app.get(path, handler)`
+ */
+export function toExpressHandler(handler: FetchHandler) {
+  return async (
+    req: ExpressRequest,
+    res: ServerResponse,
+    next?: (err?: unknown) => void,
+  ): Promise<void> => {
+    try {
+      const headers = toWebHeaders(req.headers);
+      const url = new URL(
+        req.originalUrl ?? req.url ?? '/',
+        `http://${headers.get('host') ?? 'localhost'}`,
+      );
+      const response = await handler(new Request(url, { method: req.method, headers }));
+
+      res.statusCode = response.status;
+      response.headers.forEach((value, name) => {
+        if (name !== 'set-cookie') res.setHeader(name, value);
+      });
+
+      const cookies = response.headers.getSetCookie();
+      if (cookies.length > 0) res.setHeader('set-cookie', cookies);
+
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (err) {
+      if (!next) throw err;
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,21 @@
+import type { FetchHandler } from './dto/FetchHandler.js';
+import type { HonoContext } from './dto/HonoContext.js';
+
+/**
+ * Adapts a Fetch API handler into a Hono route handler.
+ *
+ * Hono already works with standard `Request` and `Response` objects, so the
+ * adapter only hands over `c.req.raw`.
+ *
+ * @example
+ * app.get(
+ *   '/auth',
+ *   toHonoHandler(FetchInstallController.create({ installApp, redirectUri })),
+ * );
+ *
+ * @param handler Handler to expose, e.g. from `FetchInstallController.create`
+ * @returns A handler for `app.get(path, handler)`
+ */
+export function toHonoHandler(handler: FetchHandler) {
+  return async (c: HonoContext): Promise<Response> => handler(c.req.raw);
+}
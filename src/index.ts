@@ -1 +1,8 @@
 export * from './use-cases/install/index.js';
+export * from './use-cases/load/index.js';
+export * from './use-cases/uninstall/index.js';
+export * from './use-cases/remove-user/index.js';
+export * from './session/index.js';
+export * from './logging/index.js';
+export * from './stores/index.js';
+export * from './config/index.js';
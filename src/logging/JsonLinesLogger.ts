@@ -0,0 +1,50 @@
+import type { JsonLinesLoggerConfig } from './dto/JsonLinesLoggerConfig.js';
+import type { LogFields, Logger } from './dto/Logger.js';
+import type { LogLevel } from './dto/LogLevel.js';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Default {@link Logger} that writes one JSON object per line:
+ *
+ * ```json
+ * {"time":"2026-01-01T00:00:00.000Z","level":"warn","msg":"install.failed","requestId":"…"}
+ * ```
+ *
+ * The format is understood by most log drains (Vercel, Datadog, CloudWatch)
+ * without further configuration.
+ */
+export class JsonLinesLogger implements Logger {
+  protected readonly level: LogLevel;
+  protected readonly write: (line: string) => void;
+
+  constructor(config: JsonLinesLoggerConfig = {}) {
+    this.level = config.level ?? 'info';
+    this.write = config.write ?? ((line) => process.stdout.write(line));
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  protected log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < LEVELS[this.level]) {
+      return;
+    }
+
+    const entry = { time: new Date().toISOString(), level, msg: message, ...fields };
+    this.write(`${JSON.stringify(entry)}\n`);
+  }
+}
@@ -0,0 +1,23 @@
+import type { Logger } from './dto/Logger.js';
+
+/**
+ * {@link Logger} that discards every entry. Controllers fall back to it when
+ * no logger is configured, so the library writes nothing unless asked to.
+ */
+export class NoopLogger implements Logger {
+  debug(): void {
+    // Intentionally empty
+  }
+
+  info(): void {
+    // Intentionally empty
+  }
+
+  warn(): void {
+    // Intentionally empty
+  }
+
+  error(): void {
+    // Intentionally empty
+  }
+}
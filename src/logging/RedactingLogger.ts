@@ -0,0 +1,32 @@
+import type { LogFields, Logger } from './dto/Logger.js';
+import { redact } from './redact.js';
+
+/**
+ * {@link Logger} wrapper that passes every message and field set through
+ * {@link redact} before it reaches the wrapped logger.
+ */
+export class RedactingLogger implements Logger {
+  constructor(protected readonly inner: Logger) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.inner.debug(...this.clean(message, fields));
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.inner.info(...this.clean(message, fields));
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.inner.warn(...this.clean(message, fields));
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.inner.error(...this.clean(message, fields));
+  }
+
+  protected clean(message: string, fields?: LogFields): [string, LogFields?] {
+    return fields
+      ? [redact(message) as string, redact(fields) as LogFields]
+      : [redact(message) as string];
+  }
+}
@@ -0,0 +1,17 @@
+import type { LogLevel } from './LogLevel.js';
+
+/**
+ * Configuration for the {@link JsonLinesLogger}.
+ */
+export interface JsonLinesLoggerConfig {
+  /**
+   * Minimum level written. Defaults to `"info"`.
+   */
+  level?: LogLevel;
+
+  /**
+   * Receives each serialized line, including the trailing newline. Defaults
+   * to writing to `process.stdout`.
+   */
+  write?: (line: string) => void;
+}
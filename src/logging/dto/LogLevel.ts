@@ -0,0 +1,4 @@
+/**
+ * Severity of a log entry, from least to most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
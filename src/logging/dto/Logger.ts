@@ -0,0 +1,19 @@
+/**
+ * Structured fields attached to a log entry.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimal structured logger used by the controllers.
+ *
+ * The shape matches the common subset of pino, winston, and `console`, so most
+ * loggers can be passed directly or through a thin adapter. Controllers always
+ * wrap the configured logger in a {@link RedactingLogger}, so implementations
+ * receive fields with OAuth codes and tokens already removed.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
@@ -0,0 +1,8 @@
+export * from './JsonLinesLogger.js';
+export * from './NoopLogger.js';
+export * from './RedactingLogger.js';
+export * from './redact.js';
+
+export * from './dto/JsonLinesLoggerConfig.js';
+export * from './dto/LogLevel.js';
+export * from './dto/Logger.js';
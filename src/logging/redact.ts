@@ -0,0 +1,107 @@
+/**
+ * Placeholder written in place of a redacted value.
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are never logged, compared case-insensitively.
+ */
+const SENSITIVE_KEYS = new Set([
+  'token',
+  'access_token',
+  'accesstoken',
+  'refresh_token',
+  'refreshtoken',
+  'id_token',
+  'client_secret',
+  'clientsecret',
+  'secret',
+  'password',
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'signed_payload',
+  'signed_payload_jwt',
+  'signedpayloadjwt',
+]);
+
+/**
+ * Key holding the OAuth authorization code in an install request
+ * (`{ code, context, scope }`). Elsewhere `code` is usually an error code —
+ * a catalog error code or an errno such as `ECONNRESET` — and is kept.
+ */
+const AUTHORIZATION_CODE_KEY = 'code';
+
+/**
+ * Query parameters stripped from URLs embedded in strings, such as a callback
+ * URL quoted in an error message.
+ */
+const SENSITIVE_PARAMS =
+  /([?&](?:code|access_token|signed_payload|signed_payload_jwt)=)[^&#\s"']*/gi;
+
+/**
+ * Returns a copy of a value that is safe to log.
+ *
+ * - Values of sensitive fields (tokens, secrets, cookies, signed payloads)
+ *   are replaced with {@link REDACTED}, at any depth, as is `code` in an
+ *   object that also carries the install `context`.
+ * - Sensitive query parameters inside strings are replaced as well.
+ * - Errors are reduced to their `name`, `message`, `cause`, and own
+ *   enumerable fields (redacted in turn); stack traces are dropped.
+ *
+ * @param value Anything passed as log fields
+ * @returns A redacted, JSON-serializable copy
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, new WeakSet());
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(SENSITIVE_PARAMS, `$1${REDACTED}`);
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+
+  // Error subclasses often leave `name` as "Error"; the class name is more useful.
+  const source =
+    value instanceof Error
+      ? Object.assign(
+          {
+            name: value.name === 'Error' ? value.constructor.name : value.name,
+            message: value.message,
+            ...(value.cause !== undefined ? { cause: value.cause } : {}),
+          },
+          value,
+        )
+      : value;
+  const result: Record<string, unknown> = {};
+
+  for (const [key, entry] of Object.entries(source)) {
+    result[key] = isSensitiveKey(key, source) ? REDACTED : redactValue(entry, seen);
+  }
+
+  return result;
+}
+
+function isSensitiveKey(key: string, owner: object): boolean {
+  const name = key.toLowerCase();
+
+  return SENSITIVE_KEYS.has(name) || (name === AUTHORIZATION_CODE_KEY && 'context' in owner);
+}
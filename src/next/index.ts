@@ -0,0 +1,9 @@
+export * from '../use-cases/install/controllers/InstallController.js';
+export * from '../use-cases/install/controllers/PagesInstallController.js';
+export * from '../use-cases/load/controllers/LoadController.js';
+export * from '../use-cases/uninstall/controllers/UninstallController.js';
+export * from '../use-cases/remove-user/controllers/RemoveUserController.js';
+
+export * from '../session/buildUnauthorizedResponse.js';
+export * from '../session/createSessionMiddleware.js';
+export * from '../session/withBigCommerceSession.js';
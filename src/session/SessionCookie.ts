@@ -0,0 +1,250 @@
+import type { webcrypto } from 'node:crypto';
+import type { NextResponse } from 'next/server.js';
+import { decodeBase64Url, encodeBase64Url } from '@/use-cases/shared/encoding/base64url.js';
+import type { BigCommerceSession } from './dto/BigCommerceSession.js';
+import type { SessionCheck } from './dto/SessionCheck.js';
+import type { SessionConfig } from './dto/SessionConfig.js';
+import type { SessionSource } from './dto/SessionSource.js';
+import { InvalidSessionSecretError } from './errors/InvalidSessionSecretError.js';
+
+/**
+ * Identity fields a caller supplies when committing a session; timestamps are
+ * filled in by {@link SessionCookie.seal}.
+ */
+export type SessionIdentity = Pick<BigCommerceSession, 'storeHash' | 'userId' | 'email'>;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_INFO = 'bigcommerce-oauth-next session';
+
+/**
+ * Reads and writes the encrypted BigCommerce session cookie.
+ *
+ * The cookie value is `base64url(iv | authTag | ciphertext)`, produced with
+ * AES-256-GCM under a key derived (HKDF-SHA256) from the configured secret.
+ * GCM authenticates the ciphertext, so a tampered or foreign cookie fails to
+ * decrypt and is treated as absent — the value is both signed and encrypted.
+ *
+ * Encryption uses the Web Crypto API (`crypto.subtle`), so sessions can be
+ * read and written on edge runtimes as well as Node.js; as a consequence
+ * every method that touches the cookie value is asynchronous.
+ *
+ * Controllers use {@link SessionCookie.commit} after a successful install or
+ * load; application code reads sessions through {@link getSession}.
+ */
+export class SessionCookie {
+  /**
+   * Name of the cookie holding the sealed session.
+   */
+  readonly name: string;
+
+  protected readonly key: Promise<webcrypto.CryptoKey>;
+  protected readonly maxAge: number;
+  protected readonly config: SessionConfig;
+
+  constructor(config: SessionConfig) {
+    if (config.secret.length < 32) {
+      throw new InvalidSessionSecretError();
+    }
+
+    this.config = config;
+    this.name = config.cookieName ?? 'bc_session';
+    this.maxAge = config.maxAge ?? 60 * 60 * 24;
+    this.key = deriveKey(config.secret);
+  }
+
+  /**
+   * Encrypts a session for the given identity, valid for `maxAge` seconds.
+   *
+   * @param identity Store hash, user id, and email to store
+   * @returns The sealed cookie value
+   */
+  async seal(identity: SessionIdentity): Promise<string> {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const session: BigCommerceSession = {
+      storeHash: identity.storeHash,
+      userId: identity.userId,
+      email: identity.email,
+      issuedAt,
+      expiresAt: issuedAt + this.maxAge,
+    };
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const plaintext = new TextEncoder().encode(JSON.stringify(session));
+    // Web Crypto appends the tag to the ciphertext; the cookie stores it first.
+    const sealed = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.key, plaintext),
+    );
+    const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+    const ciphertext = sealed.subarray(0, sealed.length - TAG_LENGTH);
+
+    return encodeBase64Url(concatBytes(iv, tag, ciphertext));
+  }
+
+  /**
+   * Decrypts a sealed cookie value.
+   *
+   * @param value Raw cookie value
+   * @returns The session, or `null` if the value was tampered with, sealed
+   *          under another secret, or has expired
+   */
+  async unseal(value: string): Promise<BigCommerceSession | null> {
+    const check = await this.checkValue(value);
+    return check.status === 'valid' ? check.session : null;
+  }
+
+  /**
+   * Reads and decrypts the session from a request or a Next.js cookie store.
+   *
+   * @param source Incoming request, or the store returned by `cookies()`
+   * @returns The session, or `null` when absent or invalid
+   */
+  async read(source: SessionSource): Promise<BigCommerceSession | null> {
+    const check = await this.check(source);
+    return check.status === 'valid' ? check.session : null;
+  }
+
+  /**
+   * Inspects a request or cookie store and reports why a session is not
+   * usable, so callers can distinguish a missing cookie from an expired one.
+   *
+   * @param source Incoming request, or the store returned by `cookies()`
+   * @returns A {@link SessionCheck} describing the session state
+   */
+  async check(source: SessionSource): Promise<SessionCheck> {
+    const value =
+      'headers' in source
+        ? this.readCookieHeader(source.headers.get('cookie'))
+        : source.get(this.name)?.value;
+
+    return value ? await this.checkValue(value) : { status: 'missing' };
+  }
+
+  /**
+   * Seals a session for the given identity and sets it on the response.
+   *
+   * @param response Response about to be returned by the controller
+   * @param identity Store hash, user id, and email to store
+   */
+  async commit(response: NextResponse, identity: SessionIdentity): Promise<void> {
+    response.cookies.set(this.name, await this.seal(identity), {
+      httpOnly: true,
+      secure: this.config.secure ?? true,
+      sameSite: this.config.sameSite ?? 'none',
+      partitioned: this.config.partitioned ?? true,
+      path: this.config.path ?? '/',
+      domain: this.config.domain,
+      maxAge: this.maxAge,
+    });
+  }
+
+  /**
+   * Seals a session for the given identity and formats it as a
+   * `Set-Cookie` header value, for responses that are not a
+   * {@link NextResponse} (e.g. Pages Router API routes).
+   *
+   * @param identity Store hash, user id, and email to store
+   * @returns The `Set-Cookie` header value
+   */
+  async serialize(identity: SessionIdentity): Promise<string> {
+    const sameSite = this.config.sameSite ?? 'none';
+
+    return [
+      `${this.name}=${await this.seal(identity)}`,
+      `Path=${this.config.path ?? '/'}`,
+      ...(this.config.domain ? [`Domain=${this.config.domain}`] : []),
+      `Max-Age=${String(this.maxAge)}`,
+      `Expires=${new Date(Date.now() + this.maxAge * 1000).toUTCString()}`,
+      'HttpOnly',
+      ...((this.config.secure ?? true) ? ['Secure'] : []),
+      `SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`,
+      ...((this.config.partitioned ?? true) ? ['Partitioned'] : []),
+    ].join('; ');
+  }
+
+  /**
+   * Decrypts a sealed cookie value and checks its expiry.
+   */
+  protected async checkValue(value: string): Promise<SessionCheck> {
+    const raw = decodeBase64Url(value);
+
+    if (!raw || raw.length <= IV_LENGTH + TAG_LENGTH) {
+      return { status: 'invalid' };
+    }
+
+    let session: BigCommerceSession;
+
+    try {
+      const iv = raw.subarray(0, IV_LENGTH);
+      const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+      const ciphertext = raw.subarray(IV_LENGTH + TAG_LENGTH);
+
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv },
+        await this.key,
+        concatBytes(ciphertext, tag),
+      );
+      session = JSON.parse(new TextDecoder().decode(plaintext)) as BigCommerceSession;
+    } catch {
+      return { status: 'invalid' };
+    }
+
+    return session.expiresAt > Math.floor(Date.now() / 1000)
+      ? { status: 'valid', session }
+      : { status: 'expired' };
+  }
+
+  /**
+   * Extracts this cookie's value from a raw `Cookie` header. A value that is
+   * not valid percent-encoding is returned as-is, so it fails to decrypt and
+   * is reported as invalid rather than throwing.
+   */
+  protected readCookieHeader(header: string | null): string | undefined {
+    for (const pair of header?.split(';') ?? []) {
+      const [name, ...rest] = pair.trim().split('=');
+
+      if (name === this.name) {
+        const value = rest.join('=');
+
+        try {
+          return decodeURIComponent(value);
+        } catch {
+          return value;
+        }
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Derives the AES-256-GCM key from the configured secret with HKDF-SHA256
+ * (empty salt).
+ */
+async function deriveKey(secret: string): Promise<webcrypto.CryptoKey> {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, [
+    'deriveKey',
+  ]);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(KEY_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,18 @@
+import type { SessionCheck } from './dto/SessionCheck.js';
+
+/**
+ * Builds the `401 Unauthorized` JSON response returned when a protected route
+ * is hit without a usable session.
+ *
+ * The body carries a machine-friendly code (`missing_session`,
+ * `invalid_session`, or `expired_session`) so client code can decide whether
+ * to ask the merchant to reopen the app from the control panel.
+ *
+ * @param status Why the session was rejected
+ * @returns A JSON `Response` with status `401`
+ */
+export function buildUnauthorizedResponse(
+  status: Exclude<SessionCheck['status'], 'valid'>,
+): Response {
+  return Response.json({ error: 'unauthorized', code: `${status}_session` }, { status: 401 });
+}
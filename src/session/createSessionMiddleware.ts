@@ -0,0 +1,49 @@
+import type { NextRequest } from 'next/server.js';
+import { buildUnauthorizedResponse } from './buildUnauthorizedResponse.js';
+import type { SessionMiddlewareConfig } from './dto/SessionMiddlewareConfig.js';
+import { SessionCookie } from './SessionCookie.js';
+
+/**
+ * Creates a Next.js `middleware.ts` function that protects whole path
+ * prefixes with the BigCommerce session.
+ *
+ * Requests under a protected prefix without a usable session receive the same
+ * `401` JSON response as {@link withBigCommerceSession}; for every other
+ * request the middleware returns nothing, which Next.js treats like
+ * `NextResponse.next()`.
+ *
+ * Session decryption uses the Web Crypto API, so the middleware runs on both
+ * the edge and the Node.js runtime.
+ *
+ * @example
+ * ```ts
+ * // middleware.ts
+ * export const middleware = createSessionMiddleware({
+ *   session: sessionConfig,
+ *   protectedPaths: ['/api/app', '/dashboard'],
+ * });
+ * ```
+ *
+ * @param config Session configuration and the path prefixes to protect
+ * @returns A Next.js middleware function resolving to the `401` response, or
+ *          `undefined` to let the request through
+ */
+export function createSessionMiddleware(config: SessionMiddlewareConfig) {
+  const cookie = new SessionCookie(config.session);
+  const prefixes = config.protectedPaths.map((prefix) => prefix.replace(/\/+$/, ''));
+
+  return async (request: NextRequest): Promise<Response | undefined> => {
+    const { pathname } = new URL(request.url);
+    const isProtected = prefixes.some(
+      (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+    );
+
+    if (!isProtected) {
+      return undefined;
+    }
+
+    const check = await cookie.check(request);
+
+    return check.status === 'valid' ? undefined : buildUnauthorizedResponse(check.status);
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Identity established for a merchant after a successful install or load
+ * callback, and stored in an encrypted session cookie.
+ *
+ * Unlike the `context` query parameter appended to redirects, this value
+ * cannot be forged: it is only ever produced by the server after the OAuth
+ * code exchange or signed-payload verification has succeeded.
+ */
+export interface BigCommerceSession {
+  /**
+   * Hash of the store the merchant is working in (e.g., `"abc123"`).
+   */
+  readonly storeHash: string;
+
+  /**
+   * BigCommerce ID of the user who installed or opened the app.
+   */
+  readonly userId: number;
+
+  /**
+   * Email address of that user.
+   */
+  readonly email: string;
+
+  /**
+   * Unix timestamp (seconds) at which the session was issued.
+   */
+  readonly issuedAt: number;
+
+  /**
+   * Unix timestamp (seconds) after which the session is no longer accepted.
+   */
+  readonly expiresAt: number;
+}
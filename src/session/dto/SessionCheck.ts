@@ -0,0 +1,13 @@
+import type { BigCommerceSession } from './BigCommerceSession.js';
+
+/**
+ * Result of inspecting a request for a session cookie.
+ *
+ * - `"valid"` — the cookie decrypted and has not expired.
+ * - `"missing"` — no session cookie was sent.
+ * - `"invalid"` — the cookie was tampered with or sealed under another secret.
+ * - `"expired"` — the cookie decrypted but is past its `expiresAt`.
+ */
+export type SessionCheck =
+  | { readonly status: 'valid'; readonly session: BigCommerceSession }
+  | { readonly status: 'missing' | 'invalid' | 'expired' };
@@ -0,0 +1,51 @@
+/**
+ * Configuration for the encrypted session cookie set after install and load.
+ *
+ * Defaults target the BigCommerce control panel, which renders the app inside
+ * a cross-site iframe: the cookie must be `SameSite=None; Secure` to be sent
+ * at all, and `Partitioned` so browsers that block third-party cookies keep it.
+ */
+export interface SessionConfig {
+  /**
+   * Secret used to derive the AES-256-GCM key. Must be at least 32
+   * characters; generate one with `openssl rand -base64 32`.
+   */
+  secret: string;
+
+  /**
+   * Name of the session cookie. Defaults to `"bc_session"`.
+   */
+  cookieName?: string;
+
+  /**
+   * Lifetime of the session in seconds. Defaults to one day.
+   */
+  maxAge?: number;
+
+  /**
+   * `SameSite` attribute of the cookie. Defaults to `"none"`.
+   */
+  sameSite?: 'none' | 'lax' | 'strict';
+
+  /**
+   * Whether the cookie is only sent over HTTPS. Defaults to `true`; browsers
+   * reject `SameSite=None` cookies that are not also `Secure`.
+   */
+  secure?: boolean;
+
+  /**
+   * Whether the cookie is partitioned per top-level site (CHIPS). Defaults
+   * to `true`.
+   */
+  partitioned?: boolean;
+
+  /**
+   * `Path` attribute of the cookie. Defaults to `"/"`.
+   */
+  path?: string;
+
+  /**
+   * Optional `Domain` attribute of the cookie.
+   */
+  domain?: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * Store and user context passed to handlers wrapped with
+ * {@link withBigCommerceSession}, derived from a verified session cookie.
+ */
+export interface SessionContext {
+  /**
+   * Hash of the store the request is tied to (e.g., `"abc123"`).
+   */
+  readonly storeHash: string;
+
+  /**
+   * BigCommerce ID of the user the session was established for.
+   */
+  readonly userId: number;
+
+  /**
+   * Email address of that user.
+   */
+  readonly email: string;
+}
@@ -0,0 +1,18 @@
+import type { SessionConfig } from './SessionConfig.js';
+
+/**
+ * Configuration object for {@link createSessionMiddleware}.
+ */
+export interface SessionMiddlewareConfig {
+  /**
+   * The same session configuration passed to the install and load controllers.
+   */
+  session: SessionConfig;
+
+  /**
+   * Path prefixes that require a session (e.g., `["/api/app", "/dashboard"]`).
+   * A prefix matches itself and anything below it, so `"/api/app"` protects
+   * `"/api/app"` and `"/api/app/products"` but not `"/api/apple"`.
+   */
+  protectedPaths: string[];
+}
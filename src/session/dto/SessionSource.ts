@@ -0,0 +1,9 @@
+/**
+ * Anything a session can be read from.
+ *
+ * - Route handlers and middleware pass the incoming `Request`/`NextRequest`.
+ * - Server components pass the cookie store returned by `cookies()` from
+ *   `next/headers`, which exposes the same `get(name)` shape.
+ */
+export type SessionSource =
+  { readonly headers: Headers } | { get(name: string): { readonly value: string } | undefined };
@@ -0,0 +1,12 @@
+/**
+ * Thrown when a {@link SessionCookie} is constructed with a secret too short
+ * to derive a safe encryption key from.
+ *
+ * Surfaces at startup rather than on the first install, so a misconfigured
+ * deployment fails fast.
+ */
+export class InvalidSessionSecretError extends Error {
+  constructor() {
+    super('Invalid session secret: it must be at least 32 characters long.');
+  }
+}
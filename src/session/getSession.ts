@@ -0,0 +1,38 @@
+import type { BigCommerceSession } from './dto/BigCommerceSession.js';
+import type { SessionConfig } from './dto/SessionConfig.js';
+import type { SessionSource } from './dto/SessionSource.js';
+import { SessionCookie } from './SessionCookie.js';
+
+/**
+ * Resolves the BigCommerce session established by the install or load
+ * controller.
+ *
+ * Works in route handlers and middleware (pass the request) and in server
+ * components (pass the cookie store from `cookies()`).
+ *
+ * @example
+ * ```ts
+ * // app/api/products/route.ts
+ * export async function GET(request: NextRequest) {
+ *   const session = await getSession(request, sessionConfig);
+ *   if (!session) return new Response(null, { status: 401 });
+ *   // session.storeHash, session.userId, session.email
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // app/page.tsx
+ * const session = await getSession(await cookies(), sessionConfig);
+ * ```
+ *
+ * @param source Incoming request, or the store returned by `cookies()`
+ * @param config The same session configuration passed to the controllers
+ * @returns The session, or `null` when absent, tampered with, or expired
+ */
+export async function getSession(
+  source: SessionSource,
+  config: SessionConfig,
+): Promise<BigCommerceSession | null> {
+  return new SessionCookie(config).read(source);
+}
@@ -0,0 +1,14 @@
+export * from './SessionCookie.js';
+export * from './getSession.js';
+export * from './withBigCommerceSession.js';
+export * from './createSessionMiddleware.js';
+export * from './buildUnauthorizedResponse.js';
+
+export * from './dto/BigCommerceSession.js';
+export * from './dto/SessionCheck.js';
+export * from './dto/SessionConfig.js';
+export * from './dto/SessionContext.js';
+export * from './dto/SessionMiddlewareConfig.js';
+export * from './dto/SessionSource.js';
+
+export * from './errors/InvalidSessionSecretError.js';
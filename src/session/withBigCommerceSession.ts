@@ -0,0 +1,56 @@
+import type { NextRequest } from 'next/server.js';
+import { buildUnauthorizedResponse } from './buildUnauthorizedResponse.js';
+import type { SessionConfig } from './dto/SessionConfig.js';
+import type { SessionContext } from './dto/SessionContext.js';
+import { SessionCookie } from './SessionCookie.js';
+
+/**
+ * A Next.js route handler that receives the verified session context in
+ * addition to the request and the route segment context.
+ */
+export type SessionRouteHandler<TRouteContext = unknown> = (
+  request: NextRequest,
+  session: SessionContext,
+  routeContext: TRouteContext,
+) => Response | Promise<Response>;
+
+/**
+ * Wraps a Next.js route handler so it only runs for requests tied to an
+ * installed store.
+ *
+ * The wrapper resolves the session cookie established by the install or load
+ * controller. Requests with a missing, tampered, or expired session receive a
+ * `401` JSON response and never reach the handler; otherwise the handler is
+ * called with a typed {@link SessionContext}.
+ *
+ * @example
+ * ```ts
+ * // app/api/products/route.ts
+ * export const GET = withBigCommerceSession(async (request, { storeHash }) => {
+ *   const products = await listProducts(storeHash);
+ *   return Response.json(products);
+ * }, sessionConfig);
+ * ```
+ *
+ * @param handler Route handler to protect
+ * @param config The same session configuration passed to the controllers
+ * @returns A Next.js-compatible route handler
+ */
+export function withBigCommerceSession<TRouteContext = unknown>(
+  handler: SessionRouteHandler<TRouteContext>,
+  config: SessionConfig,
+) {
+  const cookie = new SessionCookie(config);
+
+  return async (request: NextRequest, routeContext: TRouteContext): Promise<Response> => {
+    const check = await cookie.check(request);
+
+    if (check.status !== 'valid') {
+      return buildUnauthorizedResponse(check.status);
+    }
+
+    const { storeHash, userId, email } = check.session;
+
+    return handler(request, { storeHash, userId, email }, routeContext);
+  };
+}
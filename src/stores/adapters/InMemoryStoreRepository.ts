@@ -0,0 +1,59 @@
+import type { StoreRecord } from '../dto/StoreRecord.js';
+import type { StoreRepository } from '../dto/StoreRepository.js';
+import type { StoreUser } from '../dto/StoreUser.js';
+
+/**
+ * Process-local {@link StoreRepository} backed by a `Map` keyed by store hash.
+ *
+ * Suitable for tests and single-instance development servers. Records are
+ * lost when the process exits.
+ */
+export class InMemoryStoreRepository implements StoreRepository {
+  private readonly stores = new Map<string, StoreRecord>();
+
+  upsert(store: StoreRecord): Promise<void> {
+    this.stores.set(store.storeHash, store);
+    return Promise.resolve();
+  }
+
+  findByStoreHash(storeHash: string): Promise<StoreRecord | null> {
+    return Promise.resolve(this.stores.get(storeHash) ?? null);
+  }
+
+  findAll(): Promise<StoreRecord[]> {
+    return Promise.resolve([...this.stores.values()]);
+  }
+
+  delete(storeHash: string): Promise<void> {
+    this.stores.delete(storeHash);
+    return Promise.resolve();
+  }
+
+  addUser(storeHash: string, user: StoreUser): Promise<void> {
+    const store = this.stores.get(storeHash);
+
+    if (store) {
+      this.stores.set(storeHash, {
+        ...store,
+        users: [...store.users.filter((u) => u.id !== user.id), user],
+        updatedAt: new Date().toISOString(),
+      });
+    }
+
+    return Promise.resolve();
+  }
+
+  removeUser(storeHash: string, userId: number): Promise<void> {
+    const store = this.stores.get(storeHash);
+
+    if (store) {
+      this.stores.set(storeHash, {
+        ...store,
+        users: store.users.filter((u) => u.id !== userId),
+        updatedAt: new Date().toISOString(),
+      });
+    }
+
+    return Promise.resolve();
+  }
+}
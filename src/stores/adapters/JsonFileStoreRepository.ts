@@ -0,0 +1,121 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { StoreRecord } from '../dto/StoreRecord.js';
+import type { StoreRepository } from '../dto/StoreRepository.js';
+import type { StoreUser } from '../dto/StoreUser.js';
+
+/**
+ * On-disk layout of the JSON store file.
+ */
+interface StoreFile {
+  stores: Record<string, StoreRecord>;
+}
+
+/**
+ * {@link StoreRepository} that keeps every record in a single JSON file.
+ *
+ * Intended for local development and small single-instance deployments where
+ * a database would be overkill. Writes go to a temporary file that is renamed
+ * over the original, so a crash never leaves a half-written file, and
+ * operations from the same instance are serialized.
+ *
+ * The file holds access tokens in plain text; keep it out of version control.
+ */
+export class JsonFileStoreRepository implements StoreRepository {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath Path of the JSON file; created on first write.
+   */
+  constructor(protected readonly filePath: string) {}
+
+  upsert(store: StoreRecord): Promise<void> {
+    return this.mutate((file) => {
+      file.stores[store.storeHash] = store;
+    });
+  }
+
+  findByStoreHash(storeHash: string): Promise<StoreRecord | null> {
+    return this.enqueue(async () => (await this.read()).stores[storeHash] ?? null);
+  }
+
+  findAll(): Promise<StoreRecord[]> {
+    return this.enqueue(async () => Object.values((await this.read()).stores));
+  }
+
+  delete(storeHash: string): Promise<void> {
+    return this.mutate((file) => {
+      file.stores = Object.fromEntries(
+        Object.entries(file.stores).filter(([hash]) => hash !== storeHash),
+      );
+    });
+  }
+
+  addUser(storeHash: string, user: StoreUser): Promise<void> {
+    return this.mutate((file) => {
+      const store = file.stores[storeHash];
+
+      if (store) {
+        file.stores[storeHash] = {
+          ...store,
+          users: [...store.users.filter((u) => u.id !== user.id), user],
+          updatedAt: new Date().toISOString(),
+        };
+      }
+    });
+  }
+
+  removeUser(storeHash: string, userId: number): Promise<void> {
+    return this.mutate((file) => {
+      const store = file.stores[storeHash];
+
+      if (store) {
+        file.stores[storeHash] = {
+          ...store,
+          users: store.users.filter((u) => u.id !== userId),
+          updatedAt: new Date().toISOString(),
+        };
+      }
+    });
+  }
+
+  /**
+   * Reads the file, returning an empty store set when it does not exist yet.
+   */
+  protected async read(): Promise<StoreFile> {
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf8')) as StoreFile;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { stores: {} };
+      }
+
+      throw err;
+    }
+  }
+
+  /**
+   * Atomically replaces the file with the given contents.
+   */
+  protected async write(file: StoreFile): Promise<void> {
+    const tmpPath = `${this.filePath}.${String(process.pid)}.tmp`;
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+    await rename(tmpPath, this.filePath);
+  }
+
+  private mutate(apply: (file: StoreFile) => void): Promise<void> {
+    return this.enqueue(async () => {
+      const file = await this.read();
+      apply(file);
+      await this.write(file);
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
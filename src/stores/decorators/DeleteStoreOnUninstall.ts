@@ -0,0 +1,37 @@
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import type {
+  UninstallAppContext,
+  UninstallAppInput,
+  UninstallAppUseCase,
+} from 'bigcommerce-oauth/use-cases/uninstall';
+import { UninstallAppDecorator } from 'bigcommerce-oauth/use-cases/uninstall';
+import { StoreHash } from 'bigcommerce-oauth/value-objects';
+import type { StoreRepository } from '../dto/StoreRepository.js';
+
+/**
+ * Uninstall decorator that deletes the store record once the signed payload
+ * has been verified, so its access token is no longer retained.
+ */
+export class DeleteStoreOnUninstall extends UninstallAppDecorator {
+  /**
+   * @param inner Use case verifying the uninstall callback
+   * @param stores Repository holding the installed store
+   */
+  constructor(
+    inner: UninstallAppUseCase,
+    protected readonly stores: StoreRepository,
+  ) {
+    super(inner);
+  }
+
+  override async execute(
+    input: UninstallAppInput,
+    context: UninstallAppContext,
+  ): Promise<SignedPayloadClaims> {
+    const claims = await this.inner.execute(input, context);
+
+    await this.stores.delete(StoreHash.fromJWTSub(claims.sub).toString());
+
+    return claims;
+  }
+}
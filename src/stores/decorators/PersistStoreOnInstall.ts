@@ -0,0 +1,56 @@
+import type { AuthSession } from 'bigcommerce-oauth';
+import type {
+  InstallAppContext,
+  InstallAppInput,
+  InstallAppUseCase,
+} from 'bigcommerce-oauth/use-cases/install';
+import { InstallAppDecorator } from 'bigcommerce-oauth/use-cases/install';
+import { StoreHash } from 'bigcommerce-oauth/value-objects';
+import type { StoreRepository } from '../dto/StoreRepository.js';
+
+/**
+ * Install decorator that persists the exchanged access token.
+ *
+ * After the wrapped use case exchanges the OAuth code, the resulting
+ * {@link AuthSession} is upserted into the repository. Reinstalling the app
+ * replaces the token and scopes but keeps `installedAt` and any users already
+ * granted access.
+ *
+ * ```ts
+ * let installApp: InstallAppUseCase = new InstallApp(oauthClient);
+ * installApp = new PersistStoreOnInstall(installApp, storeRepository);
+ * ```
+ */
+export class PersistStoreOnInstall extends InstallAppDecorator {
+  /**
+   * @param inner Use case performing the token exchange
+   * @param stores Repository receiving the installed store
+   */
+  constructor(
+    inner: InstallAppUseCase,
+    protected readonly stores: StoreRepository,
+  ) {
+    super(inner);
+  }
+
+  override async execute(input: InstallAppInput, context: InstallAppContext): Promise<AuthSession> {
+    const session = await this.inner.execute(input, context);
+
+    const storeHash = StoreHash.fromJWTSub(session.context).toString();
+    const existing = await this.stores.findByStoreHash(storeHash);
+    const installer = { id: session.user.id, email: session.user.email };
+    const now = new Date().toISOString();
+
+    await this.stores.upsert({
+      storeHash,
+      accessToken: session.access_token,
+      scope: session.scope,
+      owner: { id: session.owner.id, email: session.owner.email },
+      users: [...(existing?.users.filter((u) => u.id !== installer.id) ?? []), installer],
+      installedAt: existing?.installedAt ?? now,
+      updatedAt: now,
+    });
+
+    return session;
+  }
+}
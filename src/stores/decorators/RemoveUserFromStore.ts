@@ -0,0 +1,37 @@
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import type {
+  RemoveUserContext,
+  RemoveUserInput,
+  RemoveUserUseCase,
+} from 'bigcommerce-oauth/use-cases/remove-user';
+import { RemoveUserDecorator } from 'bigcommerce-oauth/use-cases/remove-user';
+import { StoreHash } from 'bigcommerce-oauth/value-objects';
+import type { StoreRepository } from '../dto/StoreRepository.js';
+
+/**
+ * Remove-user decorator that revokes the removed user's membership of the
+ * store once the signed payload has been verified.
+ */
+export class RemoveUserFromStore extends RemoveUserDecorator {
+  /**
+   * @param inner Use case verifying the remove-user callback
+   * @param stores Repository holding the store's users
+   */
+  constructor(
+    inner: RemoveUserUseCase,
+    protected readonly stores: StoreRepository,
+  ) {
+    super(inner);
+  }
+
+  override async execute(
+    input: RemoveUserInput,
+    context: RemoveUserContext,
+  ): Promise<SignedPayloadClaims> {
+    const claims = await this.inner.execute(input, context);
+
+    await this.stores.removeUser(StoreHash.fromJWTSub(claims.sub).toString(), claims.user.id);
+
+    return claims;
+  }
+}
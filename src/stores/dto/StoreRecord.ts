@@ -0,0 +1,44 @@
+import type { StoreUser } from './StoreUser.js';
+
+/**
+ * Persisted state for a store that has installed the app.
+ *
+ * Timestamps are ISO-8601 strings so records serialize to JSON unchanged.
+ */
+export interface StoreRecord {
+  /**
+   * Hash of the store (e.g., `"abc123"`). Primary key of the record.
+   */
+  readonly storeHash: string;
+
+  /**
+   * OAuth access token obtained from the install code exchange.
+   */
+  readonly accessToken: string;
+
+  /**
+   * Space-separated scopes granted with {@link accessToken}.
+   */
+  readonly scope: string;
+
+  /**
+   * The store owner at the time of the latest install.
+   */
+  readonly owner: StoreUser;
+
+  /**
+   * Users with access to the app. Always includes the user who installed it;
+   * multi-user apps add users on load and remove them on remove-user.
+   */
+  readonly users: readonly StoreUser[];
+
+  /**
+   * When the app was first installed on the store.
+   */
+  readonly installedAt: string;
+
+  /**
+   * When the record was last written.
+   */
+  readonly updatedAt: string;
+}
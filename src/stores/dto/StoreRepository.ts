@@ -0,0 +1,44 @@
+import type { StoreRecord } from './StoreRecord.js';
+import type { StoreUser } from './StoreUser.js';
+
+/**
+ * Persistence contract for installed stores and their access tokens.
+ *
+ * Implement this against your database of choice; the package ships an
+ * {@link InMemoryStoreRepository} and a {@link JsonFileStoreRepository} for
+ * tests and local development. The decorators in this module use it to
+ * persist the outcome of the install, uninstall, and remove-user callbacks.
+ */
+export interface StoreRepository {
+  /**
+   * Inserts the record, or replaces the existing record for its store hash.
+   */
+  upsert(store: StoreRecord): Promise<void>;
+
+  /**
+   * Returns the record for a store, or `null` if the app is not installed.
+   */
+  findByStoreHash(storeHash: string): Promise<StoreRecord | null>;
+
+  /**
+   * Returns every stored record. Used by maintenance tasks such as
+   * re-encrypting tokens under a new key.
+   */
+  findAll(): Promise<StoreRecord[]>;
+
+  /**
+   * Removes the record for a store. Deleting an unknown store is a no-op.
+   */
+  delete(storeHash: string): Promise<void>;
+
+  /**
+   * Grants a user access to an installed store. Adding an existing user
+   * updates their email; adding to an unknown store is a no-op.
+   */
+  addUser(storeHash: string, user: StoreUser): Promise<void>;
+
+  /**
+   * Revokes a user's access to a store. Unknown stores or users are a no-op.
+   */
+  removeUser(storeHash: string, userId: number): Promise<void>;
+}
@@ -0,0 +1,9 @@
+/**
+ * A BigCommerce user with access to the app for a given store.
+ */
+export interface StoreUser {
+  /** BigCommerce user ID. */
+  readonly id: number;
+  /** User's email address. */
+  readonly email: string;
+}
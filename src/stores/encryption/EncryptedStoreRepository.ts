@@ -0,0 +1,107 @@
+import type { StoreRecord } from '../dto/StoreRecord.js';
+import type { StoreRepository } from '../dto/StoreRepository.js';
+import type { StoreUser } from '../dto/StoreUser.js';
+import type { ReencryptionSummary } from './dto/ReencryptionSummary.js';
+import type { TokenEncryptionConfig } from './dto/TokenEncryptionConfig.js';
+import { TokenCipher } from './TokenCipher.js';
+
+/**
+ * {@link StoreRepository} wrapper that encrypts access tokens at rest.
+ *
+ * Tokens are sealed with {@link TokenCipher} before they reach the wrapped
+ * repository and opened again on lookup, so the rest of the application only
+ * ever sees plain-text tokens. Any adapter can be wrapped:
+ *
+ * ```ts
+ * const stores = EncryptedStoreRepository.create(new JsonFileStoreRepository(path), {
+ *   keys: [{ id: '2026-01', secret: process.env.TOKEN_KEY! }],
+ * });
+ * ```
+ *
+ * Records written before encryption was enabled are still readable; they are
+ * sealed on their next write or by {@link reencryptAll}.
+ */
+export class EncryptedStoreRepository implements StoreRepository {
+  protected constructor(
+    protected readonly inner: StoreRepository,
+    protected readonly cipher: TokenCipher,
+  ) {}
+
+  /**
+   * @param inner Repository that stores the sealed records
+   * @param config Encryption keys and the active key id
+   *
+   * @throws {InvalidEncryptionKeyError} If the key configuration is unusable.
+   */
+  static create(inner: StoreRepository, config: TokenEncryptionConfig): EncryptedStoreRepository {
+    return new EncryptedStoreRepository(inner, new TokenCipher(config));
+  }
+
+  upsert(store: StoreRecord): Promise<void> {
+    return this.inner.upsert(this.seal(store));
+  }
+
+  async findByStoreHash(storeHash: string): Promise<StoreRecord | null> {
+    const store = await this.inner.findByStoreHash(storeHash);
+    return store && this.open(store);
+  }
+
+  async findAll(): Promise<StoreRecord[]> {
+    return (await this.inner.findAll()).map((store) => this.open(store));
+  }
+
+  delete(storeHash: string): Promise<void> {
+    return this.inner.delete(storeHash);
+  }
+
+  addUser(storeHash: string, user: StoreUser): Promise<void> {
+    return this.inner.addUser(storeHash, user);
+  }
+
+  removeUser(storeHash: string, userId: number): Promise<void> {
+    return this.inner.removeUser(storeHash, userId);
+  }
+
+  /**
+   * Re-seals every record not already under the active key, including
+   * plain-text records. Run after making a new key active; once it reports
+   * no further changes, retired keys can be removed from the configuration.
+   *
+   * @throws {TokenDecryptionError} If a record references a key that is no
+   *         longer configured or fails authentication.
+   */
+  async reencryptAll(): Promise<ReencryptionSummary> {
+    const summary: ReencryptionSummary = { total: 0, reencrypted: 0, unchanged: 0 };
+
+    for (const store of await this.inner.findAll()) {
+      summary.total++;
+
+      if (this.cipher.keyIdOf(store.accessToken) === this.cipher.activeKeyId) {
+        summary.unchanged++;
+        continue;
+      }
+
+      await this.inner.upsert(this.seal(this.open(store)));
+      summary.reencrypted++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Replaces the record's token with an envelope under the active key.
+   */
+  protected seal(store: StoreRecord): StoreRecord {
+    return { ...store, accessToken: this.cipher.encrypt(store.accessToken, store.storeHash) };
+  }
+
+  /**
+   * Replaces the record's envelope with the plain-text token. Records stored
+   * before encryption was enabled are returned as-is.
+   */
+  protected open(store: StoreRecord): StoreRecord {
+    return this.cipher.isEncrypted(store.accessToken)
+      ? { ...store, accessToken: this.cipher.decrypt(store.accessToken, store.storeHash) }
+      : store;
+  }
+}
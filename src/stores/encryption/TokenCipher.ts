@@ -0,0 +1,138 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import type { TokenEncryptionConfig } from './dto/TokenEncryptionConfig.js';
+import { InvalidEncryptionKeyError } from './errors/InvalidEncryptionKeyError.js';
+import { TokenDecryptionError } from './errors/TokenDecryptionError.js';
+
+const PREFIX = 'enc:v1:';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Seals and opens access tokens with AES-256-GCM.
+ *
+ * An envelope is `enc:v1:{keyId}:base64url(iv | authTag | ciphertext)`. The
+ * key id selects the decryption key, so several keys can be live during a
+ * rotation. Callers pass associated data (the store hash) that is
+ * authenticated but not stored, binding each token to its own record.
+ */
+export class TokenCipher {
+  /**
+   * Id of the key used by {@link encrypt}.
+   */
+  readonly activeKeyId: string;
+
+  protected readonly keys: ReadonlyMap<string, Buffer>;
+  protected readonly activeKey: Buffer;
+
+  constructor(config: TokenEncryptionConfig) {
+    const keys = new Map<string, Buffer>();
+
+    for (const { id, secret } of config.keys) {
+      if (!KEY_ID_PATTERN.test(id)) {
+        throw new InvalidEncryptionKeyError(`id "${id}" may only contain letters, digits, _ and -`);
+      }
+
+      if (keys.has(id)) {
+        throw new InvalidEncryptionKeyError(`id "${id}" is listed twice`);
+      }
+
+      const key = Buffer.from(secret, 'base64');
+
+      if (key.length !== 32) {
+        throw new InvalidEncryptionKeyError(`key "${id}" must be 32 bytes, base64-encoded`);
+      }
+
+      keys.set(id, key);
+    }
+
+    const activeKeyId = config.activeKeyId ?? config.keys[0]?.id;
+
+    if (activeKeyId === undefined) {
+      throw new InvalidEncryptionKeyError('at least one key is required');
+    }
+
+    const activeKey = keys.get(activeKeyId);
+
+    if (!activeKey) {
+      throw new InvalidEncryptionKeyError(`active key "${activeKeyId}" is not configured`);
+    }
+
+    this.keys = keys;
+    this.activeKey = activeKey;
+    this.activeKeyId = activeKeyId;
+  }
+
+  /**
+   * Whether a stored value is an envelope rather than a plain-text token.
+   */
+  isEncrypted(value: string): boolean {
+    return value.startsWith(PREFIX);
+  }
+
+  /**
+   * Returns the key id named in an envelope, or `null` for plain text.
+   */
+  keyIdOf(value: string): string | null {
+    return this.isEncrypted(value) ? (value.slice(PREFIX.length).split(':', 1)[0] ?? null) : null;
+  }
+
+  /**
+   * Seals a token under the active key.
+   *
+   * @param plaintext The access token
+   * @param associatedData Value the envelope is bound to (the store hash)
+   * @returns The envelope to store
+   */
+  encrypt(plaintext: string, associatedData: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.activeKey, iv);
+    cipher.setAAD(Buffer.from(associatedData, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+    return `${PREFIX}${this.activeKeyId}:${payload}`;
+  }
+
+  /**
+   * Opens an envelope sealed by {@link encrypt} under any configured key.
+   *
+   * @param envelope The stored value
+   * @param associatedData Value the envelope was bound to (the store hash)
+   * @returns The access token
+   *
+   * @throws {TokenDecryptionError} If the envelope is malformed, its key is
+   *         not configured, or authentication fails.
+   */
+  decrypt(envelope: string, associatedData: string): string {
+    if (!this.isEncrypted(envelope)) {
+      throw new TokenDecryptionError('value is not an encrypted envelope');
+    }
+
+    const [keyId = '', payload = ''] = envelope.slice(PREFIX.length).split(':');
+    const key = this.keys.get(keyId);
+
+    if (!key) {
+      throw new TokenDecryptionError(`key "${keyId}" is not configured`, keyId);
+    }
+
+    const raw = Buffer.from(payload, 'base64url');
+
+    if (raw.length <= IV_LENGTH + TAG_LENGTH) {
+      throw new TokenDecryptionError('envelope is truncated', keyId);
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, raw.subarray(0, IV_LENGTH));
+      decipher.setAAD(Buffer.from(associatedData, 'utf8'));
+      decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+      return Buffer.concat([
+        decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      throw new TokenDecryptionError('authentication failed', keyId);
+    }
+  }
+}
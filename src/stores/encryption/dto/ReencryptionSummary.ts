@@ -0,0 +1,20 @@
+/**
+ * Outcome of {@link EncryptedStoreRepository.reencryptAll}.
+ */
+export interface ReencryptionSummary {
+  /**
+   * Number of records inspected.
+   */
+  total: number;
+
+  /**
+   * Records whose token was re-sealed under the active key, including
+   * records that were previously stored in plain text.
+   */
+  reencrypted: number;
+
+  /**
+   * Records already sealed under the active key.
+   */
+  unchanged: number;
+}
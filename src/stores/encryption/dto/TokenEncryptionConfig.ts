@@ -0,0 +1,20 @@
+import type { TokenEncryptionKey } from './TokenEncryptionKey.js';
+
+/**
+ * Configuration for {@link TokenCipher} and {@link EncryptedStoreRepository}.
+ *
+ * To rotate, add the new key, make it active, and keep the old keys listed
+ * until every record has been re-encrypted (see the `reencrypt-tokens` CLI
+ * command); then the old keys can be removed.
+ */
+export interface TokenEncryptionConfig {
+  /**
+   * Every key that may still be referenced by a stored envelope.
+   */
+  keys: readonly TokenEncryptionKey[];
+
+  /**
+   * Id of the key used for new encryptions. Defaults to the first key.
+   */
+  activeKeyId?: string;
+}
@@ -0,0 +1,17 @@
+/**
+ * A named AES-256 key used to encrypt access tokens at rest.
+ */
+export interface TokenEncryptionKey {
+  /**
+   * Identifier written into every envelope sealed with this key, so the right
+   * key can be picked on decryption after a rotation. Letters, digits, `_`
+   * and `-` only.
+   */
+  id: string;
+
+  /**
+   * The 32-byte key, base64-encoded. Generate one with
+   * `openssl rand -base64 32`.
+   */
+  secret: string;
+}
@@ -0,0 +1,12 @@
+/**
+ * Thrown when the token encryption configuration is unusable: no keys, a key
+ * that is not 32 bytes of base64, a malformed or duplicate id, or an active
+ * key id that is not listed.
+ *
+ * Surfaces at startup rather than on the first install.
+ */
+export class InvalidEncryptionKeyError extends Error {
+  constructor(reason: string) {
+    super(`Invalid token encryption key: ${reason}.`);
+  }
+}
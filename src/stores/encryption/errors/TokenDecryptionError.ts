@@ -0,0 +1,16 @@
+/**
+ * Thrown when a stored token cannot be decrypted: the envelope is malformed,
+ * references a key that is no longer configured, or fails authentication
+ * (tampered, or moved to another store's record).
+ */
+export class TokenDecryptionError extends Error {
+  /**
+   * Key id named in the envelope, when it could be read.
+   */
+  readonly keyId?: string;
+
+  constructor(message: string, keyId?: string) {
+    super(`Unable to decrypt access token: ${message}.`);
+    this.keyId = keyId;
+  }
+}
@@ -0,0 +1,29 @@
+import type { TokenEncryptionKey } from './dto/TokenEncryptionKey.js';
+import { InvalidEncryptionKeyError } from './errors/InvalidEncryptionKeyError.js';
+
+/**
+ * Parses a key list in the `id:base64secret,id:base64secret` format, as read
+ * from an environment variable such as `BIGCOMMERCE_TOKEN_KEYS`.
+ *
+ * Only the format is checked here; {@link TokenCipher} validates the keys.
+ *
+ * @param value Comma-separated `id:secret` pairs
+ * @returns The parsed keys, in the order given
+ *
+ * @throws {InvalidEncryptionKeyError} If an entry is not `id:secret`.
+ */
+export function parseTokenEncryptionKeys(value: string): TokenEncryptionKey[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new InvalidEncryptionKeyError('entries must be in the form id:base64secret');
+      }
+
+      return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+    });
+}
@@ -0,0 +1,19 @@
+export * from './adapters/InMemoryStoreRepository.js';
+export * from './adapters/JsonFileStoreRepository.js';
+
+export * from './decorators/DeleteStoreOnUninstall.js';
+export * from './decorators/PersistStoreOnInstall.js';
+export * from './decorators/RemoveUserFromStore.js';
+
+export * from './encryption/EncryptedStoreRepository.js';
+export * from './encryption/TokenCipher.js';
+export * from './encryption/parseTokenEncryptionKeys.js';
+export * from './encryption/dto/ReencryptionSummary.js';
+export * from './encryption/dto/TokenEncryptionConfig.js';
+export * from './encryption/dto/TokenEncryptionKey.js';
+export * from './encryption/errors/InvalidEncryptionKeyError.js';
+export * from './encryption/errors/TokenDecryptionError.js';
+
+export * from './dto/StoreRecord.js';
+export * from './dto/StoreRepository.js';
+export * from './dto/StoreUser.js';
@@ -0,0 +1,57 @@
+import type { Tracer } from '@opentelemetry/api';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { AuthSession } from 'bigcommerce-oauth';
+import type {
+  InstallAppContext,
+  InstallAppInput,
+  InstallAppUseCase,
+} from 'bigcommerce-oauth/use-cases/install';
+import { InstallAppDecorator } from 'bigcommerce-oauth/use-cases/install';
+import { SpanAttributes, SpanNames } from './attributes.js';
+
+/**
+ * Install decorator that records the OAuth code exchange as a client span.
+ *
+ * Started inside the active install span, it becomes that span's child, so
+ * traces show how much of a callback was spent waiting on BigCommerce. Failed
+ * exchanges are recorded on the span and rethrown unchanged.
+ *
+ * {@link TracedInstallController} wraps the configured `installApp` as a
+ * whole, so persistence decorators are timed with the exchange. To time the
+ * exchange alone, wrap `InstallApp` directly before adding other decorators.
+ */
+export class TraceTokenExchange extends InstallAppDecorator {
+  /**
+   * @param inner Use case performing the token exchange
+   * @param tracer Tracer to record the span with
+   */
+  constructor(
+    inner: InstallAppUseCase,
+    protected readonly tracer: Tracer,
+  ) {
+    super(inner);
+  }
+
+  override execute(input: InstallAppInput, context: InstallAppContext): Promise<AuthSession> {
+    return this.tracer.startActiveSpan(
+      SpanNames.tokenExchange,
+      { kind: SpanKind.CLIENT },
+      async (span) => {
+        try {
+          const session = await this.inner.execute(input, context);
+          span.setAttribute(
+            SpanAttributes.scopeCount,
+            session.scope.split(/\s+/).filter(Boolean).length,
+          );
+          return session;
+        } catch (err) {
+          span.recordException(err instanceof Error ? err : String(err));
+          span.setStatus({ code: SpanStatusCode.ERROR });
+          throw err;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import type { Tracer } from '@opentelemetry/api';
+import { SpanStatusCode, trace as otelTrace } from '@opentelemetry/api';
+import { InstallController } from '@/use-cases/install/controllers/InstallController.js';
+import type { InstallRequest } from '@/use-cases/install/controllers/dto/InstallRequest.js';
+import type { InstallResult } from '@/use-cases/install/controllers/dto/InstallResult.js';
+import type { InstallTrace } from '@/use-cases/install/controllers/dto/InstallTrace.js';
+import { SpanAttributes, SpanNames, TRACER_NAME } from './attributes.js';
+import type { TracedInstallHandlerConfig } from './dto/TracedInstallHandlerConfig.js';
+import { TraceTokenExchange } from './TraceTokenExchange.js';
+
+/**
+ * {@link InstallController} that records each install callback as an
+ * OpenTelemetry span.
+ *
+ * The `bigcommerce.install` span carries the store hash, outcome status,
+ * error code, and granted scope count; the token exchange is recorded as a
+ * `bigcommerce.oauth.token_exchange` child span. Only `@opentelemetry/api` is
+ * used, so without a registered SDK every span is a no-op.
+ *
+ * @example
+ * export const GET = TracedInstallController.create({
+ *   installApp,
+ *   redirectUri: process.env.BIGCOMMERCE_REDIRECT_URI!,
+ * });
+ */
+export class TracedInstallController extends InstallController {
+  protected readonly tracer: Tracer;
+
+  protected constructor(config: TracedInstallHandlerConfig) {
+    const tracer = config.tracer ?? otelTrace.getTracer(TRACER_NAME);
+
+    super({ ...config, installApp: new TraceTokenExchange(config.installApp, tracer) });
+    this.tracer = tracer;
+  }
+
+  /**
+   * Factory method that returns a Next.js-compatible handler function.
+   */
+  static override create(config: TracedInstallHandlerConfig) {
+    const controller = new TracedInstallController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Runs the install inside an active `bigcommerce.install` span and records
+   * the outcome on it.
+   */
+  protected override performInstall(
+    req: InstallRequest,
+    trace: InstallTrace = this.startTrace(req),
+  ): Promise<InstallResult> {
+    const attributes = {
+      [SpanAttributes.requestId]: trace.requestId,
+      ...(trace.storeHash ? { [SpanAttributes.storeHash]: trace.storeHash } : {}),
+    };
+
+    return this.tracer.startActiveSpan(SpanNames.install, { attributes }, async (span) => {
+      try {
+        const result = await super.performInstall(req, trace);
+
+        span.setAttribute(SpanAttributes.status, result.status);
+        span.setAttribute(SpanAttributes.scopeCount, result.grantedScopes?.length ?? 0);
+
+        if (result.errorCode) {
+          span.setAttribute(SpanAttributes.errorCode, result.errorCode);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: result.errorCode });
+        }
+
+        return result;
+      } finally {
+        span.end();
+      }
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import type { Tracer } from '@opentelemetry/api';
+import { trace as otelTrace } from '@opentelemetry/api';
+import { LoadController } from '@/use-cases/load/controllers/LoadController.js';
+import type { LoadResult } from '@/use-cases/load/controllers/dto/LoadResult.js';
+import { SpanNames, TRACER_NAME } from './attributes.js';
+import type { TracedLoadHandlerConfig } from './dto/TracedLoadHandlerConfig.js';
+import { traceCallback } from './traceCallback.js';
+
+/**
+ * {@link LoadController} that records each load callback as an
+ * OpenTelemetry `bigcommerce.load` span carrying the store hash, outcome
+ * status, and error code (see {@link traceCallback}).
+ *
+ * @example
+ * export const GET = TracedLoadController.create({
+ *   loadApp,
+ *   appPath: '/dashboard',
+ * });
+ */
+export class TracedLoadController extends LoadController {
+  protected readonly tracer: Tracer;
+
+  protected constructor(config: TracedLoadHandlerConfig) {
+    super(config);
+    this.tracer = config.tracer ?? otelTrace.getTracer(TRACER_NAME);
+  }
+
+  /**
+   * Factory method that returns a `(request: Request) => Promise<Response>`
+   * handler, usable as a Next.js route handler.
+   */
+  static override create(config: TracedLoadHandlerConfig) {
+    const controller = new TracedLoadController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Runs the load flow inside an active `bigcommerce.load` span and
+   * records the outcome on it.
+   */
+  protected override performLoad(req: Request): Promise<LoadResult> {
+    return traceCallback(this.tracer, SpanNames.load, () => super.performLoad(req));
+  }
+}
@@ -0,0 +1,41 @@
+import type { Tracer } from '@opentelemetry/api';
+import { trace as otelTrace } from '@opentelemetry/api';
+import { RemoveUserController } from '@/use-cases/remove-user/controllers/RemoveUserController.js';
+import type { RemoveUserResult } from '@/use-cases/remove-user/controllers/dto/RemoveUserResult.js';
+import { SpanNames, TRACER_NAME } from './attributes.js';
+import type { TracedRemoveUserHandlerConfig } from './dto/TracedRemoveUserHandlerConfig.js';
+import { traceCallback } from './traceCallback.js';
+
+/**
+ * {@link RemoveUserController} that records each remove-user callback as an
+ * OpenTelemetry `bigcommerce.remove_user` span carrying the store hash, outcome
+ * status, and error code (see {@link traceCallback}).
+ *
+ * @example
+ * export const GET = TracedRemoveUserController.create({ removeUser });
+ */
+export class TracedRemoveUserController extends RemoveUserController {
+  protected readonly tracer: Tracer;
+
+  protected constructor(config: TracedRemoveUserHandlerConfig) {
+    super(config);
+    this.tracer = config.tracer ?? otelTrace.getTracer(TRACER_NAME);
+  }
+
+  /**
+   * Factory method that returns a `(request: Request) => Promise<Response>`
+   * handler, usable as a Next.js route handler.
+   */
+  static override create(config: TracedRemoveUserHandlerConfig) {
+    const controller = new TracedRemoveUserController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Runs the remove-user flow inside an active `bigcommerce.remove_user`
+   * span and records the outcome on it.
+   */
+  protected override performRemoveUser(req: Request): Promise<RemoveUserResult> {
+    return traceCallback(this.tracer, SpanNames.removeUser, () => super.performRemoveUser(req));
+  }
+}
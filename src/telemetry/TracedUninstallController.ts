@@ -0,0 +1,41 @@
+import type { Tracer } from '@opentelemetry/api';
+import { trace as otelTrace } from '@opentelemetry/api';
+import { UninstallController } from '@/use-cases/uninstall/controllers/UninstallController.js';
+import type { UninstallResult } from '@/use-cases/uninstall/controllers/dto/UninstallResult.js';
+import { SpanNames, TRACER_NAME } from './attributes.js';
+import type { TracedUninstallHandlerConfig } from './dto/TracedUninstallHandlerConfig.js';
+import { traceCallback } from './traceCallback.js';
+
+/**
+ * {@link UninstallController} that records each uninstall callback as an
+ * OpenTelemetry `bigcommerce.uninstall` span carrying the store hash, outcome
+ * status, and error code (see {@link traceCallback}).
+ *
+ * @example
+ * export const GET = TracedUninstallController.create({ uninstallApp });
+ */
+export class TracedUninstallController extends UninstallController {
+  protected readonly tracer: Tracer;
+
+  protected constructor(config: TracedUninstallHandlerConfig) {
+    super(config);
+    this.tracer = config.tracer ?? otelTrace.getTracer(TRACER_NAME);
+  }
+
+  /**
+   * Factory method that returns a `(request: Request) => Promise<Response>`
+   * handler, usable as a Next.js route handler.
+   */
+  static override create(config: TracedUninstallHandlerConfig) {
+    const controller = new TracedUninstallController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Runs the uninstall flow inside an active `bigcommerce.uninstall` span and
+   * records the outcome on it.
+   */
+  protected override performUninstall(req: Request): Promise<UninstallResult> {
+    return traceCallback(this.tracer, SpanNames.uninstall, () => super.performUninstall(req));
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Name of the tracer used when none is configured.
+ */
+export const TRACER_NAME = 'bigcommerce-oauth-next';
+
+/**
+ * Span names emitted by the instrumentation.
+ */
+export const SpanNames = {
+  install: 'bigcommerce.install',
+  tokenExchange: 'bigcommerce.oauth.token_exchange',
+  load: 'bigcommerce.load',
+  uninstall: 'bigcommerce.uninstall',
+  removeUser: 'bigcommerce.remove_user',
+} as const;
+
+/**
+ * Span attribute keys emitted by the instrumentation.
+ */
+export const SpanAttributes = {
+  storeHash: 'bigcommerce.store_hash',
+  status: 'bigcommerce.install.status',
+  errorCode: 'bigcommerce.install.error_code',
+  scopeCount: 'bigcommerce.oauth.scope_count',
+  requestId: 'bigcommerce.request_id',
+  callbackStatus: 'bigcommerce.callback.status',
+  callbackErrorCode: 'bigcommerce.callback.error_code',
+} as const;
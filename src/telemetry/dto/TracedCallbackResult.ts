@@ -0,0 +1,27 @@
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+
+/**
+ * Outcome fields {@link traceCallback} records on a signed-payload callback
+ * span. The load, uninstall, and remove-user results all match this shape.
+ */
+export interface TracedCallbackResult {
+  /**
+   * Outcome status, e.g. `success` or `error`.
+   */
+  status: string;
+
+  /**
+   * Verified `stores/{hash}` context, when the result carries one.
+   */
+  context?: string;
+
+  /**
+   * Verified store hash, when the result carries one.
+   */
+  storeHash?: string;
+
+  /**
+   * Catalog code describing why the callback failed.
+   */
+  errorCode?: ErrorCode;
+}
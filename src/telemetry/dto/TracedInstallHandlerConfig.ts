@@ -0,0 +1,15 @@
+import type { Tracer } from '@opentelemetry/api';
+import type { InstallHandlerConfig } from '@/use-cases/install/controllers/dto/InstallHandlerConfig.js';
+
+/**
+ * Configuration for the {@link TracedInstallController}: everything an
+ * {@link InstallHandlerConfig} accepts, plus the tracer to record spans with.
+ */
+export interface TracedInstallHandlerConfig extends InstallHandlerConfig {
+  /**
+   * Tracer used for the install and token exchange spans. Defaults to the
+   * global tracer named `bigcommerce-oauth-next`, which is a no-op until an
+   * OpenTelemetry SDK is registered.
+   */
+  tracer?: Tracer;
+}
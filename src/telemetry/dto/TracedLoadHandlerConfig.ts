@@ -0,0 +1,15 @@
+import type { Tracer } from '@opentelemetry/api';
+import type { LoadHandlerConfig } from '@/use-cases/load/controllers/dto/LoadHandlerConfig.js';
+
+/**
+ * Configuration for the {@link TracedLoadController}: everything a
+ * {@link LoadHandlerConfig} accepts, plus the tracer to record spans with.
+ */
+export interface TracedLoadHandlerConfig extends LoadHandlerConfig {
+  /**
+   * Tracer used for the `bigcommerce.load` span. Defaults to the global
+   * tracer named `bigcommerce-oauth-next`, which is a no-op until an
+   * OpenTelemetry SDK is registered.
+   */
+  tracer?: Tracer;
+}
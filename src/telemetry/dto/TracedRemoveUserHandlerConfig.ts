@@ -0,0 +1,15 @@
+import type { Tracer } from '@opentelemetry/api';
+import type { RemoveUserHandlerConfig } from '@/use-cases/remove-user/controllers/dto/RemoveUserHandlerConfig.js';
+
+/**
+ * Configuration for the {@link TracedRemoveUserController}: everything a
+ * {@link RemoveUserHandlerConfig} accepts, plus the tracer to record spans with.
+ */
+export interface TracedRemoveUserHandlerConfig extends RemoveUserHandlerConfig {
+  /**
+   * Tracer used for the `bigcommerce.remove_user` span. Defaults to the global
+   * tracer named `bigcommerce-oauth-next`, which is a no-op until an
+   * OpenTelemetry SDK is registered.
+   */
+  tracer?: Tracer;
+}
@@ -0,0 +1,15 @@
+import type { Tracer } from '@opentelemetry/api';
+import type { UninstallHandlerConfig } from '@/use-cases/uninstall/controllers/dto/UninstallHandlerConfig.js';
+
+/**
+ * Configuration for the {@link TracedUninstallController}: everything a
+ * {@link UninstallHandlerConfig} accepts, plus the tracer to record spans with.
+ */
+export interface TracedUninstallHandlerConfig extends UninstallHandlerConfig {
+  /**
+   * Tracer used for the `bigcommerce.uninstall` span. Defaults to the global
+   * tracer named `bigcommerce-oauth-next`, which is a no-op until an
+   * OpenTelemetry SDK is registered.
+   */
+  tracer?: Tracer;
+}
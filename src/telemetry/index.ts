@@ -0,0 +1,13 @@
+export * from './TracedInstallController.js';
+export * from './TracedLoadController.js';
+export * from './TracedRemoveUserController.js';
+export * from './TracedUninstallController.js';
+export * from './TraceTokenExchange.js';
+export * from './attributes.js';
+export * from './traceCallback.js';
+
+export * from './dto/TracedCallbackResult.js';
+export * from './dto/TracedInstallHandlerConfig.js';
+export * from './dto/TracedLoadHandlerConfig.js';
+export * from './dto/TracedRemoveUserHandlerConfig.js';
+export * from './dto/TracedUninstallHandlerConfig.js';
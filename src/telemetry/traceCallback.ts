@@ -0,0 +1,52 @@
+import type { Tracer } from '@opentelemetry/api';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { StoreHash } from 'bigcommerce-oauth/value-objects';
+import { SpanAttributes } from './attributes.js';
+import type { TracedCallbackResult } from './dto/TracedCallbackResult.js';
+
+/**
+ * Runs a signed-payload callback inside an active span and records its
+ * outcome on it: the store hash once the payload is verified, the outcome
+ * status, and the error code on failure. Shared by the traced load,
+ * uninstall, and remove-user controllers.
+ *
+ * @param tracer Tracer to record the span with
+ * @param name Span name, one of {@link SpanNames}
+ * @param run Callback flow returning a normalized result
+ * @returns The result of `run`, unchanged
+ */
+export function traceCallback<T extends TracedCallbackResult>(
+  tracer: Tracer,
+  name: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  return tracer.startActiveSpan(name, async (span) => {
+    try {
+      const result = await run();
+      const storeHash = result.storeHash ?? toStoreHash(result.context);
+
+      if (storeHash) {
+        span.setAttribute(SpanAttributes.storeHash, storeHash);
+      }
+
+      span.setAttribute(SpanAttributes.callbackStatus, result.status);
+
+      if (result.errorCode) {
+        span.setAttribute(SpanAttributes.callbackErrorCode, result.errorCode);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: result.errorCode });
+      }
+
+      return result;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+function toStoreHash(context: string | undefined): string | undefined {
+  try {
+    return context ? StoreHash.fromJWTSub(context).toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,148 @@
+import type { InstallHandlerConfig } from './dto/InstallHandlerConfig.js';
+import type { InstallRequest } from './dto/InstallRequest.js';
+import type { InstallResult } from './dto/InstallResult.js';
+import { InstallFlow } from './InstallFlow.js';
+import { renderInstallResultPage } from './presenters/renderInstallResultPage.js';
+
+/**
+ * Framework-agnostic install callback handler: takes a standard Web Fetch
+ * `Request` and returns a standard `Response`.
+ *
+ * It runs the shared {@link InstallFlow} and builds a redirect, JSON, or
+ * HTML response depending on `responseMode`, using only the Fetch API. It
+ * does not depend on `next`, so the same handler serves edge workers and
+ * other Fetch-based runtimes directly, and Hono or Express through
+ * `toHonoHandler` and `toExpressHandler`. The Next.js
+ * {@link InstallController} is a thin wrapper around it.
+ *
+ * Consumers should obtain a handler using the static
+ * {@link FetchInstallController.create} method.
+ *
+ * Subclasses may override protected methods to customize error mapping,
+ * parameter extraction, or redirect behavior.
+ */
+export class FetchInstallController extends InstallFlow {
+  /**
+   * Factory method that returns a `(request: Request) => Promise<Response>`
+   * handler.
+   *
+   * @example
+   * const handleInstall = FetchInstallController.create({
+   *   installApp,
+   *   redirectUri: env.BIGCOMMERCE_REDIRECT_URI,
+   * });
+   *
+   * export default {
+   *   fetch: (request: Request) => handleInstall(request),
+   * };
+   */
+  static create(config: InstallHandlerConfig) {
+    const controller = new FetchInstallController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Handles an install callback.
+   *
+   * The controller:
+   * - executes the installation flow,
+   * - determines whether it succeeded or failed,
+   * - builds a response for the configured `responseMode`,
+   * - establishes the session cookie on success, when configured.
+   *
+   * @param request Incoming request
+   * @returns A `Response` redirecting to the success or error view, or
+   *          describing the outcome as JSON or HTML
+   */
+  async handle(request: InstallRequest): Promise<Response> {
+    const outcome = await this.performInstall(request);
+    const response = this.buildResponse(request, outcome);
+    await this.establishSession(response, outcome);
+    return response;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Protected helper methods — intended for subclass extension only
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Builds the response for the configured `responseMode`.
+   *
+   * @param request The original incoming request
+   * @param outcome The normalized result of executing the installation flow
+   * @returns A redirect, JSON, or HTML `Response`
+   */
+  protected buildResponse(request: InstallRequest, outcome: InstallResult): Response {
+    switch (this.responseMode) {
+      case 'json':
+        return this.buildJsonResponse(outcome);
+      case 'html':
+        return this.buildHtmlResponse(outcome);
+      default:
+        return this.buildRedirectResponse(request, outcome);
+    }
+  }
+
+  /**
+   * Returns the {@link InstallResult} as JSON. The response is marked
+   * `no-store`, since it can carry the installing user's email.
+   *
+   * @param outcome The normalized result of executing the installation flow
+   * @returns A JSON `Response`
+   */
+  protected buildJsonResponse(outcome: InstallResult): Response {
+    return new Response(JSON.stringify(outcome), {
+      status: this.mapResultToStatus(outcome),
+      headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+    });
+  }
+
+  /**
+   * Renders a minimal self-contained result page with
+   * {@link renderInstallResultPage}.
+   *
+   * @param outcome The normalized result of executing the installation flow
+   * @returns An HTML `Response`
+   */
+  protected buildHtmlResponse(outcome: InstallResult): Response {
+    return new Response(renderInstallResultPage(outcome), {
+      status: this.mapResultToStatus(outcome),
+      headers: { 'content-type': 'text/html; charset=utf-8', 'cache-control': 'no-store' },
+    });
+  }
+
+  /**
+   * Builds a `307` redirect pointing to the appropriate success or error view
+   * based on the result of the installation process (see
+   * {@link buildRedirectUrl}).
+   *
+   * The headers stay mutable (unlike `Response.redirect`), so the session
+   * cookie can still be added.
+   *
+   * @param request The original incoming request
+   * @param outcome The normalized result of executing the installation flow
+   * @returns A `Response` containing an absolute redirect URL
+   */
+  protected buildRedirectResponse(request: InstallRequest, outcome: InstallResult): Response {
+    return new Response(null, {
+      status: 307,
+      headers: { location: this.buildRedirectUrl(request, outcome).toString() },
+    });
+  }
+
+  /**
+   * Sets the encrypted session cookie on a successful install so that later
+   * requests can be tied to the store and user without trusting the
+   * `context` query parameter. Does nothing when no session is configured.
+   *
+   * @param response The response about to be returned
+   * @param outcome The normalized result of executing the installation flow
+   */
+  protected async establishSession(response: Response, outcome: InstallResult) {
+    const identity = this.getSessionIdentity(outcome);
+
+    if (identity && this.session) {
+      response.headers.append('set-cookie', await this.session.serialize(identity));
+    }
+  }
+}
@@ -0,0 +1,420 @@
+import { BigCommerceTokenExchangeError } from 'bigcommerce-oauth/gateways/BigCommerce';
+import type { InstallAppUseCase } from 'bigcommerce-oauth/use-cases/install';
+import { InvalidStoreContextError, StoreHash } from 'bigcommerce-oauth/value-objects';
+import { NoopLogger } from '@/logging/NoopLogger.js';
+import { RedactingLogger } from '@/logging/RedactingLogger.js';
+import type { Logger } from '@/logging/dto/Logger.js';
+import type { SessionIdentity } from '@/session/SessionCookie.js';
+import { SessionCookie } from '@/session/SessionCookie.js';
+import type { InstallGuard } from '@/use-cases/install/guard/InstallGuard.js';
+import { ErrorCatalog } from '@/use-cases/shared/errors/ErrorCatalog.js';
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import type { TrustedProxyConfig } from '@/use-cases/shared/http/dto/TrustedProxyConfig.js';
+import { resolveBaseUrl } from '@/use-cases/shared/http/resolveBaseUrl.js';
+import type { InstallHandlerConfig } from './dto/InstallHandlerConfig.js';
+import type { InstallHooks } from './dto/InstallHooks.js';
+import type { InstallRequest } from './dto/InstallRequest.js';
+import type { InstallResponseMode } from './dto/InstallResponseMode.js';
+import type { InstallResult } from './dto/InstallResult.js';
+import type { InstallTrace } from './dto/InstallTrace.js';
+import { InsufficientScopeError } from './errors/InsufficientScopeError.js';
+import { MissingOAuthParamsError } from './errors/MissingOAuthParamsError.js';
+import { normalizeTokenExchangeError } from './errors/normalizeTokenExchangeError.js';
+
+/**
+ * Framework-neutral core of the install callback, shared by the App Router
+ * {@link InstallController} and the Pages Router {@link PagesInstallController}.
+ *
+ * It extracts and validates the OAuth parameters from an
+ * {@link InstallRequest}, runs the guard and scope checks, invokes the
+ * {@link InstallAppUseCase}, reports the outcome to the logger and hooks, and
+ * maps failures to catalog error codes. Adapters only translate their
+ * framework's request into an {@link InstallRequest} and turn the resulting
+ * {@link InstallResult} into a response.
+ *
+ * Subclasses may override protected methods to customize error mapping,
+ * parameter extraction, or redirect behavior.
+ */
+export abstract class InstallFlow {
+  /**
+   * The use case responsible for performing the BigCommerce installation
+   * logic (OAuth exchange, store persistence, etc.).
+   */
+  protected readonly installApp: InstallAppUseCase;
+
+  /**
+   * The redirect URI registered with BigCommerce. Forwarded to the use case
+   * as part of the OAuth code exchange parameters.
+   */
+  protected readonly redirectUri: string;
+
+  /**
+   * Application-relative path the controller redirects to after successful
+   * installation. A `status=success` query parameter is always appended.
+   */
+  protected readonly successPath: string;
+
+  /**
+   * Application-relative path the controller redirects to when installation
+   * fails. A `status=error` and an error code are appended as query params.
+   */
+  protected readonly errorPath: string;
+
+  /**
+   * How the callback is answered: redirect, JSON, or an HTML page.
+   */
+  protected readonly responseMode: InstallResponseMode;
+
+  /**
+   * Session cookie written after a successful install, when configured.
+   */
+  protected readonly session?: SessionCookie;
+
+  /**
+   * Replay and forgery protection applied before the code exchange, when
+   * configured.
+   */
+  protected readonly installGuard?: InstallGuard;
+
+  /**
+   * Scopes every install must grant. Empty when no check is configured.
+   */
+  protected readonly requiredScopes: string[];
+
+  /**
+   * Redacting logger for install lifecycle entries.
+   */
+  protected readonly logger: Logger;
+
+  /**
+   * Lifecycle callbacks. Empty when none are configured.
+   */
+  protected readonly hooks: InstallHooks;
+
+  /**
+   * Public base URL or host allow-list used to build redirect URLs.
+   */
+  protected readonly trustedProxy: TrustedProxyConfig;
+
+  /**
+   * Protected constructor ensures that the flow is only instantiated through
+   * an adapter's factory method (e.g. {@link InstallController.create}) or by
+   * subclasses. This enforces a controlled instantiation pattern.
+   */
+  protected constructor(config: InstallHandlerConfig) {
+    this.installApp = config.installApp;
+    this.redirectUri = config.redirectUri;
+    this.successPath = config.successPath ?? '/auth/result';
+    this.errorPath = config.errorPath ?? '/auth/result';
+    this.responseMode = config.responseMode ?? 'redirect';
+    this.session = config.session ? new SessionCookie(config.session) : undefined;
+    this.installGuard = config.installGuard;
+    this.requiredScopes = config.requiredScopes ?? [];
+    this.logger = config.logger ? new RedactingLogger(config.logger) : new NoopLogger();
+    this.hooks = config.hooks ?? {};
+    this.trustedProxy = {
+      publicBaseUrl: config.publicBaseUrl,
+      allowedHosts: config.allowedHosts,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Protected helper methods — intended for subclass extension only
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Executes the installation use case and returns a normalized result object.
+   * No framework-specific details are leaked to the use case.
+   *
+   * Logs and reports the start and outcome of the install through the
+   * configured logger and hooks.
+   *
+   * @param req Incoming request
+   * @param trace Correlation data for this request
+   * @returns An {@link InstallResult} describing success or failure
+   */
+  protected async performInstall(
+    req: InstallRequest,
+    trace: InstallTrace = this.startTrace(req),
+  ): Promise<InstallResult> {
+    let grantedScopes: string[] | undefined;
+
+    await this.notifyStarted(trace);
+
+    try {
+      const params = this.getOAuthParams(req);
+      grantedScopes = this.parseScopes(params.scope);
+
+      await this.installGuard?.verify(params, new URL(req.url));
+
+      this.assertRequiredScopes(grantedScopes);
+
+      const authSession = await this.installApp.execute(
+        { ...params, redirectUri: this.redirectUri },
+        {},
+      );
+
+      await this.notifySucceeded(trace, grantedScopes);
+
+      return {
+        status: 'success',
+        context: params.context,
+        user: { id: authSession.user.id, email: authSession.user.email },
+        grantedScopes,
+      };
+    } catch (err) {
+      const error = this.normalizeError(err);
+      const errorCode = this.mapErrorToCode(error);
+      await this.notifyFailed(trace, errorCode, error);
+
+      return {
+        status: 'error',
+        errorCode,
+        ...(grantedScopes ? { grantedScopes } : {}),
+        ...(error instanceof InsufficientScopeError ? { missingScopes: error.missingScopes } : {}),
+      };
+    }
+  }
+
+  /**
+   * Captures the correlation data for a request: the `x-request-id` header
+   * (or a generated id), the store hash when `context` is well-formed, and
+   * the start time.
+   *
+   * @param req Incoming request
+   * @returns The {@link InstallTrace} passed to logging and hooks
+   */
+  protected startTrace(req: InstallRequest): InstallTrace {
+    const context = new URL(req.url).searchParams.get('context') ?? '';
+    let storeHash: string | undefined;
+
+    try {
+      storeHash = StoreHash.fromJWTSub(context).toString();
+    } catch {
+      storeHash = undefined;
+    }
+
+    return {
+      requestId: req.headers.get('x-request-id') ?? globalThis.crypto.randomUUID(),
+      storeHash,
+      startedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Logs `install.started` and invokes the `onInstallStarted` hook.
+   */
+  protected async notifyStarted(trace: InstallTrace) {
+    const event = { requestId: trace.requestId, storeHash: trace.storeHash };
+
+    this.logger.info('install.started', { ...event });
+    await this.runHook('onInstallStarted', trace, () => this.hooks.onInstallStarted?.(event));
+  }
+
+  /**
+   * Logs `install.succeeded` and invokes the `onInstallSucceeded` hook.
+   */
+  protected async notifySucceeded(trace: InstallTrace, grantedScopes: string[]) {
+    const event = {
+      requestId: trace.requestId,
+      storeHash: trace.storeHash,
+      durationMs: Date.now() - trace.startedAt,
+      grantedScopes,
+    };
+
+    this.logger.info('install.succeeded', { ...event });
+    await this.runHook('onInstallSucceeded', trace, () => this.hooks.onInstallSucceeded?.(event));
+  }
+
+  /**
+   * Logs `install.failed` with the redacted error and invokes the
+   * `onInstallFailed` hook.
+   */
+  protected async notifyFailed(trace: InstallTrace, errorCode: string, error: unknown) {
+    const event = {
+      requestId: trace.requestId,
+      storeHash: trace.storeHash,
+      errorCode,
+      durationMs: Date.now() - trace.startedAt,
+      error,
+    };
+
+    this.logger.error('install.failed', { ...event });
+    await this.runHook('onInstallFailed', trace, () => this.hooks.onInstallFailed?.(event));
+  }
+
+  /**
+   * Runs a hook, logging and swallowing anything it throws so observability
+   * code cannot fail the install.
+   */
+  protected async runHook(
+    hook: keyof InstallHooks,
+    trace: InstallTrace,
+    run: () => void | Promise<void>,
+  ) {
+    try {
+      await run();
+    } catch (error) {
+      this.logger.warn('install.hook_failed', { requestId: trace.requestId, hook, error });
+    }
+  }
+
+  /**
+   * Extracts and validates OAuth parameters from the request.
+   * Throws a {@link MissingOAuthParamsError} if required values are absent.
+   *
+   * @param req Incoming request
+   * @returns Normalized OAuth parameters used by the use case
+   */
+  protected getOAuthParams(req: InstallRequest) {
+    const url = new URL(req.url);
+    const code = url.searchParams.get('code') ?? '';
+    const context = url.searchParams.get('context') ?? '';
+    const scope = url.searchParams.get('scope') ?? '';
+
+    if (!code || !context) {
+      throw new MissingOAuthParamsError();
+    }
+
+    return { code, context, scope };
+  }
+
+  /**
+   * Splits BigCommerce's space-separated `scope` parameter into a list.
+   *
+   * @param scope Raw `scope` query parameter
+   * @returns The granted scopes, without empty entries
+   */
+  protected parseScopes(scope: string): string[] {
+    return scope.split(/\s+/).filter(Boolean);
+  }
+
+  /**
+   * Ensures every configured required scope was granted. A modify scope
+   * (e.g. `store_v2_products`) also satisfies its read-only counterpart
+   * (`store_v2_products_read_only`).
+   *
+   * @param grantedScopes Scopes parsed from the callback
+   * @throws {InsufficientScopeError} If any required scope is missing
+   */
+  protected assertRequiredScopes(grantedScopes: string[]) {
+    const granted = new Set(grantedScopes);
+    const missingScopes = this.requiredScopes.filter(
+      (scope) => !granted.has(scope) && !granted.has(scope.replace(/_read_only$/, '')),
+    );
+
+    if (missingScopes.length > 0) {
+      throw new InsufficientScopeError(missingScopes);
+    }
+  }
+
+  /**
+   * Translates gateway and network failures from the token exchange into
+   * catalog errors (see {@link normalizeTokenExchangeError}), so hooks and
+   * logs receive a typed error with the original kept as `cause`.
+   *
+   * @param err Any thrown error
+   * @returns A catalog error, or `err` itself
+   */
+  protected normalizeError(err: unknown): unknown {
+    return normalizeTokenExchangeError(err);
+  }
+
+  /**
+   * Maps internal or framework errors to stable {@link ErrorCode}s that can be
+   * appended to the redirect URL or used to drive UI messaging. Designed to be
+   * simple, predictable, and overrideable.
+   *
+   * @param err Any thrown error, after {@link normalizeError}
+   * @returns A code from the error catalog
+   */
+  protected mapErrorToCode(err: unknown): ErrorCode {
+    if (err instanceof OAuthCallbackError) return err.code;
+    if (err instanceof BigCommerceTokenExchangeError) return 'token_exchange_failed';
+    if (err instanceof InvalidStoreContextError) return 'invalid_context';
+    return 'unknown';
+  }
+
+  /**
+   * Determines the publicly accessible base URL for the incoming request.
+   *
+   * When the application is running behind a reverse proxy or tunneling service
+   * (e.g., ngrok, Vercel, load balancers), Next.js will internally rewrite the
+   * request URL to use the local development host (e.g., `localhost:3000`).
+   *
+   * BigCommerce, however, accesses the application through the *public* domain,
+   * and redirect responses must use that domain to remain valid.
+   *
+   * Delegates to {@link resolveBaseUrl}. Forwarded headers are only trusted
+   * for hosts on `allowedHosts`; otherwise the configured `publicBaseUrl` or
+   * the origin of `redirectUri` is used, so a spoofed header can never turn
+   * the callback into an open redirect.
+   *
+   * @param req Incoming request
+   * @returns The fully qualified base URL representing the public-facing domain
+   */
+  protected getBaseUrl(req: InstallRequest): string {
+    return resolveBaseUrl(req.headers, this.trustedProxy, this.redirectUri);
+  }
+
+  /**
+   * Maps an install outcome to the HTTP status used by the JSON and HTML
+   * modes: `200` on success, otherwise the status listed in the
+   * {@link ErrorCatalog} for the error code.
+   *
+   * @param outcome The normalized result of executing the installation flow
+   * @returns An HTTP status code
+   */
+  protected mapResultToStatus(outcome: InstallResult): number {
+    return outcome.status === 'success' ? 200 : ErrorCatalog[outcome.errorCode ?? 'unknown'].status;
+  }
+
+  /**
+   * Builds the absolute URL of the success or error view for an outcome.
+   *
+   * This method:
+   * - resolves the correct public-facing base URL using {@link getBaseUrl},
+   *   ensuring redirect URLs remain valid when the app is behind ngrok or other proxies,
+   * - selects either the configured `successPath` or `errorPath`,
+   * - appends normalized installation outcome data as query parameters.
+   *
+   * The generated URL is fully qualified and safe for use by external
+   * clients such as the BigCommerce control panel, which requires absolute URLs.
+   *
+   * @param req Incoming request
+   * @param outcome The normalized result of executing the installation flow
+   * @returns The redirect target
+   */
+  protected buildRedirectUrl(req: InstallRequest, outcome: InstallResult): URL {
+    const baseUrl = this.getBaseUrl(req);
+    const targetPath = outcome.status === 'success' ? this.successPath : this.errorPath;
+
+    const search = new URLSearchParams({
+      status: outcome.status,
+      ...(outcome.context ? { context: outcome.context } : {}),
+      ...(outcome.errorCode ? { code: outcome.errorCode } : {}),
+      ...(outcome.missingScopes ? { missing_scopes: outcome.missingScopes.join(' ') } : {}),
+    });
+
+    return new URL(`${targetPath}?${search.toString()}`, baseUrl);
+  }
+
+  /**
+   * Returns the identity to store in the session cookie after an install,
+   * or `undefined` when no session is configured or the install failed.
+   *
+   * @param outcome The normalized result of executing the installation flow
+   */
+  protected getSessionIdentity(outcome: InstallResult): SessionIdentity | undefined {
+    if (!this.session || outcome.status !== 'success' || !outcome.context || !outcome.user) {
+      return undefined;
+    }
+
+    return {
+      storeHash: StoreHash.fromJWTSub(outcome.context).toString(),
+      userId: outcome.user.id,
+      email: outcome.user.email,
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { UntrustedHostError } from '@/use-cases/shared/http/errors/UntrustedHostError.js';
+import { isValidHost } from '@/use-cases/shared/http/resolveBaseUrl.js';
+import { toWebHeaders } from '@/use-cases/shared/http/toWebHeaders.js';
+import type { InstallHandlerConfig } from './dto/InstallHandlerConfig.js';
+import type { InstallRequest } from './dto/InstallRequest.js';
+import type { InstallResult } from './dto/InstallResult.js';
+import { InstallFlow } from './InstallFlow.js';
+import { renderInstallResultPage } from './presenters/renderInstallResultPage.js';
+
+/**
+ * Pages Router counterpart of {@link InstallController}: adapts a
+ * `pages/api` install callback into a call to the install use case.
+ *
+ * The install flow itself — parameter extraction, guard and scope checks,
+ * the use case call, logging, hooks, and error mapping — is shared through
+ * {@link InstallFlow}, so both routers behave identically. This adapter only
+ * converts the {@link NextApiRequest} into an {@link InstallRequest} and
+ * writes the redirect, JSON, or HTML response to the {@link NextApiResponse}.
+ *
+ * Consumers should obtain an API route handler using the static
+ * {@link PagesInstallController.create} method.
+ *
+ * Subclasses may override protected methods to customize error mapping,
+ * parameter extraction, or redirect behavior.
+ */
+export class PagesInstallController extends InstallFlow {
+  /**
+   * Factory method that returns a Pages Router API route handler.
+   *
+   * @example
+   * // pages/api/auth/index.ts
+   * export default PagesInstallController.create({
+   *   installApp,
+   *   redirectUri: process.env.BIGCOMMERCE_REDIRECT_URI!,
+   * });
+   */
+  static create(config: InstallHandlerConfig) {
+    const controller = new PagesInstallController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Entrypoint used by Next.js for `pages/api` requests.
+   *
+   * Runs the installation flow, establishes the session cookie on success
+   * when configured, and answers with a response for the configured
+   * `responseMode`. A request with a malformed `Host` header is answered
+   * with `untrusted_host` without running the flow.
+   *
+   * @param req Incoming API route request
+   * @param res API route response
+   */
+  async handle(req: NextApiRequest, res: NextApiResponse): Promise<void> {
+    let request: InstallRequest;
+
+    try {
+      request = this.toInstallRequest(req);
+    } catch (err) {
+      if (!(err instanceof UntrustedHostError)) throw err;
+
+      // Redirect targets never come from the rejected host (see getBaseUrl)
+      const fallback = { url: 'http://localhost/', headers: toWebHeaders(req.headers) };
+      this.sendResponse(fallback, res, { status: 'error', errorCode: err.code });
+      return;
+    }
+
+    const outcome = await this.performInstall(request);
+
+    await this.establishSession(res, outcome);
+    this.sendResponse(request, res, outcome);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Protected helper methods — intended for subclass extension only
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Converts a Node.js request into the {@link InstallRequest} read by the
+   * install flow. The URL is resolved against the `host` header only to make
+   * it absolute; redirect targets are still derived through
+   * {@link getBaseUrl}, which ignores untrusted hosts. A request target that
+   * cannot be parsed is read as having no query parameters, so the flow
+   * reports `missing_params`.
+   *
+   * @param req Incoming API route request
+   * @returns The request URL and headers
+   *
+   * @throws {UntrustedHostError} If the `host` header is malformed.
+   */
+  protected toInstallRequest(req: NextApiRequest): InstallRequest {
+    const headers = toWebHeaders(req.headers);
+    const host = headers.get('host') ?? 'localhost';
+
+    if (!isValidHost(host)) {
+      throw new UntrustedHostError(host);
+    }
+
+    let url: URL;
+
+    try {
+      url = new URL(req.url ?? '/', `http://${host}`);
+    } catch {
+      url = new URL(`http://${host}/`);
+    }
+
+    return { url: url.toString(), headers };
+  }
+
+  /**
+   * Writes the response for the configured `responseMode`.
+   *
+   * @param request The request the flow ran against
+   * @param res API route response
+   * @param outcome The normalized result of executing the installation flow
+   */
+  protected sendResponse(request: InstallRequest, res: NextApiResponse, outcome: InstallResult) {
+    switch (this.responseMode) {
+      case 'json':
+        res.setHeader('cache-control', 'no-store');
+        res.status(this.mapResultToStatus(outcome)).json(outcome);
+        return;
+      case 'html':
+        res.setHeader('content-type', 'text/html; charset=utf-8');
+        res.setHeader('cache-control', 'no-store');
+        res.status(this.mapResultToStatus(outcome)).send(renderInstallResultPage(outcome));
+        return;
+      default:
+        res.redirect(307, this.buildRedirectUrl(request, outcome).toString());
+    }
+  }
+
+  /**
+   * Appends the encrypted session cookie to the response on a successful
+   * install. Does nothing when no session is configured.
+   *
+   * @param res API route response
+   * @param outcome The normalized result of executing the installation flow
+   */
+  protected async establishSession(res: NextApiResponse, outcome: InstallResult) {
+    const identity = this.getSessionIdentity(outcome);
+
+    if (identity && this.session) {
+      res.appendHeader('set-cookie', await this.session.serialize(identity));
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Emitted by the {@link InstallController} when an install callback fails.
+ */
+export interface InstallFailedEvent {
+  /**
+   * Correlation id shared with the matching {@link InstallStartedEvent}.
+   */
+  requestId: string;
+
+  /**
+   * Store hash parsed from the `context` parameter, when it is well-formed.
+   */
+  storeHash?: string;
+
+  /**
+   * Stable error code, as appended to the error redirect.
+   */
+  errorCode: string;
+
+  /**
+   * Milliseconds elapsed since the callback arrived.
+   */
+  durationMs: number;
+
+  /**
+   * The error that caused the failure. Unlike log output it is not redacted,
+   * so pass it through `redact` before writing it anywhere.
+   */
+  error: unknown;
+}
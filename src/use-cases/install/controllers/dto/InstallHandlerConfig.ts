@@ -1,4 +1,10 @@
-import { InstallAppUseCase } from 'bigcommerce-oauth';
+import type { InstallAppUseCase } from 'bigcommerce-oauth';
+import type { Logger } from '@/logging/dto/Logger.js';
+import type { SessionConfig } from '@/session/dto/SessionConfig.js';
+import type { InstallGuard } from '@/use-cases/install/guard/InstallGuard.js';
+import type { TrustedProxyConfig } from '@/use-cases/shared/http/dto/TrustedProxyConfig.js';
+import type { InstallHooks } from './InstallHooks.js';
+import type { InstallResponseMode } from './InstallResponseMode.js';
 
 /**
  * Configuration object for constructing an {@link InstallController}.
@@ -11,9 +17,13 @@ import { InstallAppUseCase } from 'bigcommerce-oauth';
  * The controller itself is responsible only for:
  * - extracting request parameters,
  * - invoking the {@link InstallAppUseCase},
- * - preparing a redirect response to a success or error view.
+ * - preparing a redirect, JSON, or HTML response describing the outcome.
+ *
+ * Redirects go to {@link TrustedProxyConfig.publicBaseUrl}, or to a host on
+ * {@link TrustedProxyConfig.allowedHosts}; with neither configured they go to
+ * the origin of `redirectUri`, and forwarded headers are ignored.
  */
-export interface InstallHandlerConfig {
+export interface InstallHandlerConfig extends TrustedProxyConfig {
   /**
    * The use case responsible for performing the BigCommerce app installation.
    * The controller delegates all business logic to this use case.
@@ -44,4 +54,48 @@ export interface InstallHandlerConfig {
    * failure (e.g. `status=error` and `code=`).
    */
   errorPath?: string;
+
+  /**
+   * How the callback is answered: `"redirect"` (default) to `successPath` or
+   * `errorPath`, `"json"` with the {@link InstallResult} and a matching HTTP
+   * status, or `"html"` with a minimal self-contained result page.
+   * `successPath` and `errorPath` are only used in redirect mode.
+   */
+  responseMode?: InstallResponseMode;
+
+  /**
+   * Optional session configuration. When provided, a successful install sets
+   * an encrypted session cookie holding the store hash, user id, and email,
+   * readable later through `getSession`.
+   */
+  session?: SessionConfig;
+
+  /**
+   * Optional replay and forgery protection. When provided, every callback is
+   * checked by the guard (context format, one-time nonce, reused `code`)
+   * before the OAuth code is exchanged.
+   */
+  installGuard?: InstallGuard;
+
+  /**
+   * OAuth scopes the app cannot work without (e.g. `["store_v2_products"]`).
+   * When provided, callbacks whose granted `scope` does not include every
+   * entry fail with `insufficient_scope` before the code is exchanged. A
+   * modify scope also satisfies its `_read_only` counterpart.
+   */
+  requiredScopes?: string[];
+
+  /**
+   * Logger receiving `install.started`, `install.succeeded`, and
+   * `install.failed` entries. Fields are redacted before they reach it, so
+   * OAuth codes and tokens are never logged. Nothing is logged when omitted;
+   * pass a {@link JsonLinesLogger} for JSON lines on stdout.
+   */
+  logger?: Logger;
+
+  /**
+   * Optional callbacks invoked when an install starts, succeeds, or fails,
+   * each carrying the request id, store hash, and duration.
+   */
+  hooks?: InstallHooks;
 }
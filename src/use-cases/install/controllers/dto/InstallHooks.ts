@@ -0,0 +1,16 @@
+import type { InstallFailedEvent } from './InstallFailedEvent.js';
+import type { InstallStartedEvent } from './InstallStartedEvent.js';
+import type { InstallSucceededEvent } from './InstallSucceededEvent.js';
+
+/**
+ * Callbacks invoked by the {@link InstallController} at each stage of an
+ * install callback, e.g. to record metrics or report failures.
+ *
+ * Hooks are awaited in order. A hook that throws is logged and otherwise
+ * ignored, so observability code can never fail an install.
+ */
+export interface InstallHooks {
+  onInstallStarted?(event: InstallStartedEvent): void | Promise<void>;
+  onInstallSucceeded?(event: InstallSucceededEvent): void | Promise<void>;
+  onInstallFailed?(event: InstallFailedEvent): void | Promise<void>;
+}
@@ -0,0 +1,17 @@
+/**
+ * The parts of an incoming install callback the install flow reads.
+ *
+ * A `NextRequest` or Web `Request` satisfies this shape directly; the Pages
+ * Router adapter builds one from a `NextApiRequest`.
+ */
+export interface InstallRequest {
+  /**
+   * Absolute callback URL, including the OAuth query parameters.
+   */
+  url: string;
+
+  /**
+   * Request headers, used for the request id and forwarded-host checks.
+   */
+  headers: Headers;
+}
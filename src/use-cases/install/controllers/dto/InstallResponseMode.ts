@@ -0,0 +1,11 @@
+/**
+ * How the {@link InstallController} answers the install callback.
+ *
+ * - `"redirect"` — Redirect to `successPath` or `errorPath` with the outcome
+ *   in the query string (the default).
+ * - `"json"` — Return the {@link InstallResult} as JSON with a matching HTTP
+ *   status, for apps that render the install screen client-side.
+ * - `"html"` — Render a minimal self-contained result page, for apps that do
+ *   not scaffold `auth/result`.
+ */
+export type InstallResponseMode = 'redirect' | 'json' | 'html';
@@ -1,4 +1,5 @@
-import { InstallStatus } from './InstallStatus.js';
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import type { InstallStatus } from './InstallStatus.js';
 
 /**
  * Represents the normalized outcome of an installation request handled by
@@ -24,12 +25,36 @@ export interface InstallResult {
   context?: string;
 
   /**
-   * Optional machine-friendly identifier describing why the installation
-   * failed (e.g., `"missing_params"`, `"token_exchange_failed"`).
+   * The BigCommerce user who performed the install, taken from the token
+   * exchange response. Present only on success and used to establish the
+   * session; never appended to the redirect URL.
+   */
+  user?: {
+    /** BigCommerce user ID. */
+    id: number;
+    /** User's email address. */
+    email: string;
+  };
+
+  /**
+   * Optional catalog code describing why the installation failed (e.g.,
+   * `"missing_params"`, `"token_exchange_failed"`).
    *
    * This is provided only when `status` is `"error"` and is intended for
    * routing decisions, logging, or mapping to human-readable messages in
-   * the UI layer.
+   * the UI layer through `describeError`.
+   */
+  errorCode?: ErrorCode;
+
+  /**
+   * Scopes granted by the merchant, parsed from the callback's space-separated
+   * `scope` parameter. Present whenever the callback carried a scope.
+   */
+  grantedScopes?: string[];
+
+  /**
+   * Required scopes the merchant did not grant. Present only when
+   * `errorCode` is `"insufficient_scope"`.
    */
-  errorCode?: string;
+  missingScopes?: string[];
 }
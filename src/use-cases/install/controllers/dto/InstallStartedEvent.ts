@@ -0,0 +1,15 @@
+/**
+ * Emitted by the {@link InstallController} when an install callback arrives,
+ * before any validation or token exchange.
+ */
+export interface InstallStartedEvent {
+  /**
+   * Correlation id taken from the `x-request-id` header, or generated.
+   */
+  requestId: string;
+
+  /**
+   * Store hash parsed from the `context` parameter, when it is well-formed.
+   */
+  storeHash?: string;
+}
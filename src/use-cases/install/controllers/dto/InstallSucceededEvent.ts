@@ -0,0 +1,25 @@
+/**
+ * Emitted by the {@link InstallController} after the OAuth code has been
+ * exchanged successfully.
+ */
+export interface InstallSucceededEvent {
+  /**
+   * Correlation id shared with the matching {@link InstallStartedEvent}.
+   */
+  requestId: string;
+
+  /**
+   * Hash of the store that installed the app.
+   */
+  storeHash?: string;
+
+  /**
+   * Milliseconds elapsed since the callback arrived.
+   */
+  durationMs: number;
+
+  /**
+   * Scopes granted by the merchant.
+   */
+  grantedScopes: string[];
+}
@@ -0,0 +1,20 @@
+/**
+ * Per-request correlation data the {@link InstallController} threads through
+ * an install callback for logging and hooks.
+ */
+export interface InstallTrace {
+  /**
+   * Correlation id taken from the `x-request-id` header, or generated.
+   */
+  requestId: string;
+
+  /**
+   * Store hash parsed from the `context` parameter, when it is well-formed.
+   */
+  storeHash?: string;
+
+  /**
+   * `Date.now()` when the callback arrived.
+   */
+  startedAt: number;
+}
@@ -0,0 +1,15 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when BigCommerce answers the OAuth code exchange with `403`, meaning
+ * the app has been revoked or suspended.
+ *
+ * Reported as `app_revoked`.
+ */
+export class AppRevokedError extends OAuthCallbackError {
+  readonly code = 'app_revoked';
+
+  constructor(options?: ErrorOptions) {
+    super('BigCommerce no longer authorizes this app.', options);
+  }
+}
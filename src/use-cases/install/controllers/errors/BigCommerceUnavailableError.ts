@@ -0,0 +1,14 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when BigCommerce answers the OAuth code exchange with a `5xx` status.
+ *
+ * Reported as `bigcommerce_unavailable`.
+ */
+export class BigCommerceUnavailableError extends OAuthCallbackError {
+  readonly code = 'bigcommerce_unavailable';
+
+  constructor(options?: ErrorOptions) {
+    super('BigCommerce is unavailable.', options);
+  }
+}
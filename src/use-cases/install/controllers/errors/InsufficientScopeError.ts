@@ -0,0 +1,16 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when the scopes granted on an install callback do not cover the
+ * `requiredScopes` configured on the {@link InstallController}.
+ *
+ * Reported as `insufficient_scope`; {@link missingScopes} is forwarded to the
+ * result page.
+ */
+export class InsufficientScopeError extends OAuthCallbackError {
+  readonly code = 'insufficient_scope';
+
+  constructor(readonly missingScopes: string[]) {
+    super(`Insufficient OAuth scope: missing ${missingScopes.join(', ')}.`);
+  }
+}
@@ -0,0 +1,15 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when BigCommerce answers the OAuth code exchange with `401`, meaning
+ * the configured client ID or secret is wrong.
+ *
+ * Reported as `invalid_client_credentials`.
+ */
+export class InvalidClientCredentialsError extends OAuthCallbackError {
+  readonly code = 'invalid_client_credentials';
+
+  constructor(options?: ErrorOptions) {
+    super('BigCommerce rejected the app client ID or secret.', options);
+  }
+}
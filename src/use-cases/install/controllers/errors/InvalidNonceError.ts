@@ -0,0 +1,16 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown by the {@link InstallGuard} when nonce checking is enabled and the
+ * install callback carries no nonce, or one that was never issued, has
+ * expired, or was already consumed.
+ *
+ * Reported as `invalid_nonce`.
+ */
+export class InvalidNonceError extends OAuthCallbackError {
+  readonly code = 'invalid_nonce';
+
+  constructor() {
+    super('Install nonce is missing, unknown, or already used.');
+  }
+}
@@ -1,10 +1,16 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
 /**
  * Thrown when mandatory query parameters (`code`, `context`) are absent from
  * a BigCommerce OAuth callback.
  *
- * Controllers catch this and map it to **400 Bad Request**.
+ * Reported as `missing_params`. The install callback redirects to the error
+ * page rather than responding with an HTTP error; the catalog status (400)
+ * applies only when a controller returns the result directly.
  */
-export class MissingOAuthParamsError extends Error {
+export class MissingOAuthParamsError extends OAuthCallbackError {
+  readonly code = 'missing_params';
+
   constructor() {
     super('Missing OAuth parameters: `code` and `context` are required.');
   }
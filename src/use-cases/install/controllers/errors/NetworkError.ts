@@ -0,0 +1,15 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when the OAuth code exchange request fails before any response is
+ * received, e.g. on DNS or connection errors.
+ *
+ * Reported as `network_error`.
+ */
+export class NetworkError extends OAuthCallbackError {
+  readonly code = 'network_error';
+
+  constructor(options?: ErrorOptions) {
+    super('The OAuth code exchange could not reach BigCommerce.', options);
+  }
+}
@@ -0,0 +1,15 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when the OAuth code exchange request times out or is aborted before
+ * BigCommerce responds.
+ *
+ * Reported as `network_timeout`.
+ */
+export class NetworkTimeoutError extends OAuthCallbackError {
+  readonly code = 'network_timeout';
+
+  constructor(options?: ErrorOptions) {
+    super('The OAuth code exchange timed out.', options);
+  }
+}
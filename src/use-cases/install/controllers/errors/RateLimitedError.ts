@@ -0,0 +1,14 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when BigCommerce answers the OAuth code exchange with `429`.
+ *
+ * Reported as `rate_limited`.
+ */
+export class RateLimitedError extends OAuthCallbackError {
+  readonly code = 'rate_limited';
+
+  constructor(options?: ErrorOptions) {
+    super('BigCommerce rate-limited the OAuth code exchange.', options);
+  }
+}
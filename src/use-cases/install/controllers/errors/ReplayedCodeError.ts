@@ -0,0 +1,15 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown by the {@link InstallGuard} when an OAuth `code` reaches the install
+ * callback more than once within the replay window.
+ *
+ * Reported as `replayed_code`.
+ */
+export class ReplayedCodeError extends OAuthCallbackError {
+  readonly code = 'replayed_code';
+
+  constructor() {
+    super('OAuth code has already been used.');
+  }
+}
@@ -0,0 +1,16 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown when BigCommerce rejects the OAuth code exchange for a reason not
+ * covered by a more specific error, typically an expired or already-used
+ * code or a `redirect_uri` that does not match the app registration.
+ *
+ * Reported as `token_exchange_failed`.
+ */
+export class TokenExchangeFailedError extends OAuthCallbackError {
+  readonly code = 'token_exchange_failed';
+
+  constructor(options?: ErrorOptions) {
+    super('BigCommerce rejected the OAuth code exchange.', options);
+  }
+}
@@ -0,0 +1,51 @@
+import { BigCommerceTokenExchangeError } from 'bigcommerce-oauth/gateways/BigCommerce';
+import { AppRevokedError } from './AppRevokedError.js';
+import { BigCommerceUnavailableError } from './BigCommerceUnavailableError.js';
+import { InvalidClientCredentialsError } from './InvalidClientCredentialsError.js';
+import { NetworkError } from './NetworkError.js';
+import { NetworkTimeoutError } from './NetworkTimeoutError.js';
+import { RateLimitedError } from './RateLimitedError.js';
+import { TokenExchangeFailedError } from './TokenExchangeFailedError.js';
+
+/**
+ * Error codes Node's `fetch` (undici) attaches to `cause` on timeouts.
+ */
+const TIMEOUT_CAUSES = new Set(['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT']);
+
+/**
+ * Translates failures of the OAuth code exchange into catalog errors.
+ *
+ * - {@link BigCommerceTokenExchangeError} is classified by HTTP status.
+ * - Aborted or timed-out requests become {@link NetworkTimeoutError}.
+ * - Other `fetch` failures become {@link NetworkError}.
+ *
+ * The original error is kept as `cause`. Anything else is returned unchanged.
+ *
+ * @param err Error thrown by the install use case
+ * @returns A catalog error, or `err` itself
+ */
+export function normalizeTokenExchangeError(err: unknown): unknown {
+  if (err instanceof BigCommerceTokenExchangeError) {
+    const options = { cause: err };
+
+    if (err.status === 401) return new InvalidClientCredentialsError(options);
+    if (err.status === 403) return new AppRevokedError(options);
+    if (err.status === 429) return new RateLimitedError(options);
+    if (err.status >= 500) return new BigCommerceUnavailableError(options);
+    return new TokenExchangeFailedError(options);
+  }
+
+  if (err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError')) {
+    return new NetworkTimeoutError({ cause: err });
+  }
+
+  if (err instanceof TypeError && err.message === 'fetch failed') {
+    const causeCode = (err.cause as { code?: unknown } | undefined)?.code;
+
+    return typeof causeCode === 'string' && TIMEOUT_CAUSES.has(causeCode)
+      ? new NetworkTimeoutError({ cause: err })
+      : new NetworkError({ cause: err });
+  }
+
+  return err;
+}
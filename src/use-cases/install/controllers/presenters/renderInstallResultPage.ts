@@ -0,0 +1,62 @@
+import { describeError } from '@/use-cases/shared/errors/ErrorCatalog.js';
+import type { InstallResult } from '../dto/InstallResult.js';
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => ESCAPES[char] ?? char);
+}
+
+/**
+ * Renders a minimal, self-contained HTML page describing an install outcome.
+ *
+ * Used by the `"html"` response mode. The page has no scripts or external
+ * assets, so it renders inside the BigCommerce control panel iframe without
+ * any route or UI library in the app. Every dynamic value is escaped.
+ *
+ * @param outcome The normalized result of the installation flow
+ * @returns A complete HTML document
+ */
+export function renderInstallResultPage(outcome: InstallResult): string {
+  const isSuccess = outcome.status === 'success';
+  const error = isSuccess ? undefined : describeError(outcome.errorCode);
+
+  const title = isSuccess ? 'App installed' : 'Installation failed';
+  const body = isSuccess
+    ? '<p>The app is now connected to this BigCommerce store. You can open it from the Apps menu of the control panel.</p>'
+    : [
+        `<p>${escapeHtml(error?.message ?? '')}</p>`,
+        outcome.missingScopes?.length
+          ? `<p><strong>Permissions not granted:</strong> ${escapeHtml(outcome.missingScopes.join(', '))}</p>`
+          : '',
+        `<p class="code">Error code: <code>${escapeHtml(error?.code ?? 'unknown')}</code></p>`,
+      ].join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body{margin:0;padding:48px 24px;font-family:system-ui,-apple-system,"Segoe UI",Roboto,sans-serif;background:#f6f7fc;color:#313440}
+main{max-width:560px;margin:0 auto;padding:32px;background:#fff;border-radius:8px;box-shadow:0 1px 6px rgba(49,52,64,.15)}
+h1{margin:0 0 16px;font-size:24px;color:${isSuccess ? '#208831' : '#db3643'}}
+p{line-height:1.5}.code{color:#5e637a;font-size:14px}
+</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+${body}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,43 @@
+import type { InstallGuardStore } from './dto/InstallGuardStore.js';
+
+/**
+ * Process-local {@link InstallGuardStore} backed by a `Map` of expiry times.
+ *
+ * Suitable for development and single-instance deployments. Expired entries
+ * are swept lazily whenever the store is written to.
+ */
+export class InMemoryInstallGuardStore implements InstallGuardStore {
+  private readonly nonces = new Map<string, number>();
+  private readonly codes = new Map<string, number>();
+
+  saveNonce(nonce: string, ttlSeconds: number): Promise<void> {
+    this.sweep(this.nonces);
+    this.nonces.set(nonce, Date.now() + ttlSeconds * 1000);
+    return Promise.resolve();
+  }
+
+  consumeNonce(nonce: string): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    this.nonces.delete(nonce);
+    return Promise.resolve(expiresAt !== undefined && expiresAt > Date.now());
+  }
+
+  markCodeUsed(code: string, ttlSeconds: number): Promise<boolean> {
+    this.sweep(this.codes);
+
+    if (this.codes.has(code)) {
+      return Promise.resolve(false);
+    }
+
+    this.codes.set(code, Date.now() + ttlSeconds * 1000);
+    return Promise.resolve(true);
+  }
+
+  private sweep(entries: Map<string, number>) {
+    const now = Date.now();
+
+    for (const [key, expiresAt] of entries) {
+      if (expiresAt <= now) entries.delete(key);
+    }
+  }
+}
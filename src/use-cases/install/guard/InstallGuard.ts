@@ -0,0 +1,80 @@
+import { StoreHash } from 'bigcommerce-oauth/value-objects';
+import { InvalidNonceError } from '@/use-cases/install/controllers/errors/InvalidNonceError.js';
+import { ReplayedCodeError } from '@/use-cases/install/controllers/errors/ReplayedCodeError.js';
+import { encodeBase64Url } from '@/use-cases/shared/encoding/base64url.js';
+import type { InstallGuardConfig } from './dto/InstallGuardConfig.js';
+import type { InstallGuardStore } from './dto/InstallGuardStore.js';
+import { InMemoryInstallGuardStore } from './InMemoryInstallGuardStore.js';
+
+/**
+ * Opt-in replay and forgery protection for the install callback.
+ *
+ * Pass an instance to `InstallController.create({ installGuard })` to have
+ * every callback checked before the OAuth code is exchanged:
+ *
+ * 1. `context` must be in the `stores/{hash}` format.
+ * 2. When {@link InstallGuardConfig.requireNonce} is set, the callback must
+ *    carry a nonce previously issued by {@link issueNonce}; it is consumed on
+ *    first use.
+ * 3. The `code` must not have been seen within the replay window.
+ *
+ * The guard runs before the token exchange, so a replayed or forged callback
+ * never reaches BigCommerce with the app's client secret.
+ */
+export class InstallGuard {
+  protected readonly store: InstallGuardStore;
+  protected readonly replayWindowSeconds: number;
+  protected readonly requireNonce: boolean;
+  protected readonly nonceParam: string;
+  protected readonly nonceTtlSeconds: number;
+
+  constructor(config: InstallGuardConfig = {}) {
+    this.store = config.store ?? new InMemoryInstallGuardStore();
+    this.replayWindowSeconds = config.replayWindowSeconds ?? 600;
+    this.requireNonce = config.requireNonce ?? false;
+    this.nonceParam = config.nonceParam ?? 'state';
+    this.nonceTtlSeconds = config.nonceTtlSeconds ?? 600;
+  }
+
+  /**
+   * Issues a one-time nonce to forward to the install callback.
+   *
+   * @returns A random, URL-safe nonce valid for `nonceTtlSeconds`
+   */
+  async issueNonce(): Promise<string> {
+    const nonce = encodeBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+    await this.store.saveNonce(nonce, this.nonceTtlSeconds);
+    return nonce;
+  }
+
+  /**
+   * Checks an install callback before its code is exchanged.
+   *
+   * @param params OAuth parameters extracted from the callback
+   * @param url Full callback URL, used to read the nonce
+   *
+   * @throws {InvalidStoreContextError} If `context` is not `stores/{hash}`.
+   * @throws {InvalidNonceError} If a required nonce is missing or unusable.
+   * @throws {ReplayedCodeError} If the code was already used in the window.
+   */
+  async verify(params: { code: string; context: string }, url: URL): Promise<void> {
+    StoreHash.fromJWTSub(params.context);
+
+    if (this.requireNonce) {
+      const nonce = url.searchParams.get(this.nonceParam);
+
+      if (!nonce || !(await this.store.consumeNonce(nonce))) {
+        throw new InvalidNonceError();
+      }
+    }
+
+    // Only a digest of the code is stored, so a shared store never holds a
+    // usable authorization code.
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(params.code));
+    const codeDigest = encodeBase64Url(new Uint8Array(digest));
+
+    if (!(await this.store.markCodeUsed(codeDigest, this.replayWindowSeconds))) {
+      throw new ReplayedCodeError();
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import type { InstallGuardStore } from './InstallGuardStore.js';
+
+/**
+ * Configuration object for constructing an {@link InstallGuard}.
+ */
+export interface InstallGuardConfig {
+  /**
+   * Store holding issued nonces and used codes. Defaults to an
+   * {@link InMemoryInstallGuardStore}.
+   */
+  store?: InstallGuardStore;
+
+  /**
+   * How long a used `code` is remembered, in seconds. A second callback with
+   * the same code inside this window is rejected. Defaults to `600`.
+   */
+  replayWindowSeconds?: number;
+
+  /**
+   * Whether the callback must carry a nonce previously issued through
+   * {@link InstallGuard.issueNonce}. Enable this only when the install starts
+   * from a page you control and the nonce is forwarded to the callback.
+   * Defaults to `false`.
+   */
+  requireNonce?: boolean;
+
+  /**
+   * Query parameter the nonce is read from. Defaults to `"state"`.
+   */
+  nonceParam?: string;
+
+  /**
+   * Lifetime of an issued nonce, in seconds. Defaults to `600`.
+   */
+  nonceTtlSeconds?: number;
+}
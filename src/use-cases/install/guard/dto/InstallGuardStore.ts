@@ -0,0 +1,26 @@
+/**
+ * Persistence contract for the one-time values checked by {@link InstallGuard}.
+ *
+ * The default {@link InMemoryInstallGuardStore} only works for a single
+ * process. Deployments running several instances (serverless, multiple
+ * containers) should back this with a shared store such as Redis, using
+ * `SET NX EX` for {@link markCodeUsed} and `GETDEL` for {@link consumeNonce}.
+ */
+export interface InstallGuardStore {
+  /**
+   * Stores a freshly issued nonce for `ttlSeconds`.
+   */
+  saveNonce(nonce: string, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Removes a nonce and reports whether it existed and had not expired.
+   * A nonce must never be consumable twice.
+   */
+  consumeNonce(nonce: string): Promise<boolean>;
+
+  /**
+   * Records an OAuth `code` for `ttlSeconds` and reports whether this is the
+   * first time it has been seen. Returns `false` for a replayed code.
+   */
+  markCodeUsed(code: string, ttlSeconds: number): Promise<boolean>;
+}
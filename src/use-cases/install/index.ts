@@ -1,7 +1,38 @@
+export * from './controllers/FetchInstallController.js';
 export * from './controllers/InstallController.js';
+export * from './controllers/InstallFlow.js';
+export * from './controllers/PagesInstallController.js';
 
+export * from './controllers/dto/InstallFailedEvent.js';
 export * from './controllers/dto/InstallHandlerConfig.js';
+export * from './controllers/dto/InstallHooks.js';
+export * from './controllers/dto/InstallRequest.js';
+export * from './controllers/dto/InstallResponseMode.js';
 export * from './controllers/dto/InstallResult.js';
+export * from './controllers/dto/InstallStartedEvent.js';
 export * from './controllers/dto/InstallStatus.js';
+export * from './controllers/dto/InstallSucceededEvent.js';
+export * from './controllers/dto/InstallTrace.js';
 
+export * from './controllers/errors/AppRevokedError.js';
+export * from './controllers/errors/BigCommerceUnavailableError.js';
+export * from './controllers/errors/InsufficientScopeError.js';
+export * from './controllers/errors/InvalidClientCredentialsError.js';
+export * from './controllers/errors/InvalidNonceError.js';
 export * from './controllers/errors/MissingOAuthParamsError.js';
+export * from './controllers/errors/NetworkError.js';
+export * from './controllers/errors/NetworkTimeoutError.js';
+export * from './controllers/errors/RateLimitedError.js';
+export * from './controllers/errors/ReplayedCodeError.js';
+export * from './controllers/errors/TokenExchangeFailedError.js';
+export * from './controllers/errors/normalizeTokenExchangeError.js';
+
+export * from './controllers/presenters/renderInstallResultPage.js';
+
+export * from './guard/InstallGuard.js';
+export * from './guard/InMemoryInstallGuardStore.js';
+export * from './guard/dto/InstallGuardConfig.js';
+export * from './guard/dto/InstallGuardStore.js';
+
+export * from '../shared/errors/index.js';
+export * from '../shared/http/index.js';
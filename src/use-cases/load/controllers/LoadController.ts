@@ -0,0 +1,226 @@
+import type { LoadAppUseCase } from 'bigcommerce-oauth/use-cases/load';
+import { StoreHash } from 'bigcommerce-oauth/value-objects';
+import { SessionCookie } from '@/session/SessionCookie.js';
+import { SignedPayloadController } from '@/use-cases/shared/http/SignedPayloadController.js';
+import type { TrustedProxyConfig } from '@/use-cases/shared/http/dto/TrustedProxyConfig.js';
+import { UntrustedHostError } from '@/use-cases/shared/http/errors/UntrustedHostError.js';
+import { resolveBaseUrl } from '@/use-cases/shared/http/resolveBaseUrl.js';
+import type { LoadHandlerConfig } from './dto/LoadHandlerConfig.js';
+import type { LoadResult } from './dto/LoadResult.js';
+
+/**
+ * Controller responsible for adapting an incoming BigCommerce **load**
+ * callback into a call to the {@link LoadAppUseCase}, and for producing the
+ * appropriate redirect response.
+ *
+ * BigCommerce hits the load callback every time a merchant opens the app in
+ * the control panel, passing a `signed_payload_jwt` query parameter. This
+ * controller:
+ * - extracts the signed payload from the request,
+ * - invokes the load use case to verify and decode it,
+ * - normalizes the result into a framework-agnostic DTO,
+ * - redirects into the app with the verified store context, or to an error view.
+ *
+ * It works with standard Web Fetch `Request` and `Response` objects only, so
+ * the handler serves Next.js route handlers and other Fetch-based runtimes
+ * without depending on `next`.
+ *
+ * Consumers should obtain a handler using the static
+ * {@link LoadController.create} method.
+ *
+ * Subclasses may override protected methods to customize error mapping,
+ * parameter extraction, or redirect behavior.
+ */
+export class LoadController extends SignedPayloadController {
+  /**
+   * The use case responsible for verifying and decoding the signed payload.
+   */
+  protected readonly loadApp: LoadAppUseCase;
+
+  /**
+   * Application-relative path the controller redirects to after the signed
+   * payload has been verified. The store context is appended as a query param.
+   */
+  protected readonly appPath: string;
+
+  /**
+   * Application-relative path the controller redirects to when verification
+   * fails. A `status=error` and an error code are appended as query params.
+   */
+  protected readonly errorPath: string;
+
+  /**
+   * Session cookie written after a verified load callback, when configured.
+   */
+  protected readonly session?: SessionCookie;
+
+  /**
+   * Public base URL or host allow-list used to build redirect URLs.
+   */
+  protected readonly trustedProxy: TrustedProxyConfig;
+
+  /**
+   * Protected constructor ensures that controller instances are created only
+   * through the factory method ({@link LoadController.create}) or by
+   * subclasses.
+   */
+  protected constructor(config: LoadHandlerConfig) {
+    super();
+    this.loadApp = config.loadApp;
+    this.appPath = config.appPath ?? '/';
+    this.errorPath = config.errorPath ?? '/auth/result';
+    this.session = config.session ? new SessionCookie(config.session) : undefined;
+    this.trustedProxy = {
+      publicBaseUrl: config.publicBaseUrl,
+      allowedHosts: config.allowedHosts,
+    };
+  }
+
+  /**
+   * Factory method that returns a `(request: Request) => Promise<Response>`
+   * handler, usable as a Next.js route handler.
+   *
+   * @example
+   * export const GET = LoadController.create({
+   *   loadApp,
+   *   appPath: '/dashboard',
+   * });
+   */
+  static create(config: LoadHandlerConfig) {
+    const controller = new LoadController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Handles a load callback.
+   *
+   * @param request Incoming request
+   * @returns A `Response` redirecting into the app or to the error view, or
+   *          refusing a request addressed to an untrusted host
+   */
+  async handle(request: Request): Promise<Response> {
+    const outcome = await this.performLoad(request);
+    let response: Response;
+
+    try {
+      response = this.buildRedirectResponse(request, outcome);
+    } catch (err) {
+      if (err instanceof UntrustedHostError) {
+        return this.buildRefusalResponse(err);
+      }
+      throw err;
+    }
+
+    await this.establishSession(response, outcome);
+    return response;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Protected helper methods — intended for subclass extension only
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Executes the load use case and returns a normalized result object.
+   *
+   * @param req Incoming request
+   * @returns A {@link LoadResult} describing success or failure
+   */
+  protected async performLoad(req: Request): Promise<LoadResult> {
+    try {
+      const signedPayloadJwt = this.getSignedPayload(req);
+
+      const claims = await this.loadApp.execute({ signedPayloadJwt }, {});
+
+      return { status: 'success', context: claims.sub, claims };
+    } catch (err) {
+      return { status: 'error', errorCode: this.mapErrorToCode(err) };
+    }
+  }
+
+  /**
+   * Determines the publicly accessible base URL for the incoming request.
+   * Delegates to {@link resolveBaseUrl} with the configured `publicBaseUrl`
+   * or `allowedHosts`. Unlike install, load has no `redirectUri` to fall back
+   * on, so with neither configured the request headers are not trusted at
+   * all and the request is refused.
+   *
+   * @param req Incoming request
+   * @returns The fully qualified base URL representing the public-facing domain
+   *
+   * @throws {UntrustedHostError} If the request names a host outside
+   *         `allowedHosts`, or neither `publicBaseUrl` nor `allowedHosts` is
+   *         configured.
+   */
+  protected getBaseUrl(req: Request): string {
+    const { publicBaseUrl, allowedHosts = [] } = this.trustedProxy;
+
+    if (!publicBaseUrl && allowedHosts.length === 0) {
+      throw new UntrustedHostError(req.headers.get('host') ?? '');
+    }
+
+    return resolveBaseUrl(req.headers, this.trustedProxy);
+  }
+
+  /**
+   * Builds a `302` redirect pointing into the app on success, or to the
+   * error view on failure.
+   *
+   * On success only the verified store context is appended; the raw signed
+   * payload is never forwarded to the app. The headers stay mutable (unlike
+   * `Response.redirect`), so the session cookie can still be added.
+   *
+   * @param request The original incoming request
+   * @param outcome The normalized result of executing the load flow
+   * @returns A `Response` containing an absolute redirect URL
+   */
+  protected buildRedirectResponse(request: Request, outcome: LoadResult): Response {
+    const baseUrl = this.getBaseUrl(request);
+
+    const search =
+      outcome.status === 'success'
+        ? new URLSearchParams(outcome.context ? { context: outcome.context } : {})
+        : new URLSearchParams({ status: 'error', code: outcome.errorCode ?? 'unknown' });
+
+    const targetPath = outcome.status === 'success' ? this.appPath : this.errorPath;
+    const query = search.toString();
+
+    const location = new URL(query ? `${targetPath}?${query}` : targetPath, baseUrl);
+
+    return new Response(null, { status: 302, headers: { location: location.toString() } });
+  }
+
+  /**
+   * Answers a request whose host is outside `allowedHosts`, or any request
+   * when no public origin is configured, with the catalog status for
+   * `untrusted_host` instead of redirecting. No session cookie is set.
+   *
+   * @param err The error raised by {@link getBaseUrl}
+   * @returns A JSON `Response` describing the refusal
+   */
+  protected buildRefusalResponse(err: UntrustedHostError): Response {
+    const outcome: LoadResult = { status: 'error', errorCode: err.code };
+    return Response.json(outcome, { status: err.status });
+  }
+
+  /**
+   * Sets the encrypted session cookie from the verified claims, refreshing it
+   * every time the merchant opens the app. Does nothing when no session is
+   * configured or verification failed.
+   *
+   * @param response The redirect response about to be returned
+   * @param outcome The normalized result of executing the load flow
+   */
+  protected async establishSession(response: Response, outcome: LoadResult) {
+    if (!this.session || outcome.status !== 'success' || !outcome.claims) {
+      return;
+    }
+
+    const cookie = await this.session.serialize({
+      storeHash: StoreHash.fromJWTSub(outcome.claims.sub).toString(),
+      userId: outcome.claims.user.id,
+      email: outcome.claims.user.email,
+    });
+
+    response.headers.append('set-cookie', cookie);
+  }
+}
@@ -0,0 +1,54 @@
+import type { LoadAppUseCase } from 'bigcommerce-oauth/use-cases/load';
+import type { SessionConfig } from '@/session/dto/SessionConfig.js';
+import type { TrustedProxyConfig } from '@/use-cases/shared/http/dto/TrustedProxyConfig.js';
+
+/**
+ * Configuration object for constructing a {@link LoadController}.
+ *
+ * This configuration belongs to the interface-adapters layer and defines
+ * how the controller should adapt an incoming BigCommerce **load** callback
+ * into a call to the load use case, and where the user should be sent once
+ * the signed payload has been verified.
+ *
+ * The controller itself is responsible only for:
+ * - extracting the `signed_payload_jwt` query parameter,
+ * - invoking the {@link LoadAppUseCase},
+ * - preparing a redirect response into the app or to an error view.
+ *
+ * Either {@link TrustedProxyConfig.publicBaseUrl} or
+ * {@link TrustedProxyConfig.allowedHosts} must be configured: redirects are
+ * never built from unchecked request headers, so without either every load
+ * callback is refused with `untrusted_host`.
+ */
+export interface LoadHandlerConfig extends TrustedProxyConfig {
+  /**
+   * The use case responsible for verifying and decoding the signed payload.
+   * The controller delegates all business logic to this use case.
+   */
+  loadApp: LoadAppUseCase;
+
+  /**
+   * The application-relative path to redirect the user to once the signed
+   * payload has been verified. Defaults to "/".
+   *
+   * The controller will append the verified store context as a query
+   * parameter (e.g. `context=stores/abc123`).
+   */
+  appPath?: string;
+
+  /**
+   * The application-relative path to redirect the user to when verification
+   * fails. Defaults to "/auth/result".
+   *
+   * The controller will append query parameters describing the reason for
+   * failure (e.g. `status=error` and `code=`).
+   */
+  errorPath?: string;
+
+  /**
+   * Optional session configuration. When provided, a verified load callback
+   * sets an encrypted session cookie holding the store hash, user id, and
+   * email, readable later through `getSession`.
+   */
+  session?: SessionConfig;
+}
@@ -0,0 +1,39 @@
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import type { LoadStatus } from './LoadStatus.js';
+
+/**
+ * Represents the normalized outcome of a load callback handled by the
+ * {@link LoadController}. This DTO is used exclusively within the
+ * interface-adapters layer to drive redirect logic after executing the
+ * load use case.
+ */
+export interface LoadResult {
+  /**
+   * High-level status of the load callback.
+   *
+   * - `"success"` — The signed payload was verified.
+   * - `"error"` — Verification failed or the payload was absent.
+   */
+  status: LoadStatus;
+
+  /**
+   * BigCommerce store context taken from the verified `sub` claim
+   * (e.g., `"stores/abc"`). Present only on success.
+   */
+  context?: string;
+
+  /**
+   * The verified claims decoded from the `signed_payload_jwt`. Present only
+   * on success; subclasses may use it to enrich the redirect or response.
+   */
+  claims?: SignedPayloadClaims;
+
+  /**
+   * Optional machine-friendly identifier describing why the load callback
+   * failed (e.g., `"missing_signed_payload"`, `"invalid_signature"`).
+   *
+   * This is provided only when `status` is `"error"`.
+   */
+  errorCode?: ErrorCode;
+}
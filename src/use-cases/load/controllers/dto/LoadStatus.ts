@@ -0,0 +1,11 @@
+/**
+ * Represents the high-level outcome of handling a load callback.
+ *
+ * This status is used by the {@link LoadController} to determine whether
+ * the user should be redirected into the app or to an error view after
+ * executing the load use case.
+ *
+ * - `"success"` — the signed payload was verified and decoded.
+ * - `"error"` — the payload was missing, malformed, forged, or expired.
+ */
+export type LoadStatus = 'success' | 'error';
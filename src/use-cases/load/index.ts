@@ -0,0 +1,9 @@
+export * from './controllers/LoadController.js';
+
+export * from './controllers/dto/LoadHandlerConfig.js';
+export * from './controllers/dto/LoadResult.js';
+export * from './controllers/dto/LoadStatus.js';
+
+export * from '../shared/errors/index.js';
+export * from '../shared/http/index.js';
+export * from '../shared/signed-payload/index.js';
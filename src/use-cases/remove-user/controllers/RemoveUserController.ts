@@ -0,0 +1,134 @@
+import type { RemoveUserUseCase } from 'bigcommerce-oauth/use-cases/remove-user';
+import { InvalidStoreContextError, StoreHash } from 'bigcommerce-oauth/value-objects';
+import { ErrorCatalog } from '@/use-cases/shared/errors/ErrorCatalog.js';
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import { SignedPayloadController } from '@/use-cases/shared/http/SignedPayloadController.js';
+import type { RemoveUserHandlerConfig } from './dto/RemoveUserHandlerConfig.js';
+import type { RemoveUserResult } from './dto/RemoveUserResult.js';
+
+/**
+ * Controller responsible for adapting an incoming BigCommerce **remove user**
+ * callback into a call to the {@link RemoveUserUseCase}.
+ *
+ * BigCommerce sends this callback to multi-user apps when a store owner
+ * revokes a user's access to the app. Like the uninstall callback, it is
+ * called server-to-server, so this controller:
+ * - extracts the `signed_payload_jwt` from the request,
+ * - invokes the remove-user use case to verify it and clean up the user,
+ * - pulls the removed user and store hash out of the verified claims,
+ * - returns a plain JSON status response.
+ *
+ * It works with standard Web Fetch `Request` and `Response` objects only, so
+ * the handler serves Next.js route handlers and other Fetch-based runtimes
+ * without depending on `next`.
+ *
+ * Consumers should obtain a handler using the static
+ * {@link RemoveUserController.create} method.
+ *
+ * Subclasses may override protected methods to customize error mapping,
+ * parameter extraction, or the response shape.
+ */
+export class RemoveUserController extends SignedPayloadController {
+  /**
+   * The use case responsible for verifying the signed payload and removing
+   * the user's records.
+   */
+  protected readonly removeUser: RemoveUserUseCase;
+
+  /**
+   * Protected constructor ensures that controller instances are created only
+   * through the factory method ({@link RemoveUserController.create}) or by
+   * subclasses.
+   */
+  protected constructor(config: RemoveUserHandlerConfig) {
+    super();
+    this.removeUser = config.removeUser;
+  }
+
+  /**
+   * Factory method that returns a `(request: Request) => Promise<Response>`
+   * handler, usable as a Next.js route handler.
+   *
+   * @example
+   * export const GET = RemoveUserController.create({ removeUser });
+   */
+  static create(config: RemoveUserHandlerConfig) {
+    const controller = new RemoveUserController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Handles a remove-user callback.
+   *
+   * @param request Incoming request
+   * @returns A `Response` carrying the remove-user outcome as JSON
+   */
+  async handle(request: Request): Promise<Response> {
+    const outcome = await this.performRemoveUser(request);
+    return this.buildStatusResponse(outcome);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Protected helper methods — intended for subclass extension only
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Executes the remove-user use case and returns a normalized result object
+   * containing the removed user and the store they were removed from.
+   *
+   * @param req Incoming request
+   * @returns A {@link RemoveUserResult} describing success or failure
+   */
+  protected async performRemoveUser(req: Request): Promise<RemoveUserResult> {
+    try {
+      const signedPayloadJwt = this.getSignedPayload(req);
+
+      const claims = await this.removeUser.execute({ signedPayloadJwt }, {});
+      const storeHash = StoreHash.fromJWTSub(claims.sub).toString();
+
+      return {
+        status: 'success',
+        storeHash,
+        user: { id: claims.user.id, email: claims.user.email },
+      };
+    } catch (err) {
+      return { status: 'error', errorCode: this.mapErrorToCode(err) };
+    }
+  }
+
+  /**
+   * Adds the remove-user specific case to the shared signed-payload error
+   * mapping: a `sub` claim that is not a valid store context.
+   *
+   * @param err Any thrown error
+   * @returns A short machine-friendly error string
+   */
+  protected override mapErrorToCode(err: unknown): ErrorCode {
+    if (err instanceof InvalidStoreContextError) return 'invalid_context';
+    return super.mapErrorToCode(err);
+  }
+
+  /**
+   * Maps an error code to the HTTP status returned to BigCommerce, as listed
+   * in the {@link ErrorCatalog}.
+   *
+   * @param errorCode Code produced by {@link mapErrorToCode}
+   * @returns An HTTP status code
+   */
+  protected mapErrorToStatus(errorCode: ErrorCode): number {
+    return ErrorCatalog[errorCode].status;
+  }
+
+  /**
+   * Builds a plain JSON response describing the remove-user outcome.
+   *
+   * @param outcome The normalized result of executing the remove-user flow
+   * @returns A JSON `Response` with `200` on success or an error status
+   */
+  protected buildStatusResponse(outcome: RemoveUserResult): Response {
+    const status =
+      outcome.status === 'success' ? 200 : this.mapErrorToStatus(outcome.errorCode ?? 'unknown');
+
+    return Response.json(outcome, { status });
+  }
+}
@@ -0,0 +1,22 @@
+import type { RemoveUserUseCase } from 'bigcommerce-oauth/use-cases/remove-user';
+
+/**
+ * Configuration object for constructing a {@link RemoveUserController}.
+ *
+ * This configuration belongs to the interface-adapters layer and defines
+ * which use case the controller should delegate the BigCommerce
+ * **remove user** callback to. The callback is only sent to apps with
+ * multi-user support enabled.
+ *
+ * The controller itself is responsible only for:
+ * - extracting the `signed_payload_jwt` query parameter,
+ * - invoking the {@link RemoveUserUseCase},
+ * - preparing a plain status response for BigCommerce.
+ */
+export interface RemoveUserHandlerConfig {
+  /**
+   * The use case responsible for verifying the signed payload. Decorate it to
+   * delete or deactivate the removed user's records.
+   */
+  removeUser: RemoveUserUseCase;
+}
@@ -0,0 +1,42 @@
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import type { RemoveUserStatus } from './RemoveUserStatus.js';
+
+/**
+ * Represents the normalized outcome of a remove-user callback handled by the
+ * {@link RemoveUserController}. Serialized as the JSON body of the response
+ * returned to BigCommerce.
+ */
+export interface RemoveUserResult {
+  /**
+   * High-level status of the remove-user callback.
+   *
+   * - `"success"` — The user was removed.
+   * - `"error"` — Verification or the remove-user use case failed.
+   */
+  status: RemoveUserStatus;
+
+  /**
+   * Hash of the store the user was removed from (e.g., `"abc123"`), derived
+   * from the verified `sub` claim. Present only on success.
+   */
+  storeHash?: string;
+
+  /**
+   * The BigCommerce user that was removed from the store. Present only on
+   * success.
+   */
+  user?: {
+    /** BigCommerce user ID. */
+    id: number;
+    /** User's email address. */
+    email: string;
+  };
+
+  /**
+   * Optional machine-friendly identifier describing why the remove-user
+   * callback failed (e.g., `"missing_signed_payload"`, `"invalid_context"`).
+   *
+   * This is provided only when `status` is `"error"`.
+   */
+  errorCode?: ErrorCode;
+}
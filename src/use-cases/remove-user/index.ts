@@ -0,0 +1,8 @@
+export * from './controllers/RemoveUserController.js';
+
+export * from './controllers/dto/RemoveUserHandlerConfig.js';
+export * from './controllers/dto/RemoveUserResult.js';
+export * from './controllers/dto/RemoveUserStatus.js';
+
+export * from '../shared/errors/index.js';
+export * from '../shared/signed-payload/index.js';
@@ -0,0 +1,37 @@
+/**
+ * Encodes bytes as unpadded base64url (RFC 4648 §5).
+ *
+ * Uses `btoa` rather than `Buffer`, so it works on edge runtimes as well as
+ * Node.js.
+ *
+ * @param bytes Bytes to encode
+ * @returns The base64url string
+ */
+export function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes an unpadded or padded base64url string.
+ *
+ * @param value String to decode
+ * @returns The decoded bytes, or `undefined` if `value` is not base64url
+ */
+export function decodeBase64Url(value: string): Uint8Array | undefined {
+  if (!/^[A-Za-z0-9_-]*={0,2}$/.test(value)) {
+    return undefined;
+  }
+
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+}
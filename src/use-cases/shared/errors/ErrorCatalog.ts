@@ -0,0 +1,129 @@
+import type { ErrorCode } from './dto/ErrorCode.js';
+import type { ErrorDescriptor } from './dto/ErrorDescriptor.js';
+
+const START_AGAIN = 'Please start the installation again from the BigCommerce control panel.';
+const REOPEN_APP = 'Please reopen the app from the BigCommerce control panel.';
+const CONTACT_DEVELOPER = 'Please contact the app developer.';
+
+/**
+ * HTTP status, retryable flag, and default merchant-facing message for every
+ * {@link ErrorCode}.
+ */
+export const ErrorCatalog: Readonly<Record<ErrorCode, ErrorDescriptor>> = {
+  missing_params: {
+    status: 400,
+    retryable: false,
+    message: `The installation link is incomplete. ${START_AGAIN}`,
+  },
+  invalid_context: {
+    status: 400,
+    retryable: false,
+    message: `The store could not be identified. ${START_AGAIN}`,
+  },
+  invalid_nonce: {
+    status: 400,
+    retryable: false,
+    message: `This installation link has expired. ${START_AGAIN}`,
+  },
+  replayed_code: {
+    status: 409,
+    retryable: false,
+    message: `This installation link has already been used. ${START_AGAIN}`,
+  },
+  insufficient_scope: {
+    status: 403,
+    retryable: false,
+    message:
+      'The app needs permissions that were not granted. Please approve them when reinstalling.',
+  },
+  token_exchange_failed: {
+    status: 502,
+    retryable: false,
+    message: `BigCommerce did not accept the installation request. ${START_AGAIN}`,
+  },
+  invalid_client_credentials: {
+    status: 500,
+    retryable: false,
+    message: `The app is not configured correctly. ${CONTACT_DEVELOPER}`,
+  },
+  app_revoked: {
+    status: 403,
+    retryable: false,
+    message: `This app is no longer authorized by BigCommerce. ${CONTACT_DEVELOPER}`,
+  },
+  rate_limited: {
+    status: 429,
+    retryable: true,
+    message: 'BigCommerce is receiving too many requests. Please try again in a few minutes.',
+  },
+  bigcommerce_unavailable: {
+    status: 503,
+    retryable: true,
+    message: 'BigCommerce is temporarily unavailable. Please try again in a few minutes.',
+  },
+  network_timeout: {
+    status: 504,
+    retryable: true,
+    message: 'BigCommerce took too long to respond. Please try again.',
+  },
+  network_error: {
+    status: 502,
+    retryable: true,
+    message: 'The app could not reach BigCommerce. Please try again.',
+  },
+  missing_signed_payload: {
+    status: 400,
+    retryable: false,
+    message: `The request did not come from BigCommerce. ${REOPEN_APP}`,
+  },
+  malformed_signed_payload: {
+    status: 400,
+    retryable: false,
+    message: `The request from BigCommerce could not be read. ${REOPEN_APP}`,
+  },
+  invalid_signature: {
+    status: 401,
+    retryable: false,
+    message: `The request could not be verified as coming from BigCommerce. ${REOPEN_APP}`,
+  },
+  invalid_signed_payload: {
+    status: 401,
+    retryable: false,
+    message: `The request was not intended for this app. ${REOPEN_APP}`,
+  },
+  expired_signed_payload: {
+    status: 401,
+    retryable: false,
+    message: `Your session with BigCommerce has expired. ${REOPEN_APP}`,
+  },
+  untrusted_host: {
+    status: 400,
+    retryable: false,
+    message: `The request was sent to an address this app does not recognize. ${CONTACT_DEVELOPER}`,
+  },
+  unknown: {
+    status: 500,
+    retryable: false,
+    message: 'Something went wrong. Please try again, and contact support if the problem persists.',
+  },
+};
+
+/**
+ * Narrows an untrusted string (e.g. the `code` query parameter on the result
+ * page) to a known {@link ErrorCode}.
+ */
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === 'string' && Object.hasOwn(ErrorCatalog, value);
+}
+
+/**
+ * Looks up the catalog entry for a code, falling back to `unknown` for
+ * values that are not in the catalog.
+ *
+ * @param code Error code, typically read from a redirect or response
+ * @returns The code together with its status, retryable flag, and message
+ */
+export function describeError(code: string | undefined): ErrorDescriptor & { code: ErrorCode } {
+  const known = isErrorCode(code) ? code : 'unknown';
+  return { code: known, ...ErrorCatalog[known] };
+}
@@ -0,0 +1,15 @@
+import { OAuthCallbackError } from './OAuthCallbackError.js';
+
+/**
+ * Thrown when the mandatory `signed_payload_jwt` query parameter is absent
+ * from a BigCommerce callback (load, uninstall, or remove user).
+ *
+ * Reported as `missing_signed_payload`.
+ */
+export class MissingSignedPayloadError extends OAuthCallbackError {
+  readonly code = 'missing_signed_payload';
+
+  constructor() {
+    super('Missing signed payload: `signed_payload_jwt` is required.');
+  }
+}
@@ -0,0 +1,36 @@
+import { ErrorCatalog } from './ErrorCatalog.js';
+import type { ErrorCode } from './dto/ErrorCode.js';
+
+/**
+ * Base class for errors that map directly to an {@link ErrorCode}.
+ *
+ * Controllers report {@link code} as-is; {@link status}, {@link retryable},
+ * and {@link merchantMessage} come from the {@link ErrorCatalog}.
+ */
+export abstract class OAuthCallbackError extends Error {
+  /**
+   * Catalog code reported for this error.
+   */
+  abstract readonly code: ErrorCode;
+
+  /**
+   * HTTP status for this error, from the catalog.
+   */
+  get status(): number {
+    return ErrorCatalog[this.code].status;
+  }
+
+  /**
+   * Whether repeating the action may succeed, from the catalog.
+   */
+  get retryable(): boolean {
+    return ErrorCatalog[this.code].retryable;
+  }
+
+  /**
+   * Default message suitable for showing to a merchant, from the catalog.
+   */
+  get merchantMessage(): string {
+    return ErrorCatalog[this.code].message;
+  }
+}
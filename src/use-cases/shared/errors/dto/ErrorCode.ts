@@ -0,0 +1,31 @@
+/**
+ * Stable, machine-readable codes describing why a BigCommerce callback
+ * failed. Controllers append them to error redirects and JSON responses, and
+ * {@link ErrorCatalog} maps each one to an HTTP status, a retryable flag, and
+ * a merchant-facing message.
+ */
+export type ErrorCode =
+  // Install callback
+  | 'missing_params'
+  | 'invalid_context'
+  | 'invalid_nonce'
+  | 'replayed_code'
+  | 'insufficient_scope'
+  // Token exchange with BigCommerce
+  | 'token_exchange_failed'
+  | 'invalid_client_credentials'
+  | 'app_revoked'
+  | 'rate_limited'
+  | 'bigcommerce_unavailable'
+  | 'network_timeout'
+  | 'network_error'
+  // Signed-payload callbacks (load, uninstall, remove user)
+  | 'missing_signed_payload'
+  | 'malformed_signed_payload'
+  | 'invalid_signature'
+  | 'invalid_signed_payload'
+  | 'expired_signed_payload'
+  // Request origin
+  | 'untrusted_host'
+  // Fallback
+  | 'unknown';
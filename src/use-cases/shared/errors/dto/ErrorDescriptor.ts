@@ -0,0 +1,22 @@
+/**
+ * Catalog entry describing how an {@link ErrorCode} is surfaced.
+ */
+export interface ErrorDescriptor {
+  /**
+   * HTTP status used when the failure is returned as a response rather than
+   * a redirect.
+   */
+  status: number;
+
+  /**
+   * Whether the failure is transient, so repeating the same action may
+   * succeed without any change on the merchant's or developer's side.
+   */
+  retryable: boolean;
+
+  /**
+   * Default message suitable for showing to a merchant. Never contains
+   * internal details.
+   */
+  message: string;
+}
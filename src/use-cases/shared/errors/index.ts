@@ -0,0 +1,6 @@
+export * from './ErrorCatalog.js';
+export * from './MissingSignedPayloadError.js';
+export * from './OAuthCallbackError.js';
+
+export * from './dto/ErrorCode.js';
+export * from './dto/ErrorDescriptor.js';
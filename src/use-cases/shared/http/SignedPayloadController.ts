@@ -0,0 +1,60 @@
+import {
+  InvalidJwtSignatureError,
+  JwtLifetimeError,
+  MalformedJwtError,
+} from 'bigcommerce-oauth/gateways/BigCommerce';
+import { MissingSignedPayloadError } from '@/use-cases/shared/errors/MissingSignedPayloadError.js';
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import { ExpiredSignedPayloadError } from '@/use-cases/shared/signed-payload/errors/ExpiredSignedPayloadError.js';
+import { InvalidSignedPayloadError } from '@/use-cases/shared/signed-payload/errors/InvalidSignedPayloadError.js';
+
+/**
+ * Base class for the controllers handling BigCommerce's signed-payload
+ * callbacks (load, uninstall, and remove user).
+ *
+ * All three receive a `signed_payload_jwt` query parameter and fail in the
+ * same ways, so extracting the payload and mapping verification errors to an
+ * {@link ErrorCode} live here rather than in each controller.
+ */
+export abstract class SignedPayloadController {
+  // ---------------------------------------------------------------------------
+  // Protected helper methods — intended for subclass extension only
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Extracts the `signed_payload_jwt` query parameter from the request.
+   * Throws a {@link MissingSignedPayloadError} if it is absent.
+   *
+   * @param req Incoming request
+   * @returns The raw signed payload JWT
+   */
+  protected getSignedPayload(req: { url: string }): string {
+    const url = new URL(req.url);
+    const signedPayloadJwt = url.searchParams.get('signed_payload_jwt') ?? '';
+
+    if (!signedPayloadJwt) {
+      throw new MissingSignedPayloadError();
+    }
+
+    return signedPayloadJwt;
+  }
+
+  /**
+   * Maps verification errors to stable string codes that can be appended to
+   * a redirect URL or returned in the response body.
+   *
+   * @param err Any thrown error
+   * @returns A short machine-friendly error string
+   */
+  protected mapErrorToCode(err: unknown): ErrorCode {
+    if (err instanceof MissingSignedPayloadError) return 'missing_signed_payload';
+    if (err instanceof MalformedJwtError) return 'malformed_signed_payload';
+    if (err instanceof InvalidJwtSignatureError) return 'invalid_signature';
+    if (err instanceof JwtLifetimeError) return 'expired_signed_payload';
+    if (err instanceof ExpiredSignedPayloadError) return 'expired_signed_payload';
+    if (err instanceof InvalidSignedPayloadError) {
+      return err.reason === 'signature' ? 'invalid_signature' : 'invalid_signed_payload';
+    }
+    return 'unknown';
+  }
+}
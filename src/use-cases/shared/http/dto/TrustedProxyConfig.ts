@@ -0,0 +1,22 @@
+/**
+ * Controls which public origin callback controllers redirect to.
+ *
+ * Forwarded headers are client-controlled unless a proxy overwrites them, so
+ * they are only trusted when they name a host on {@link allowedHosts}.
+ */
+export interface TrustedProxyConfig {
+  /**
+   * Fixed public origin of the app (e.g. `"https://app.example.com"`). When
+   * set, request headers are ignored entirely.
+   */
+  publicBaseUrl?: string;
+
+  /**
+   * Hosts the app may be reached through (e.g. `["app.example.com",
+   * "*.ngrok-free.app"]`). The host named by the `Forwarded`,
+   * `x-forwarded-host`, or `host` header is only used when it matches an
+   * entry. An entry without a port matches any port; a leading `*.` matches
+   * any subdomain.
+   */
+  allowedHosts?: string[];
+}
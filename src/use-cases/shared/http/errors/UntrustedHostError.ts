@@ -0,0 +1,16 @@
+import { OAuthCallbackError } from '@/use-cases/shared/errors/OAuthCallbackError.js';
+
+/**
+ * Thrown by {@link resolveBaseUrl} when a request names a host outside the
+ * configured allow-list and no fallback origin is available, so the
+ * controller refuses to redirect there.
+ *
+ * Reported as `untrusted_host`.
+ */
+export class UntrustedHostError extends OAuthCallbackError {
+  readonly code = 'untrusted_host';
+
+  constructor(readonly host: string) {
+    super(`Refusing to redirect to untrusted host "${host}".`);
+  }
+}
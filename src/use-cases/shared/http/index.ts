@@ -0,0 +1,7 @@
+export * from './SignedPayloadController.js';
+export * from './resolveBaseUrl.js';
+export * from './toWebHeaders.js';
+
+export * from './dto/TrustedProxyConfig.js';
+
+export * from './errors/UntrustedHostError.js';
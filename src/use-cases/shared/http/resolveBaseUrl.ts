@@ -0,0 +1,153 @@
+import type { TrustedProxyConfig } from './dto/TrustedProxyConfig.js';
+import { UntrustedHostError } from './errors/UntrustedHostError.js';
+
+/**
+ * Host as it may appear in a `Host` or forwarded header: a DNS name, an IPv4
+ * address, or a bracketed IPv6 address, with an optional port. Anything else
+ * (userinfo, paths, whitespace) is rejected before it can reach a URL.
+ */
+const HOST_PATTERN = /^(?:[a-z0-9-]+(?:\.[a-z0-9-]+)*|\[[0-9a-f:.]+\])(?::\d{1,5})?$/i;
+
+/**
+ * Public host and protocol as reported by the request headers.
+ */
+interface ForwardedOrigin {
+  host?: string;
+  proto?: string;
+}
+
+/**
+ * Determines the publicly accessible base URL from a set of request headers.
+ *
+ * When the application is running behind a reverse proxy or tunneling service
+ * (e.g., ngrok, Vercel, load balancers), Next.js will internally rewrite the
+ * request URL to use the local development host (e.g., `localhost:3000`).
+ *
+ * BigCommerce, however, accesses the application through the *public* domain,
+ * and redirect responses must use that domain to remain valid.
+ *
+ * The base URL is chosen in this order:
+ *
+ * 1. {@link TrustedProxyConfig.publicBaseUrl}, when configured.
+ * 2. With {@link TrustedProxyConfig.allowedHosts}, the host reported by the
+ *    request — RFC 7239 `Forwarded`, then `x-forwarded-host` /
+ *    `x-forwarded-proto`, then `host` — if it is on the list. Multi-hop
+ *    headers are read from their first (client-facing) entry. A host outside
+ *    the list is replaced by `fallbackBaseUrl`, or refused.
+ * 3. `fallbackBaseUrl`, when given (the install controller derives it from
+ *    its `redirectUri`).
+ * 4. Otherwise the request headers as above, falling back to
+ *    `localhost:3000` and a default `http` value.
+ *
+ * Shared by every callback controller so redirect behavior stays consistent
+ * across the install, load, and other OAuth flows.
+ *
+ * @param headers Headers of the incoming request
+ * @param config Trusted proxy configuration
+ * @param fallbackBaseUrl Origin used when nothing is configured or the
+ *                        request names an untrusted host
+ * @returns The fully qualified base URL representing the public-facing domain
+ *
+ * @throws {UntrustedHostError} If the request names a host outside
+ *         `allowedHosts` and no `fallbackBaseUrl` is given.
+ */
+export function resolveBaseUrl(
+  headers: Headers,
+  config: TrustedProxyConfig = {},
+  fallbackBaseUrl?: string,
+): string {
+  if (config.publicBaseUrl) {
+    return new URL(config.publicBaseUrl).origin;
+  }
+
+  const fallback = fallbackBaseUrl ? new URL(fallbackBaseUrl).origin : undefined;
+  const allowedHosts = config.allowedHosts ?? [];
+
+  if (allowedHosts.length === 0 && fallback) {
+    return fallback;
+  }
+
+  const forwarded = readForwardedOrigin(headers);
+  const host = forwarded.host ?? 'localhost:3000';
+  const protocol = forwarded.proto ?? 'http';
+
+  if (allowedHosts.length > 0 && !(isValidHost(host) && isAllowedHost(host, allowedHosts))) {
+    if (fallback) return fallback;
+    throw new UntrustedHostError(host);
+  }
+
+  return `${protocol}://${host.toLowerCase()}`;
+}
+
+/**
+ * Checks that a `Host` or forwarded host value is well-formed: a DNS name,
+ * an IPv4 address, or a bracketed IPv6 address, with an optional port.
+ *
+ * @param host Host as sent by the client
+ * @returns `true` if the host can safely be used in a URL
+ */
+export function isValidHost(host: string): boolean {
+  return HOST_PATTERN.test(host);
+}
+
+/**
+ * Reads the public host and protocol, preferring RFC 7239 `Forwarded` over
+ * the de-facto `x-forwarded-*` headers and `host`.
+ */
+function readForwardedOrigin(headers: Headers): ForwardedOrigin {
+  const forwarded = parseForwardedHeader(headers.get('forwarded'));
+
+  const host =
+    forwarded.host ?? firstHop(headers.get('x-forwarded-host')) ?? firstHop(headers.get('host'));
+  const proto = (forwarded.proto ?? firstHop(headers.get('x-forwarded-proto')))?.toLowerCase();
+
+  return { host, proto: proto === 'https' || proto === 'http' ? proto : undefined };
+}
+
+/**
+ * Extracts `host` and `proto` from the first element of an RFC 7239
+ * `Forwarded` header, e.g. `for=192.0.2.60;proto=https;host=app.example.com`.
+ */
+function parseForwardedHeader(value: string | null): ForwardedOrigin {
+  const first = firstHop(value);
+  const origin: ForwardedOrigin = {};
+
+  for (const pair of first?.split(';') ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) continue;
+
+    const key = pair.slice(0, separator).trim().toLowerCase();
+    const raw = pair.slice(separator + 1).trim();
+    const unquoted = raw.startsWith('"') && raw.endsWith('"') ? raw.slice(1, -1) : raw;
+
+    if (key === 'host' && unquoted) origin.host = unquoted;
+    if (key === 'proto' && unquoted) origin.proto = unquoted;
+  }
+
+  return origin;
+}
+
+/**
+ * Returns the first entry of a comma-separated multi-hop header — the value
+ * set by the proxy closest to the client.
+ */
+function firstHop(value: string | null): string | undefined {
+  const first = value?.split(',')[0]?.trim();
+  return first === '' ? undefined : first;
+}
+
+/**
+ * Checks a host against the allow-list. Entries without a port match any
+ * port; a leading `*.` matches any subdomain of the rest of the entry.
+ */
+function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+  const candidate = host.toLowerCase();
+  const hostname = candidate.replace(/:\d+$/, '');
+
+  return allowedHosts.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    const target = /:\d+$/.test(allowed) ? candidate : hostname;
+
+    return allowed.startsWith('*.') ? target.endsWith(allowed.slice(1)) : target === allowed;
+  });
+}
@@ -0,0 +1,25 @@
+import type { IncomingHttpHeaders } from 'node:http';
+
+/**
+ * Converts Node.js request headers into a Fetch API `Headers` object.
+ *
+ * Repeated headers, which Node.js reports as arrays, are appended entry by
+ * entry. Used by the adapters that receive a Node.js request (Pages Router
+ * API routes, Express) before handing it to a Fetch-based controller.
+ *
+ * @param headers Headers of an `IncomingMessage`
+ * @returns The same headers as `Headers`
+ */
+export function toWebHeaders(headers: IncomingHttpHeaders): Headers {
+  const result = new Headers();
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (Array.isArray(value)) {
+      for (const entry of value) result.append(name, entry);
+    } else if (value !== undefined) {
+      result.set(name, value);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,149 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { SignedPayloadVerifier } from 'bigcommerce-oauth';
+import type { SignedPayloadVerifierConfig } from './dto/SignedPayloadVerifierConfig.js';
+import type { VerifiedSignedPayload } from './dto/VerifiedSignedPayload.js';
+import { ExpiredSignedPayloadError } from './errors/ExpiredSignedPayloadError.js';
+import { InvalidSignedPayloadError } from './errors/InvalidSignedPayloadError.js';
+
+/**
+ * Pattern BigCommerce uses for the `sub` claim: `stores/{store_hash}`.
+ */
+const SUB_PATTERN = /^stores\/(?<hash>[A-Za-z0-9_-]{3,64})$/;
+
+/**
+ * Verifies BigCommerce `signed_payload_jwt` tokens sent to the load,
+ * uninstall, and remove-user callbacks.
+ *
+ * Compared to the upstream `BigCommerceSignedPayloadVerifier`, this verifier
+ * also checks the token was issued **for this app and a store**:
+ *
+ * 1. **Split** the token into `header . payload . signature` parts.
+ * 2. **Require** an `HS256` header.
+ * 3. **Compare** `HMAC-SHA256(clientSecret, header.payload)` in constant time.
+ * 4. **Check** `aud` against the client id and `iss` against the issuer.
+ * 5. **Reject** tokens outside `nbf … exp`, allowing configurable clock skew.
+ * 6. **Extract** the store hash from `sub` (`stores/{hash}`).
+ *
+ * Implements the upstream {@link SignedPayloadVerifier} contract, so it can be
+ * passed straight to `LoadApp`, `UninstallApp`, or `RemoveUser`.
+ */
+export class SignedPayloadJwtVerifier implements SignedPayloadVerifier {
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+  private readonly issuer: string;
+  private readonly clockSkewSeconds: number;
+  private readonly now: () => number;
+
+  constructor(config: SignedPayloadVerifierConfig) {
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
+    this.issuer = config.issuer ?? 'bc';
+    this.clockSkewSeconds = config.clockSkewSeconds ?? 5;
+    this.now = config.now ?? (() => Math.floor(Date.now() / 1000));
+  }
+
+  /**
+   * Validate a `signed_payload_jwt` and return its decoded claims.
+   *
+   * @param token Raw JWT from BigCommerce (query param `signed_payload_jwt`).
+   * @returns The verified claims, including the extracted store hash.
+   *
+   * @throws {InvalidSignedPayloadError} If any structural, signature, or claim
+   *         check fails.
+   * @throws {ExpiredSignedPayloadError} If the token is on or past `exp`.
+   */
+  verify(token: string): VerifiedSignedPayload {
+    const [headerB64, payloadB64, signatureB64, ...extra] = token.split('.');
+
+    if (!headerB64 || !payloadB64 || !signatureB64 || extra.length > 0) {
+      throw new InvalidSignedPayloadError('malformed');
+    }
+
+    const header = this.decodeSegment(headerB64);
+
+    if (header.alg !== 'HS256') {
+      throw new InvalidSignedPayloadError('algorithm');
+    }
+
+    this.verifySignature(`${headerB64}.${payloadB64}`, signatureB64);
+
+    const claims = this.decodeSegment(payloadB64);
+
+    if (claims.aud !== this.clientId) {
+      throw new InvalidSignedPayloadError('audience');
+    }
+
+    if (claims.iss !== this.issuer) {
+      throw new InvalidSignedPayloadError('issuer');
+    }
+
+    this.validateLifetime(claims);
+
+    const match = typeof claims.sub === 'string' ? SUB_PATTERN.exec(claims.sub) : null;
+    const storeHash = match?.groups?.hash;
+
+    if (!storeHash) {
+      throw new InvalidSignedPayloadError('subject');
+    }
+
+    return { ...(claims as unknown as VerifiedSignedPayload), storeHash };
+  }
+
+  /**
+   * Decode a Base64-URL JWT segment into a JSON object.
+   *
+   * @throws {InvalidSignedPayloadError} If the segment is not a JSON object.
+   */
+  private decodeSegment(segment: string): Record<string, unknown> {
+    try {
+      const parsed: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new InvalidSignedPayloadError('malformed');
+      }
+
+      return parsed as Record<string, unknown>;
+    } catch {
+      throw new InvalidSignedPayloadError('malformed');
+    }
+  }
+
+  /**
+   * Compute the expected HMAC-SHA256 signature and compare it to the supplied
+   * one in constant time.
+   *
+   * @throws {InvalidSignedPayloadError} If the signatures differ.
+   */
+  private verifySignature(signingInput: string, signatureB64: string) {
+    const expected = createHmac('sha256', this.clientSecret).update(signingInput).digest();
+    const actual = Buffer.from(signatureB64, 'base64url');
+
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new InvalidSignedPayloadError('signature');
+    }
+  }
+
+  /**
+   * Ensure the token is being used within its validity window, widened on
+   * both ends by the configured clock skew.
+   *
+   * @throws {InvalidSignedPayloadError} If the token is not yet valid.
+   * @throws {ExpiredSignedPayloadError} If the token has expired.
+   */
+  private validateLifetime(claims: Record<string, unknown>) {
+    const { nbf, exp } = claims;
+    const now = this.now();
+
+    if (typeof exp !== 'number') {
+      throw new InvalidSignedPayloadError('malformed');
+    }
+
+    if (typeof nbf === 'number' && now + this.clockSkewSeconds < nbf) {
+      throw new InvalidSignedPayloadError('not_before');
+    }
+
+    if (now - this.clockSkewSeconds >= exp) {
+      throw new ExpiredSignedPayloadError(exp);
+    }
+  }
+}
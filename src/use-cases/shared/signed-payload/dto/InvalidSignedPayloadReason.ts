@@ -0,0 +1,13 @@
+/**
+ * Identifies which verification step rejected a `signed_payload_jwt`.
+ *
+ * - `"malformed"` — not three Base64-URL parts, or the header/payload is not JSON.
+ * - `"algorithm"` — the header does not declare `HS256`.
+ * - `"signature"` — the HMAC-SHA256 signature does not match the client secret.
+ * - `"audience"` — `aud` is not the app's client id.
+ * - `"issuer"` — `iss` is not the expected issuer.
+ * - `"subject"` — `sub` is not in the `stores/{hash}` format.
+ * - `"not_before"` — the token is used before its `nbf` timestamp.
+ */
+export type InvalidSignedPayloadReason =
+  'malformed' | 'algorithm' | 'signature' | 'audience' | 'issuer' | 'subject' | 'not_before';
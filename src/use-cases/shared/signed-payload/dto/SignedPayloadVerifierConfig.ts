@@ -0,0 +1,32 @@
+/**
+ * Configuration object for constructing a {@link SignedPayloadJwtVerifier}.
+ */
+export interface SignedPayloadVerifierConfig {
+  /**
+   * The app's BigCommerce client id. Tokens whose `aud` claim does not match
+   * are rejected.
+   */
+  clientId: string;
+
+  /**
+   * The app's BigCommerce client secret, used as the HMAC-SHA256 key.
+   */
+  clientSecret: string;
+
+  /**
+   * Expected value of the `iss` claim. Defaults to `"bc"`.
+   */
+  issuer?: string;
+
+  /**
+   * Number of seconds of clock drift tolerated when checking `nbf` and `exp`.
+   * Defaults to `5`.
+   */
+  clockSkewSeconds?: number;
+
+  /**
+   * Returns the current time in Unix seconds. Defaults to the system clock;
+   * override in tests to verify tokens at a fixed instant.
+   */
+  now?: () => number;
+}
@@ -0,0 +1,13 @@
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+
+/**
+ * Claims returned by {@link SignedPayloadJwtVerifier} once every check has
+ * passed. Extends the upstream {@link SignedPayloadClaims} with the store
+ * hash already extracted from `sub`, so consumers never parse it themselves.
+ */
+export interface VerifiedSignedPayload extends SignedPayloadClaims {
+  /**
+   * Hash of the store the token was issued for (e.g., `"abc123"`).
+   */
+  readonly storeHash: string;
+}
@@ -0,0 +1,11 @@
+/**
+ * Thrown by {@link SignedPayloadJwtVerifier} when a `signed_payload_jwt` is
+ * used on or after its `exp` timestamp, once clock skew has been accounted for.
+ *
+ * Controllers map this to the `expired_signed_payload` code.
+ */
+export class ExpiredSignedPayloadError extends Error {
+  constructor(readonly expiredAt: number) {
+    super(`Signed payload expired at ${new Date(expiredAt * 1000).toISOString()}.`);
+  }
+}
@@ -0,0 +1,15 @@
+import type { InvalidSignedPayloadReason } from '../dto/InvalidSignedPayloadReason.js';
+
+/**
+ * Thrown by {@link SignedPayloadJwtVerifier} when a `signed_payload_jwt` is
+ * malformed, forged, or was issued for a different app or store.
+ *
+ * The {@link reason} field identifies which check failed so callers can log
+ * it without exposing the token itself. Controllers map this to the
+ * `invalid_signature` or `invalid_signed_payload` codes.
+ */
+export class InvalidSignedPayloadError extends Error {
+  constructor(readonly reason: InvalidSignedPayloadReason) {
+    super(`Invalid signed payload: ${reason} check failed.`);
+  }
+}
@@ -0,0 +1,8 @@
+export * from './SignedPayloadJwtVerifier.js';
+
+export * from './dto/InvalidSignedPayloadReason.js';
+export * from './dto/SignedPayloadVerifierConfig.js';
+export * from './dto/VerifiedSignedPayload.js';
+
+export * from './errors/ExpiredSignedPayloadError.js';
+export * from './errors/InvalidSignedPayloadError.js';
@@ -0,0 +1,115 @@
+import type { UninstallAppUseCase } from 'bigcommerce-oauth/use-cases/uninstall';
+import { ErrorCatalog } from '@/use-cases/shared/errors/ErrorCatalog.js';
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import { SignedPayloadController } from '@/use-cases/shared/http/SignedPayloadController.js';
+import type { UninstallHandlerConfig } from './dto/UninstallHandlerConfig.js';
+import type { UninstallResult } from './dto/UninstallResult.js';
+
+/**
+ * Controller responsible for adapting an incoming BigCommerce **uninstall**
+ * callback into a call to the {@link UninstallAppUseCase}.
+ *
+ * BigCommerce calls the uninstall callback server-to-server, so unlike the
+ * install and load flows there is no user to redirect. This controller:
+ * - extracts the `signed_payload_jwt` from the request,
+ * - invokes the uninstall use case to verify it and remove store data,
+ * - normalizes the result into a framework-agnostic DTO,
+ * - returns a plain JSON status response.
+ *
+ * It works with standard Web Fetch `Request` and `Response` objects only, so
+ * the handler serves Next.js route handlers and other Fetch-based runtimes
+ * without depending on `next`.
+ *
+ * Consumers should obtain a handler using the static
+ * {@link UninstallController.create} method.
+ *
+ * Subclasses may override protected methods to customize error mapping,
+ * parameter extraction, or the response shape.
+ */
+export class UninstallController extends SignedPayloadController {
+  /**
+   * The use case responsible for verifying the signed payload and removing
+   * the store's tokens and data.
+   */
+  protected readonly uninstallApp: UninstallAppUseCase;
+
+  /**
+   * Protected constructor ensures that controller instances are created only
+   * through the factory method ({@link UninstallController.create}) or by
+   * subclasses.
+   */
+  protected constructor(config: UninstallHandlerConfig) {
+    super();
+    this.uninstallApp = config.uninstallApp;
+  }
+
+  /**
+   * Factory method that returns a `(request: Request) => Promise<Response>`
+   * handler, usable as a Next.js route handler.
+   *
+   * @example
+   * export const GET = UninstallController.create({ uninstallApp });
+   */
+  static create(config: UninstallHandlerConfig) {
+    const controller = new UninstallController(config);
+    return controller.handle.bind(controller);
+  }
+
+  /**
+   * Handles a uninstall callback.
+   *
+   * @param request Incoming request
+   * @returns A `Response` carrying the uninstall outcome as JSON
+   */
+  async handle(request: Request): Promise<Response> {
+    const outcome = await this.performUninstall(request);
+    return this.buildStatusResponse(outcome);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Protected helper methods — intended for subclass extension only
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Executes the uninstall use case and returns a normalized result object.
+   *
+   * @param req Incoming request
+   * @returns An {@link UninstallResult} describing success or failure
+   */
+  protected async performUninstall(req: Request): Promise<UninstallResult> {
+    try {
+      const signedPayloadJwt = this.getSignedPayload(req);
+
+      const claims = await this.uninstallApp.execute({ signedPayloadJwt }, {});
+
+      return { status: 'success', context: claims.sub };
+    } catch (err) {
+      return { status: 'error', errorCode: this.mapErrorToCode(err) };
+    }
+  }
+
+  /**
+   * Maps an error code to the HTTP status returned to BigCommerce, as listed
+   * in the {@link ErrorCatalog}. Client errors tell BigCommerce not to bother
+   * retrying; anything unexpected is reported as a server error.
+   *
+   * @param errorCode Code produced by {@link mapErrorToCode}
+   * @returns An HTTP status code
+   */
+  protected mapErrorToStatus(errorCode: ErrorCode): number {
+    return ErrorCatalog[errorCode].status;
+  }
+
+  /**
+   * Builds a plain JSON response describing the uninstall outcome.
+   *
+   * @param outcome The normalized result of executing the uninstall flow
+   * @returns A JSON `Response` with `200` on success or an error status
+   */
+  protected buildStatusResponse(outcome: UninstallResult): Response {
+    const status =
+      outcome.status === 'success' ? 200 : this.mapErrorToStatus(outcome.errorCode ?? 'unknown');
+
+    return Response.json(outcome, { status });
+  }
+}
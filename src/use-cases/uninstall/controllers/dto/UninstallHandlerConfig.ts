@@ -0,0 +1,21 @@
+import type { UninstallAppUseCase } from 'bigcommerce-oauth/use-cases/uninstall';
+
+/**
+ * Configuration object for constructing an {@link UninstallController}.
+ *
+ * This configuration belongs to the interface-adapters layer and defines
+ * which use case the controller should delegate the BigCommerce **uninstall**
+ * callback to.
+ *
+ * The controller itself is responsible only for:
+ * - extracting the `signed_payload_jwt` query parameter,
+ * - invoking the {@link UninstallAppUseCase},
+ * - preparing a plain status response for BigCommerce.
+ */
+export interface UninstallHandlerConfig {
+  /**
+   * The use case responsible for verifying the signed payload. Decorate it to
+   * delete tokens and store data once the payload has been verified.
+   */
+  uninstallApp: UninstallAppUseCase;
+}
@@ -0,0 +1,31 @@
+import type { ErrorCode } from '@/use-cases/shared/errors/dto/ErrorCode.js';
+import type { UninstallStatus } from './UninstallStatus.js';
+
+/**
+ * Represents the normalized outcome of an uninstall callback handled by the
+ * {@link UninstallController}. Serialized as the JSON body of the response
+ * returned to BigCommerce.
+ */
+export interface UninstallResult {
+  /**
+   * High-level status of the uninstall callback.
+   *
+   * - `"success"` — The store was uninstalled.
+   * - `"error"` — Verification or the uninstall use case failed.
+   */
+  status: UninstallStatus;
+
+  /**
+   * BigCommerce store context taken from the verified `sub` claim
+   * (e.g., `"stores/abc"`). Present only on success.
+   */
+  context?: string;
+
+  /**
+   * Optional machine-friendly identifier describing why the uninstall
+   * callback failed (e.g., `"missing_signed_payload"`, `"invalid_signature"`).
+   *
+   * This is provided only when `status` is `"error"`.
+   */
+  errorCode?: ErrorCode;
+}
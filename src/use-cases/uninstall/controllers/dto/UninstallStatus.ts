@@ -0,0 +1,7 @@
+/**
+ * Represents the high-level outcome of handling an uninstall callback.
+ *
+ * - `"success"` — the signed payload was verified and the use case completed.
+ * - `"error"` — the payload was missing or invalid, or the use case failed.
+ */
+export type UninstallStatus = 'success' | 'error';
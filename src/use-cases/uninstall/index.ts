@@ -0,0 +1,8 @@
+export * from './controllers/UninstallController.js';
+
+export * from './controllers/dto/UninstallHandlerConfig.js';
+export * from './controllers/dto/UninstallResult.js';
+export * from './controllers/dto/UninstallStatus.js';
+
+export * from '../shared/errors/index.js';
+export * from '../shared/signed-payload/index.js';
@@ -0,0 +1,55 @@
+import { BigCommerceOAuthClient } from 'bigcommerce-oauth/gateways/BigCommerce';
+import { InstallApp } from 'bigcommerce-oauth/use-cases/install';
+import { loadBigCommerceConfig } from '__PACKAGE__';
+
+// Throws one error listing every missing or malformed variable.
+const { clientId, clientSecret } = loadBigCommerceConfig();
+
+/**
+ * Composition root for the installation feature.
+ *
+ * This file belongs to the **framework layer** and is responsible for
+ * constructing the concrete dependencies required by the installation
+ * use case. No business logic should exist here — only wiring.
+ *
+ * Responsibilities:
+ * - Instantiate the BigCommerce OAuth gateway,
+ * - Create the `InstallApp` use case,
+ * - Apply optional decorators (e.g., persistence, analytics, auditing),
+ * - Export a fully assembled `InstallAppUseCase` ready for the controller.
+ *
+ * This keeps the use case completely framework-agnostic and ensures that the
+ * controller receives a fully configured dependency.
+ */
+
+// Concrete OAuth gateway used by the installation use case.
+const oauthClient = new BigCommerceOAuthClient(clientId, clientSecret);
+
+// Example of optional repository + decorator wiring. Swap the JSON file for
+// your own `StoreRepository` implementation in production:
+//
+// import {
+//   EncryptedStoreRepository,
+//   JsonFileStoreRepository,
+//   PersistStoreOnInstall,
+//   parseTokenEncryptionKeys,
+// } from '__PACKAGE__';
+//
+// // Access tokens are encrypted at rest; BIGCOMMERCE_TOKEN_KEYS="id:base64key,..."
+// const storeRepository = EncryptedStoreRepository.create(
+//   new JsonFileStoreRepository('.data/stores.json'),
+//   { keys: parseTokenEncryptionKeys(process.env.BIGCOMMERCE_TOKEN_KEYS || '') },
+// );
+// /** @type {import('bigcommerce-oauth/use-cases/install').InstallAppUseCase} */
+// let installApp = new InstallApp(oauthClient);
+// installApp = new PersistStoreOnInstall(installApp, storeRepository);
+
+/**
+ * Fully constructed installation use case instance.
+ * Exported for consumption by the InstallController.
+ *
+ * @type {import('bigcommerce-oauth/use-cases/install').InstallAppUseCase}
+ */
+const installApp = new InstallApp(oauthClient);
+
+export { installApp };
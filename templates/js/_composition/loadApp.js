@@ -0,0 +1,20 @@
+import { LoadApp } from 'bigcommerce-oauth/use-cases/load';
+import { signedPayloadVerifier } from './signedPayloadVerifier';
+
+/**
+ * Composition root for the load feature.
+ *
+ * This file belongs to the **framework layer** and is responsible for
+ * constructing the concrete dependencies required by the load use case.
+ * No business logic should exist here — only wiring.
+ *
+ * Responsibilities:
+ * - Create the `LoadApp` use case with the shared signed payload verifier,
+ * - Apply optional decorators (e.g., analytics, auditing),
+ * - Export a fully assembled `LoadAppUseCase` ready for the controller.
+ *
+ * @type {import('bigcommerce-oauth/use-cases/load').LoadAppUseCase}
+ */
+const loadApp = new LoadApp(signedPayloadVerifier);
+
+export { loadApp };
@@ -0,0 +1,29 @@
+import { RemoveUser } from 'bigcommerce-oauth/use-cases/remove-user';
+import { signedPayloadVerifier } from './signedPayloadVerifier';
+
+/**
+ * Composition root for the remove-user feature.
+ *
+ * This file belongs to the **framework layer** and is responsible for
+ * constructing the concrete dependencies required by the remove-user use
+ * case. No business logic should exist here — only wiring.
+ *
+ * Responsibilities:
+ * - Create the `RemoveUser` use case with the shared signed payload verifier,
+ * - Apply optional decorators (e.g., revoking the user's access),
+ * - Export a fully assembled `RemoveUserUseCase` ready for the controller.
+ */
+
+// Example of removing the user from the stored record. Use the same
+// `StoreRepository` as the install composition root:
+//
+// import { RemoveUserFromStore } from '__PACKAGE__';
+//
+// /** @type {import('bigcommerce-oauth/use-cases/remove-user').RemoveUserUseCase} */
+// let removeUser = new RemoveUser(signedPayloadVerifier);
+// removeUser = new RemoveUserFromStore(removeUser, storeRepository);
+
+/** @type {import('bigcommerce-oauth/use-cases/remove-user').RemoveUserUseCase} */
+const removeUser = new RemoveUser(signedPayloadVerifier);
+
+export { removeUser };
@@ -0,0 +1,29 @@
+import { UninstallApp } from 'bigcommerce-oauth/use-cases/uninstall';
+import { signedPayloadVerifier } from './signedPayloadVerifier';
+
+/**
+ * Composition root for the uninstall feature.
+ *
+ * This file belongs to the **framework layer** and is responsible for
+ * constructing the concrete dependencies required by the uninstall use case.
+ * No business logic should exist here — only wiring.
+ *
+ * Responsibilities:
+ * - Create the `UninstallApp` use case with the shared signed payload verifier,
+ * - Apply optional decorators (e.g., deleting the stored access token),
+ * - Export a fully assembled `UninstallAppUseCase` ready for the controller.
+ */
+
+// Example of deleting the store record once the merchant uninstalls. Use
+// the same `StoreRepository` as the install composition root:
+//
+// import { DeleteStoreOnUninstall } from '__PACKAGE__';
+//
+// /** @type {import('bigcommerce-oauth/use-cases/uninstall').UninstallAppUseCase} */
+// let uninstallApp = new UninstallApp(signedPayloadVerifier);
+// uninstallApp = new DeleteStoreOnUninstall(uninstallApp, storeRepository);
+
+/** @type {import('bigcommerce-oauth/use-cases/uninstall').UninstallAppUseCase} */
+const uninstallApp = new UninstallApp(signedPayloadVerifier);
+
+export { uninstallApp };
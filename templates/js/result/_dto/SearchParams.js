@@ -0,0 +1,23 @@
+/**
+ * Represents the normalized query parameters passed to the installation
+ * result page after the OAuth installation flow completes.
+ *
+ * These values are appended to the redirect URL by the {@link InstallController}
+ * and consumed by the server component (`page.jsx`) before being forwarded to
+ * the `AuthResult` presenter.
+ *
+ * @typedef {object} SearchParams
+ * @property {'success' | 'error'} [status] High-level result of the
+ *   installation flow. Defaults to `"success"` when omitted.
+ * @property {string} [code] Optional error identifier describing the
+ *   installation failure. Present only when `status` is `"error"`. Untrusted:
+ *   resolve it with `describeError` before use.
+ * @property {string} [context] Optional BigCommerce store context returned by
+ *   the OAuth callback, typically in the format `"stores/{storeHash}"`.
+ *   Provided only when installation succeeds.
+ * @property {string} [missing_scopes] Space-separated list of required OAuth
+ *   scopes the merchant did not grant. Present only when `code` is
+ *   `"insufficient_scope"`.
+ */
+
+export {};
@@ -0,0 +1,69 @@
+'use client';
+
+import { Box, H1, Panel, Text } from '@bigcommerce/big-design';
+
+/**
+ * Client-side presenter for displaying the result of the BigCommerce app
+ * installation process. Renders either a success or error view based on the
+ * normalized installation status passed from the server.
+ *
+ * When `adminAppUrl` is provided, the component also enables navigation to the
+ * app inside the BigCommerce control panel by safely redirecting the top frame.
+ *
+ * @param {import('./_dto/AuthResultProps').AuthResultProps} props
+ */
+export function AuthResult({
+  status = 'success',
+  code,
+  message,
+  retryable,
+  missingScopes,
+}) {
+  const isSuccess = status === 'success';
+
+  return (
+    <Box padding="xxLarge">
+      <Panel>
+        {isSuccess ? (
+          <>
+            <H1 marginBottom="medium">__APP_NAME__ Installed 🎉</H1>
+
+            <Text marginBottom="large">The app is now connected to this BigCommerce store.</Text>
+
+            <Text marginBottom="medium">
+              You&apos;re all set! You can now open <strong>Apps → __APP_NAME__</strong> from the
+              BigCommerce control panel to configure your settings and start using the app.
+            </Text>
+          </>
+        ) : (
+          <>
+            <H1 marginBottom="medium">Installation Failed 😕</H1>
+
+            <Text marginBottom="medium">
+              {message ?? 'Something went wrong during the installation process.'}
+            </Text>
+
+            {code && (
+              <Text marginBottom="medium">
+                <strong>Error code:</strong> {code}
+              </Text>
+            )}
+
+            {missingScopes && missingScopes.length > 0 && (
+              <Text marginBottom="medium">
+                <strong>Permissions not granted:</strong> {missingScopes.join(', ')}. The app needs
+                these permissions to work; please approve them when reinstalling.
+              </Text>
+            )}
+
+            <Text marginBottom="large">
+              {retryable
+                ? 'This is usually temporary, so trying again in a moment should work.'
+                : 'If the issue persists, contact support and provide the error code above.'}
+            </Text>
+          </>
+        )}
+      </Panel>
+    </Box>
+  );
+}
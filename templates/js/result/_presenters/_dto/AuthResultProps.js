@@ -0,0 +1,26 @@
+/**
+ * Props passed to the {@link AuthResult} client component, representing the
+ * outcome of the app installation flow as interpreted on the frontend.
+ *
+ * These values are derived from query parameters appended by the
+ * {@link InstallController} after completing the OAuth installation process.
+ *
+ * @typedef {object} AuthResultProps
+ * @property {'success' | 'error'} [status] High-level result of the
+ *   installation process: `"success"` when it completed without errors,
+ *   `"error"` when a validation or OAuth problem occurred.
+ * @property {import('__PACKAGE__').ErrorCode} [code] Catalog code describing
+ *   why installation failed. Present only when `status` is `"error"`.
+ * @property {string} [message] Merchant-facing explanation of the failure,
+ *   taken from the error catalog. Present only when `status` is `"error"`.
+ * @property {boolean} [retryable] Whether the failure is transient, so simply
+ *   trying again may succeed. Present only when `status` is `"error"`.
+ * @property {string} [context] Optional BigCommerce store context returned
+ *   during OAuth (e.g., `"stores/yt49yev1ez"`). Provided on successful
+ *   installation.
+ * @property {string[]} [missingScopes] Required OAuth scopes the merchant did
+ *   not grant during installation. Present only when `code` is
+ *   `"insufficient_scope"`.
+ */
+
+export {};
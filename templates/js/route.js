@@ -0,0 +1,34 @@
+import { loadBigCommerceConfig } from '__PACKAGE__';
+import { InstallController } from '__PACKAGE__/next';
+import { installApp } from './_composition/installApp';
+
+const { redirectUri } = loadBigCommerceConfig();
+
+/**
+ * Next.js route entrypoint for handling the `/__BASE_PATH__` installation callback
+ * from BigCommerce.
+ *
+ * This file belongs to the **framework layer** and contains no business logic.
+ * Its sole responsibility is to:
+ *
+ * - read the validated environment configuration,
+ * - instantiate an {@link InstallController} using the pre-assembled
+ *   `installApp` use case,
+ * - expose a Next.js-compatible `GET` handler.
+ *
+ * The controller adapts the request into a use-case invocation and produces
+ * an appropriate redirect response based on the installation outcome.
+ *
+ * @see InstallController
+ * @see installApp
+ */
+export const GET = InstallController.create({
+  installApp,
+  redirectUri,
+  // #if ui
+  successPath: '__SUCCESS_PATH__',
+  errorPath: '__ERROR_PATH__',
+  // #else
+  responseMode: 'html',
+  // #endif
+});
@@ -0,0 +1,15 @@
+import { UninstallController } from '__PACKAGE__/next';
+import { uninstallApp } from '../_composition/uninstallApp';
+
+/**
+ * Next.js route entrypoint for handling the `/__BASE_PATH__/uninstall`
+ * callback BigCommerce sends when a merchant uninstalls the app.
+ *
+ * This file belongs to the **framework layer** and contains no business logic.
+ * The controller verifies the `signed_payload_jwt` and answers with a JSON
+ * status BigCommerce can log.
+ *
+ * @see UninstallController
+ * @see uninstallApp
+ */
+export const GET = UninstallController.create({ uninstallApp });
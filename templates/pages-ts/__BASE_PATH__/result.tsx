@@ -0,0 +1,116 @@
+import { Box, H1, Panel, Text } from '@bigcommerce/big-design';
+import type { ErrorCode } from '__PACKAGE__';
+import { describeError } from '__PACKAGE__';
+import type { GetServerSideProps } from 'next';
+
+/**
+ * Props of the installation result page, derived from the query parameters
+ * appended by the {@link PagesInstallController}. `null` stands for an
+ * absent value, since page props must be serializable.
+ */
+type AuthResultProps = {
+  /**
+   * High-level result of the installation process.
+   */
+  status: 'success' | 'error';
+
+  /**
+   * Catalog code describing why installation failed.
+   */
+  code: ErrorCode | null;
+
+  /**
+   * Merchant-facing explanation of the failure, taken from the error catalog.
+   */
+  message: string | null;
+
+  /**
+   * Whether the failure is transient, so simply trying again may succeed.
+   */
+  retryable: boolean;
+
+  /**
+   * Required OAuth scopes the merchant did not grant during installation.
+   */
+  missingScopes: string[];
+};
+
+/**
+ * Reads the redirect's query parameters on the server and resolves the error
+ * code against the package's error catalog, so only known codes and their
+ * merchant-facing messages reach the page.
+ */
+export const getServerSideProps: GetServerSideProps<AuthResultProps> = async ({ query }) => {
+  const status = query.status === 'error' ? 'error' : 'success';
+  const code = typeof query.code === 'string' ? query.code : undefined;
+  const missingScopes = typeof query.missing_scopes === 'string' ? query.missing_scopes : '';
+  const error = status === 'error' ? describeError(code) : undefined;
+
+  return {
+    props: {
+      status,
+      code: error?.code ?? null,
+      message: error?.message ?? null,
+      retryable: error?.retryable ?? false,
+      missingScopes: missingScopes.split(' ').filter(Boolean),
+    },
+  };
+};
+
+/**
+ * Displays the result of the BigCommerce app installation process: either a
+ * success or an error view based on the normalized installation status.
+ */
+export default function AuthResultPage({
+  status,
+  code,
+  message,
+  retryable,
+  missingScopes,
+}: AuthResultProps) {
+  return (
+    <Box padding="xxLarge">
+      <Panel>
+        {status === 'success' ? (
+          <>
+            <H1 marginBottom="medium">__APP_NAME__ Installed 🎉</H1>
+
+            <Text marginBottom="large">The app is now connected to this BigCommerce store.</Text>
+
+            <Text marginBottom="medium">
+              You&apos;re all set! You can now open <strong>Apps → __APP_NAME__</strong> from the
+              BigCommerce control panel to configure your settings and start using the app.
+            </Text>
+          </>
+        ) : (
+          <>
+            <H1 marginBottom="medium">Installation Failed 😕</H1>
+
+            <Text marginBottom="medium">
+              {message ?? 'Something went wrong during the installation process.'}
+            </Text>
+
+            {code && (
+              <Text marginBottom="medium">
+                <strong>Error code:</strong> {code}
+              </Text>
+            )}
+
+            {missingScopes.length > 0 && (
+              <Text marginBottom="medium">
+                <strong>Permissions not granted:</strong> {missingScopes.join(', ')}. The app needs
+                these permissions to work; please approve them when reinstalling.
+              </Text>
+            )}
+
+            <Text marginBottom="large">
+              {retryable
+                ? 'This is usually temporary, so trying again in a moment should work.'
+                : 'If the issue persists, contact support and provide the error code above.'}
+            </Text>
+          </>
+        )}
+      </Panel>
+    </Box>
+  );
+}
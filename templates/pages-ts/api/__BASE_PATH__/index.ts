@@ -0,0 +1,64 @@
+import { BigCommerceOAuthClient } from 'bigcommerce-oauth/gateways/BigCommerce';
+import type { InstallAppUseCase } from 'bigcommerce-oauth/use-cases/install';
+import { InstallApp } from 'bigcommerce-oauth/use-cases/install';
+import { loadBigCommerceConfig } from '__PACKAGE__';
+import { PagesInstallController } from '__PACKAGE__/next';
+
+// Throws one error listing every missing or malformed variable.
+const { clientId, clientSecret, redirectUri } = loadBigCommerceConfig();
+
+/**
+ * Composition root for the installation feature.
+ *
+ * Every file under `pages/api` becomes an API route, so the wiring lives in
+ * this file instead of a separate `_composition` module. No business logic
+ * should exist here — only wiring.
+ *
+ * Example of optional repository + decorator wiring. Swap the JSON file for
+ * your own `StoreRepository` implementation in production:
+ *
+ * ```ts
+ * import {
+ *   EncryptedStoreRepository,
+ *   JsonFileStoreRepository,
+ *   PersistStoreOnInstall,
+ *   parseTokenEncryptionKeys,
+ * } from '__PACKAGE__';
+ *
+ * // Access tokens are encrypted at rest; BIGCOMMERCE_TOKEN_KEYS="id:base64key,..."
+ * const storeRepository = EncryptedStoreRepository.create(
+ *   new JsonFileStoreRepository('.data/stores.json'),
+ *   { keys: parseTokenEncryptionKeys(process.env.BIGCOMMERCE_TOKEN_KEYS || '') },
+ * );
+ * const installApp: InstallAppUseCase = new PersistStoreOnInstall(
+ *   new InstallApp(oauthClient),
+ *   storeRepository,
+ * );
+ * ```
+ */
+const oauthClient = new BigCommerceOAuthClient(clientId, clientSecret);
+const installApp: InstallAppUseCase = new InstallApp(oauthClient);
+
+/**
+ * Pages Router API route for handling the `/api/__BASE_PATH__` installation
+ * callback from BigCommerce.
+ *
+ * This file belongs to the **framework layer** and contains no business logic.
+ * The {@link PagesInstallController} adapts the request into a use-case
+ * invocation and answers based on the installation outcome, exactly like the
+ * App Router `InstallController`.
+ *
+ * Register `https://<your-domain>/api/__BASE_PATH__` as the Auth Callback URL.
+ *
+ * @see PagesInstallController
+ */
+export default PagesInstallController.create({
+  installApp,
+  redirectUri,
+  // #if ui
+  successPath: '__SUCCESS_PATH__',
+  errorPath: '__ERROR_PATH__',
+  // #else
+  responseMode: 'html',
+  // #endif
+});
@@ -1,8 +1,10 @@
 import { BigCommerceOAuthClient } from 'bigcommerce-oauth/gateways/BigCommerce';
 import type { InstallAppUseCase } from 'bigcommerce-oauth/use-cases/install';
 import { InstallApp } from 'bigcommerce-oauth/use-cases/install';
+import { loadBigCommerceConfig } from '__PACKAGE__';
 
-const { BIGCOMMERCE_CLIENT_ID, BIGCOMMERCE_CLIENT_SECRET } = process.env;
+// Throws one error listing every missing or malformed variable.
+const { clientId, clientSecret } = loadBigCommerceConfig();
 
 /**
  * Composition root for the installation feature.
@@ -22,16 +24,25 @@ const { BIGCOMMERCE_CLIENT_ID, BIGCOMMERCE_CLIENT_SECRET } = process.env;
  */
 
 // Concrete OAuth gateway used by the installation use case.
-const oauthClient = new BigCommerceOAuthClient(
-  BIGCOMMERCE_CLIENT_ID || '',
-  BIGCOMMERCE_CLIENT_SECRET || '',
-);
+const oauthClient = new BigCommerceOAuthClient(clientId, clientSecret);
 
-// Example of optional repository + decorator wiring:
+// Example of optional repository + decorator wiring. Swap the JSON file for
+// your own `StoreRepository` implementation in production:
 //
-// const storeRepo = new SupabaseStoreRepository();
+// import {
+//   EncryptedStoreRepository,
+//   JsonFileStoreRepository,
+//   PersistStoreOnInstall,
+//   parseTokenEncryptionKeys,
+// } from '__PACKAGE__';
+//
+// // Access tokens are encrypted at rest; BIGCOMMERCE_TOKEN_KEYS="id:base64key,..."
+// const storeRepository = EncryptedStoreRepository.create(
+//   new JsonFileStoreRepository('.data/stores.json'),
+//   { keys: parseTokenEncryptionKeys(process.env.BIGCOMMERCE_TOKEN_KEYS || '') },
+// );
 // let installApp: InstallAppUseCase = new InstallApp(oauthClient);
-// installApp = new UpsertStoreFromSession(installApp, storeRepo);
+// installApp = new PersistStoreOnInstall(installApp, storeRepository);
 
 /**
  * Fully constructed installation use case instance.
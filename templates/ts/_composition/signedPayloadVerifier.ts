@@ -0,0 +1,13 @@
+import { SignedPayloadJwtVerifier, loadBigCommerceConfig } from '__PACKAGE__';
+
+// Throws one error listing every missing or malformed variable.
+const { clientId, clientSecret } = loadBigCommerceConfig();
+
+/**
+ * Verifier shared by the load, uninstall, and remove-user callbacks.
+ *
+ * Checks the `signed_payload_jwt` signature with the app's client secret and
+ * confirms the token was issued for this app (`aud`) and a store (`sub`)
+ * before any use case sees its claims.
+ */
+export const signedPayloadVerifier = new SignedPayloadJwtVerifier({ clientId, clientSecret });
@@ -0,0 +1,28 @@
+import type { UninstallAppUseCase } from 'bigcommerce-oauth/use-cases/uninstall';
+import { UninstallApp } from 'bigcommerce-oauth/use-cases/uninstall';
+import { signedPayloadVerifier } from './signedPayloadVerifier';
+
+/**
+ * Composition root for the uninstall feature.
+ *
+ * This file belongs to the **framework layer** and is responsible for
+ * constructing the concrete dependencies required by the uninstall use case.
+ * No business logic should exist here — only wiring.
+ *
+ * Responsibilities:
+ * - Create the `UninstallApp` use case with the shared signed payload verifier,
+ * - Apply optional decorators (e.g., deleting the stored access token),
+ * - Export a fully assembled `UninstallAppUseCase` ready for the controller.
+ */
+
+// Example of deleting the store record once the merchant uninstalls. Use
+// the same `StoreRepository` as the install composition root:
+//
+// import { DeleteStoreOnUninstall } from '__PACKAGE__';
+//
+// let uninstallApp: UninstallAppUseCase = new UninstallApp(signedPayloadVerifier);
+// uninstallApp = new DeleteStoreOnUninstall(uninstallApp, storeRepository);
+
+const uninstallApp: UninstallAppUseCase = new UninstallApp(signedPayloadVerifier);
+
+export { uninstallApp };
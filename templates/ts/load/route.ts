@@ -0,0 +1,26 @@
+import { loadBigCommerceConfig } from '__PACKAGE__';
+import { LoadController } from '__PACKAGE__/next';
+import { loadApp } from '../_composition/loadApp';
+
+const { redirectUri } = loadBigCommerceConfig();
+
+/**
+ * Next.js route entrypoint for handling the `/__BASE_PATH__/load` callback
+ * BigCommerce sends each time a merchant opens the app.
+ *
+ * This file belongs to the **framework layer** and contains no business logic.
+ * The controller verifies the `signed_payload_jwt` and redirects into the app
+ * with the verified store context, on the origin of the app's
+ * `redirectUri`.
+ *
+ * @see LoadController
+ * @see loadApp
+ */
+export const GET = LoadController.create({
+  loadApp,
+  publicBaseUrl: redirectUri,
+  appPath: '/',
+  // #if ui
+  errorPath: '__ERROR_PATH__',
+  // #endif
+});
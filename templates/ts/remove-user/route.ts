@@ -0,0 +1,15 @@
+import { RemoveUserController } from '__PACKAGE__/next';
+import { removeUser } from '../_composition/removeUser';
+
+/**
+ * Next.js route entrypoint for handling the `/__BASE_PATH__/remove-user`
+ * callback BigCommerce sends when a store owner revokes a user's access.
+ *
+ * This file belongs to the **framework layer** and contains no business logic.
+ * The controller verifies the `signed_payload_jwt` and answers with a JSON
+ * status BigCommerce can log.
+ *
+ * @see RemoveUserController
+ * @see removeUser
+ */
+export const GET = RemoveUserController.create({ removeUser });
@@ -15,7 +15,8 @@ export type SearchParams = {
 
   /**
    * Optional error identifier describing the installation failure.
-   * Present only when `status` is `"error"`.
+   * Present only when `status` is `"error"`. Untrusted: resolve it with
+   * `describeError` before use.
    */
   code?: string;
 
@@ -25,4 +26,10 @@ export type SearchParams = {
    * Provided only when installation succeeds.
    */
   context?: string;
+
+  /**
+   * Space-separated list of required OAuth scopes the merchant did not grant.
+   * Present only when `code` is `"insufficient_scope"`.
+   */
+  missing_scopes?: string;
 };
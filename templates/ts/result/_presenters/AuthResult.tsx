@@ -11,7 +11,13 @@ import type { AuthResultProps } from './_dto/AuthResultProps';
  * When `adminAppUrl` is provided, the component also enables navigation to the
  * app inside the BigCommerce control panel by safely redirecting the top frame.
  */
-export function AuthResult({ status = 'success', code }: AuthResultProps) {
+export function AuthResult({
+  status = 'success',
+  code,
+  message,
+  retryable,
+  missingScopes,
+}: AuthResultProps) {
   const isSuccess = status === 'success';
 
   return (
@@ -19,12 +25,12 @@ export function AuthResult({ status = 'success', code }: AuthResultProps) {
       <Panel>
         {isSuccess ? (
           <>
-            <H1 marginBottom="medium">My App Installed 🎉</H1>
+            <H1 marginBottom="medium">__APP_NAME__ Installed 🎉</H1>
 
             <Text marginBottom="large">The app is now connected to this BigCommerce store.</Text>
 
             <Text marginBottom="medium">
-              You&apos;re all set! You can now open <strong>Apps → My App</strong> from the
+              You&apos;re all set! You can now open <strong>Apps → __APP_NAME__</strong> from the
               BigCommerce control panel to configure your settings and start using the app.
             </Text>
           </>
@@ -32,7 +38,9 @@ export function AuthResult({ status = 'success', code }: AuthResultProps) {
           <>
             <H1 marginBottom="medium">Installation Failed 😕</H1>
 
-            <Text marginBottom="medium">Something went wrong during the installation process.</Text>
+            <Text marginBottom="medium">
+              {message ?? 'Something went wrong during the installation process.'}
+            </Text>
 
             {code && (
               <Text marginBottom="medium">
@@ -40,9 +48,17 @@ export function AuthResult({ status = 'success', code }: AuthResultProps) {
               </Text>
             )}
 
+            {missingScopes && missingScopes.length > 0 && (
+              <Text marginBottom="medium">
+                <strong>Permissions not granted:</strong> {missingScopes.join(', ')}. The app needs
+                these permissions to work; please approve them when reinstalling.
+              </Text>
+            )}
+
             <Text marginBottom="large">
-              Please try installing the app again. If the issue persists, contact support and
-              provide the error code above.
+              {retryable
+                ? 'This is usually temporary, so trying again in a moment should work.'
+                : 'If the issue persists, contact support and provide the error code above.'}
             </Text>
           </>
         )}
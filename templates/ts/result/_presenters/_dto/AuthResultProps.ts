@@ -1,3 +1,5 @@
+import type { ErrorCode } from '__PACKAGE__';
+
 /**
  * Props passed to the {@link AuthResult} client component, representing the
  * outcome of the app installation flow as interpreted on the frontend.
@@ -15,14 +17,32 @@ export type AuthResultProps = {
   status?: 'success' | 'error';
 
   /**
-   * Optional machine-readable error identifier describing why installation
-   * failed. Present only when `status` is `"error"`.
+   * Catalog code describing why installation failed. Present only when
+   * `status` is `"error"`.
+   */
+  code?: ErrorCode;
+
+  /**
+   * Merchant-facing explanation of the failure, taken from the error catalog.
+   * Present only when `status` is `"error"`.
+   */
+  message?: string;
+
+  /**
+   * Whether the failure is transient, so simply trying again may succeed.
+   * Present only when `status` is `"error"`.
    */
-  code?: string;
+  retryable?: boolean;
 
   /**
    * Optional BigCommerce store context returned during OAuth
    * (e.g., `"stores/yt49yev1ez"`). Provided on successful installation.
    */
   context?: string;
+
+  /**
+   * Required OAuth scopes the merchant did not grant during installation.
+   * Present only when `code` is `"insufficient_scope"`.
+   */
+  missingScopes?: string[];
 };
@@ -1,3 +1,4 @@
+import { describeError } from '__PACKAGE__';
 import type { SearchParams } from './_dto/SearchParams';
 import { AuthResult } from './_presenters/AuthResult';
 
@@ -13,7 +14,10 @@ import { AuthResult } from './_presenters/AuthResult';
  *
  * Responsibilities:
  * - Resolve the `searchParams` Promise provided by Next.js.
- * - Extract installation status, error code, and store context.
+ * - Extract installation status, error code, store context, and any
+ *   required scopes the merchant refused.
+ * - Resolve the error code against the package's error catalog, so only
+ *   known codes and their merchant-facing messages reach the presenter.
  * - Derive the absolute BigCommerce admin URL (`adminAppUrl`) when the
  *   installation succeeds. This URL is constructed using:
  *     - the store hash from the OAuth `context` parameter, and
@@ -33,7 +37,18 @@ export default async function AuthResultPage({
   searchParams: Promise<SearchParams>;
 }) {
   const resolved = await searchParams;
-  const { status, code, context } = resolved;
+  const { status, code, context, missing_scopes } = resolved;
+  const missingScopes = missing_scopes?.split(' ').filter(Boolean);
+  const error = status === 'error' ? describeError(code) : undefined;
 
-  return <AuthResult status={status} code={code} context={context} />;
+  return (
+    <AuthResult
+      status={status}
+      code={error?.code}
+      message={error?.message}
+      retryable={error?.retryable}
+      context={context}
+      missingScopes={missingScopes}
+    />
+  );
 }
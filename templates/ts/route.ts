@@ -1,16 +1,17 @@
-import { InstallController } from 'bigcommerce-oauth-next';
+import { loadBigCommerceConfig } from '__PACKAGE__';
+import { InstallController } from '__PACKAGE__/next';
 import { installApp } from './_composition/installApp';
 
-const { BIGCOMMERCE_REDIRECT_URI = '' } = process.env;
+const { redirectUri } = loadBigCommerceConfig();
 
 /**
- * Next.js route entrypoint for handling the `/auth` installation callback
+ * Next.js route entrypoint for handling the `/__BASE_PATH__` installation callback
  * from BigCommerce.
  *
  * This file belongs to the **framework layer** and contains no business logic.
  * Its sole responsibility is to:
  *
- * - read environment configuration,
+ * - read the validated environment configuration,
  * - instantiate an {@link InstallController} using the pre-assembled
  *   `installApp` use case,
  * - expose a Next.js-compatible `GET` handler.
@@ -23,5 +24,11 @@ const { BIGCOMMERCE_REDIRECT_URI = '' } = process.env;
  */
 export const GET = InstallController.create({
   installApp,
-  redirectUri: BIGCOMMERCE_REDIRECT_URI,
+  redirectUri,
+  // #if ui
+  successPath: '__SUCCESS_PATH__',
+  errorPath: '__ERROR_PATH__',
+  // #else
+  responseMode: 'html',
+  // #endif
 });
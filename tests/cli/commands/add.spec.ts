@@ -0,0 +1,101 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { addCommand } from '@/cli/commands/add.js';
+import { initCommand } from '@/cli/commands/init.js';
+import type { ScaffoldManifest } from '@/cli/dto/ScaffoldManifest.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('addCommand', () => {
+  let root: string;
+  let output: string[];
+  let errors: string[];
+
+  const file = (relativePath: string) => path.join(root, 'src/app/(oauth)/bc', relativePath);
+  const add = (...positionals: string[]) => addCommand.run({ positionals, flags: {} });
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'bc-add-'));
+    fs.writeFileSync(
+      path.join(root, 'package.json'),
+      JSON.stringify({ dependencies: { next: '15.2.0' } }),
+    );
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), '{}');
+    fs.mkdirSync(path.join(root, 'src/app'), { recursive: true });
+
+    vi.spyOn(process, 'cwd').mockReturnValue(root);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await initCommand.run({
+      positionals: [path.join(root, 'src/app/(oauth)')],
+      flags: { yes: true, 'base-path': 'bc', 'error-path': '/oops', package: '@acme/oauth' },
+    });
+
+    output = [];
+    errors = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+    vi.spyOn(console, 'error').mockImplementation((line: string) => errors.push(line));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('adds a callback wired to the existing composition root and settings', async () => {
+    expect(await add('load')).toBe(0);
+
+    const route = fs.readFileSync(file('load/route.ts'), 'utf8');
+    expect(route).toContain("from '@acme/oauth/next'");
+    expect(route).toContain("from '../_composition/loadApp'");
+    expect(route).toContain("errorPath: '/oops'");
+    expect(route).toContain('`/bc/load`');
+    expect(fs.existsSync(file('_composition/signedPayloadVerifier.ts'))).toBe(true);
+    expect(output).toContain('  created load/route.ts');
+    expect(output.at(-1)).toBe('Done! 3 created.');
+
+    const manifest = JSON.parse(
+      fs.readFileSync(file('.bigcommerce-oauth.json'), 'utf8'),
+    ) as ScaffoldManifest;
+    expect(manifest.features).toEqual(['load', 'ui']);
+    expect(Object.keys(manifest.files)).toContain('load/route.ts');
+  });
+
+  it('is idempotent and keeps shared files other callbacks already created', async () => {
+    await add('load');
+    fs.writeFileSync(file('_composition/signedPayloadVerifier.ts'), '// customized');
+
+    expect(await add('load')).toBe(0);
+    expect(output.at(-1)).toBe('Nothing to do: load is already part of this scaffold.');
+
+    expect(await add('uninstall')).toBe(0);
+    expect(output).toContain('  kept    _composition/signedPayloadVerifier.ts (already exists)');
+    expect(fs.readFileSync(file('_composition/signedPayloadVerifier.ts'), 'utf8')).toBe(
+      '// customized',
+    );
+    expect(fs.existsSync(file('uninstall/route.ts'))).toBe(true);
+  });
+
+  it('restores missing composition roots for the features present', async () => {
+    await add('remove-user');
+    fs.rmSync(file('_composition/installApp.ts'));
+    fs.rmSync(file('_composition/removeUser.ts'));
+
+    expect(await add('composition')).toBe(0);
+
+    expect(fs.existsSync(file('_composition/installApp.ts'))).toBe(true);
+    expect(fs.existsSync(file('_composition/removeUser.ts'))).toBe(true);
+    expect(fs.existsSync(file('_composition/loadApp.ts'))).toBe(false);
+  });
+
+  it('rejects unknown parts and fails without a scaffold', async () => {
+    expect(await add('billing')).toBe(2);
+    expect(errors[0]).toBe('Unknown part: billing');
+
+    fs.rmSync(path.join(root, 'src/app/(oauth)'), { recursive: true });
+
+    expect(await add('load')).toBe(1);
+    expect(errors.at(-1)).toMatch(/^No scaffold found\./);
+  });
+});
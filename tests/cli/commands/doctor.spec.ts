@@ -0,0 +1,87 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { doctorCommand } from '@/cli/commands/doctor.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const validEnv = [
+  'BIGCOMMERCE_CLIENT_ID=client-id',
+  'BIGCOMMERCE_CLIENT_SECRET="client-secret"',
+  'BIGCOMMERCE_REDIRECT_URI=https://app.example.com/auth # tunnel',
+].join('\n');
+
+describe('doctorCommand', () => {
+  let dir: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bc-doctor-'));
+    output = [];
+    for (const variable of [
+      'BIGCOMMERCE_CLIENT_ID',
+      'BIGCOMMERCE_CLIENT_SECRET',
+      'BIGCOMMERCE_REDIRECT_URI',
+    ]) {
+      vi.stubEnv(variable, undefined);
+    }
+
+    vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('passes when env files are complete and the route exists, including in a route group', async () => {
+    await writeFile(join(dir, '.env.local'), validEnv);
+    await mkdir(join(dir, 'src/app/(oauth)/auth'), { recursive: true });
+    await writeFile(join(dir, 'src/app/(oauth)/auth/route.ts'), '');
+
+    expect(doctorCommand.run({ positionals: [dir], flags: {} })).toBe(0);
+
+    expect(output).toContain('✓ BIGCOMMERCE_CLIENT_SECRET is set (.env.local).');
+    expect(output).toContain(
+      `✓ Install route for /auth found at ${join('src/app/(oauth)/auth/route.ts')}.`,
+    );
+    expect(output.at(-1)).toBe('\nAll checks passed.');
+  });
+
+  it('reports each missing variable and env file with a fix, then returns exit code 1', async () => {
+    expect(doctorCommand.run({ positionals: [dir], flags: {} })).toBe(1);
+
+    expect(output.filter((line) => line.startsWith('✗'))).toEqual([
+      '✗ No env file found (looked for .env, .env.development, .env.local, .env.development.local).',
+      '✗ BIGCOMMERCE_CLIENT_ID is not set.',
+      '✗ BIGCOMMERCE_CLIENT_SECRET is not set.',
+      '✗ BIGCOMMERCE_REDIRECT_URI is not set.',
+    ]);
+    expect(output.filter((line) => line.startsWith('    Fix:'))).toHaveLength(4);
+  });
+
+  it('reports a missing route at the path the redirect URI implies', async () => {
+    await writeFile(join(dir, '.env'), validEnv);
+    vi.stubEnv('BIGCOMMERCE_REDIRECT_URI', 'https://app.example.com/api/bc/install');
+
+    expect(doctorCommand.run({ positionals: [dir], flags: {} })).toBe(1);
+
+    expect(output).toContain('✓ BIGCOMMERCE_REDIRECT_URI is set (environment).');
+    expect(output).toContain(
+      '✗ No route handler found for /api/bc/install under app/, src/app/, pages/api/, or src/pages/api/.',
+    );
+  });
+
+  it('accepts a Pages Router API route at the redirect URI path', async () => {
+    await writeFile(join(dir, '.env'), validEnv);
+    vi.stubEnv('BIGCOMMERCE_REDIRECT_URI', 'https://app.example.com/api/auth');
+    await mkdir(join(dir, 'pages/api/auth'), { recursive: true });
+    await writeFile(join(dir, 'pages/api/auth/index.ts'), '');
+
+    expect(doctorCommand.run({ positionals: [dir], flags: {} })).toBe(0);
+
+    expect(output).toContain(
+      `✓ Install route for /api/auth found at ${join('pages/api/auth/index.ts')}.`,
+    );
+  });
+});
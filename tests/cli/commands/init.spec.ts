@@ -1,111 +1,342 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 // Path to the module under test (TS source, not dist)
 const INIT_COMMAND_PATH = '../../../src/cli/commands/init.ts';
 
-// We'll route the mocked module through this function:
-let copyDirectoryMock: ReturnType<typeof vi.fn>;
+let isInteractiveMock: ReturnType<typeof vi.fn>;
+let promptConflictMock: ReturnType<typeof vi.fn>;
+let promptTextMock: ReturnType<typeof vi.fn>;
 
 // IMPORTANT: mock the *actual* module that init.ts imports after resolution.
-// init.ts: import { copyDirectory } from '../utils/fileCopy.js';
-// That resolves to src/cli/utils/fileCopy.ts in this repo layout.
-vi.mock('../../../src/cli/utils/fileCopy.ts', () => ({
-  copyDirectory: (...args: unknown[]) => copyDirectoryMock(...(args as any)),
+// init.ts: import { isInteractive, promptConflict } from '../utils/promptConflict.js';
+vi.mock('../../../src/cli/utils/promptConflict.ts', () => ({
+  isInteractive: () => isInteractiveMock(),
+  promptConflict: (...args: unknown[]) => promptConflictMock(...(args as any)),
 }));
 
-describe('initCommand', () => {
-  const originalExit = process.exit;
-  const originalError = console.error;
-  const originalLog = console.log;
+vi.mock('../../../src/cli/utils/promptText.ts', () => ({
+  promptText: (...args: unknown[]) => promptTextMock(...(args as any)),
+}));
 
-  let exitMock: ReturnType<typeof vi.fn>;
-  let errorMock: ReturnType<typeof vi.fn>;
+const ROUTE = 'auth/route.ts';
+const PAGE = 'auth/result/page.tsx';
+
+describe('initCommand', () => {
+  let dest: string;
   let logMock: ReturnType<typeof vi.fn>;
+  let errorMock: ReturnType<typeof vi.fn>;
+  let warnMock: ReturnType<typeof vi.fn>;
+
+  const read = (file: string) => fs.readFileSync(path.join(dest, file), 'utf8');
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dest, file)), { recursive: true });
+    fs.writeFileSync(path.join(dest, file), content);
+  };
+  const logged = () => logMock.mock.calls.map(([line]) => String(line));
+
+  async function run(flags: Record<string, boolean | string | string[]> = {}) {
+    const { initCommand } = await import(INIT_COMMAND_PATH);
+    return initCommand.run({ positionals: [dest], flags });
+  }
 
   beforeEach(async () => {
-    exitMock = vi.fn();
-    errorMock = vi.fn();
+    dest = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'bc-init-')), 'app');
+    isInteractiveMock = vi.fn().mockReturnValue(false);
+    promptConflictMock = vi.fn();
+    promptTextMock = vi.fn((_question: string, fallback: string) => Promise.resolve(fallback));
     logMock = vi.fn();
-    copyDirectoryMock = vi.fn();
-
-    // Mock process.exit so it doesn't actually terminate the test process
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (process as any).exit = exitMock;
+    errorMock = vi.fn();
+    warnMock = vi.fn();
 
-    // Mock logging functions
-    console.error = errorMock as any;
-    console.log = logMock as any;
+    vi.spyOn(console, 'log').mockImplementation(logMock as any);
+    vi.spyOn(console, 'error').mockImplementation(errorMock as any);
+    vi.spyOn(console, 'warn').mockImplementation(warnMock as any);
 
     // Ensure fresh module state for each test
     await vi.resetModules();
   });
 
   afterEach(() => {
-    // Restore globals
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (process as any).exit = originalExit;
-    console.error = originalError;
-    console.log = originalLog;
+    fs.rmSync(path.dirname(dest), { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
 
-    vi.clearAllMocks();
+  it('copies the templates into an empty target directory and prints a summary', async () => {
+    expect(await run()).toBe(0);
+
+    expect(read(ROUTE)).toContain('InstallController.create');
+    expect(fs.existsSync(path.join(dest, PAGE))).toBe(true);
+    expect(logMock).toHaveBeenCalledWith(`Scaffolding BigCommerce OAuth Next files to:\n  ${dest}`);
+    expect(logged().at(-1)).toMatch(/^Done! \d+ created, 0 overwritten, 0 skipped\.$/);
+    expect(errorMock).not.toHaveBeenCalled();
   });
 
-  it('copies templates into the target directory when path is provided', async () => {
-    // Import module fresh *after* resetModules & mocks
+  it('returns the usage exit code when no target path is given outside a project', async () => {
     const { initCommand } = await import(INIT_COMMAND_PATH);
+    vi.spyOn(process, 'cwd').mockReturnValue(path.dirname(dest));
+
+    expect(await initCommand.run({ positionals: [], flags: {} })).toBe(2);
+    expect(errorMock).toHaveBeenNthCalledWith(
+      1,
+      'Missing target path: no package.json found in this or any parent directory.',
+    );
+    expect(errorMock).toHaveBeenNthCalledWith(2, 'Usage: bigcommerce-oauth-next init [path]');
+  });
+
+  it('rejects --force combined with --skip-existing', async () => {
+    expect(await run({ force: true, 'skip-existing': true })).toBe(2);
+    expect(fs.existsSync(dest)).toBe(false);
+  });
+
+  it('prints the plan without writing anything on --dry-run', async () => {
+    write(ROUTE, 'customized');
+
+    expect(await run({ 'dry-run': true })).toBe(0);
+
+    expect(read(ROUTE)).toBe('customized');
+    expect(fs.existsSync(path.join(dest, PAGE))).toBe(false);
+    expect(logged()).toContain(`  conflict   ${ROUTE}`);
+    expect(logged()).toContain(`  create     ${PAGE}`);
+  });
+
+  it('refuses to write anything when conflicts cannot be resolved non-interactively', async () => {
+    write(ROUTE, 'customized');
+
+    expect(await run()).toBe(1);
+
+    expect(read(ROUTE)).toBe('customized');
+    expect(fs.existsSync(path.join(dest, PAGE))).toBe(false);
+    expect(errorMock).toHaveBeenCalledWith(`  ${ROUTE}`);
+  });
+
+  it('keeps conflicting files with --skip-existing and overwrites them with --force', async () => {
+    write(ROUTE, 'customized');
+
+    expect(await run({ 'skip-existing': true })).toBe(0);
+    expect(read(ROUTE)).toBe('customized');
+    expect(logged()).toContain(`  skipped     ${ROUTE}`);
+    expect(JSON.parse(read('auth/.bigcommerce-oauth.json')).files).not.toHaveProperty('route.ts');
+
+    logMock.mockClear();
+
+    expect(await run({ force: true })).toBe(0);
+    expect(read(ROUTE)).toContain('InstallController.create');
+    expect(JSON.parse(read('auth/.bigcommerce-oauth.json')).files).toHaveProperty('route.ts');
+    expect(logged()).toContainEqual(
+      expect.stringMatching(/^Done! 0 created, 1 overwritten, \d+ skipped\.$/),
+    );
+  });
+
+  it('asks per conflicting file with a diff and honours the answers', async () => {
+    write(ROUTE, 'customized');
+    write(PAGE, 'custom page');
+    isInteractiveMock.mockReturnValue(true);
+    promptConflictMock.mockResolvedValueOnce('skip').mockResolvedValueOnce('overwrite');
+
+    expect(await run()).toBe(0);
+
+    expect(promptConflictMock).toHaveBeenCalledTimes(2);
+    const [file, diff] = promptConflictMock.mock.calls.find(([name]) => name === ROUTE)!;
+    expect(file).toBe(ROUTE);
+    expect(diff).toContain('- customized');
+    expect(read(PAGE) === 'custom page').not.toBe(read(ROUTE) === 'customized');
+  });
 
-    const projectRoot = process.cwd();
-    const target = 'src/app/(oauth)';
-    const expectedDest = path.resolve(projectRoot, target);
+  it('writes nothing when the user quits the prompt', async () => {
+    write(ROUTE, 'customized');
+    isInteractiveMock.mockReturnValue(true);
+    promptConflictMock.mockResolvedValue('abort');
 
-    await initCommand([target]);
+    expect(await run()).toBe(1);
 
-    // Assert copyDirectory was called once
-    expect(copyDirectoryMock).toHaveBeenCalledTimes(1);
-    const [actualTemplateDir, actualDest] = copyDirectoryMock.mock.calls[0]!;
+    expect(fs.existsSync(path.join(dest, PAGE))).toBe(false);
+    expect(logMock).toHaveBeenCalledWith('Aborted: no files were written.');
+  });
 
-    // Destination should match our resolved path
-    expect(actualDest).toBe(expectedDest);
+  it('emits only the install route and result page by default', async () => {
+    expect(await run()).toBe(0);
 
-    // Template dir should end with /templates/ts (or \templates\ts on Windows)
-    expect(String(actualTemplateDir)).toMatch(
-      new RegExp(`${path.sep}templates${path.sep}ts$`.replace(/\\/g, '\\\\')),
+    expect(read(ROUTE)).toContain("from 'bigcommerce-oauth-next'");
+    expect(read(ROUTE)).toContain(
+      "import { InstallController } from 'bigcommerce-oauth-next/next'",
+    );
+    expect(read(ROUTE)).toContain("successPath: '/auth/result'");
+    expect(read('auth/result/_presenters/AuthResult.tsx')).toContain('My App Installed');
+    expect(fs.existsSync(path.join(dest, 'auth/load'))).toBe(false);
+    expect(fs.existsSync(path.join(dest, 'auth/_composition/signedPayloadVerifier.ts'))).toBe(
+      false,
     );
+  });
+
+  it('adds the callbacks listed in --with and drops the UI with --no-ui', async () => {
+    expect(await run({ with: ['load,uninstall', 'remove-user'], 'no-ui': true })).toBe(0);
+
+    expect(read('auth/load/route.ts')).toContain('LoadController.create');
+    expect(read('auth/load/route.ts')).toContain('publicBaseUrl: redirectUri');
+    expect(read('auth/load/route.ts')).not.toContain('errorPath');
+    expect(read('auth/uninstall/route.ts')).toContain('uninstallApp');
+    expect(read('auth/remove-user/route.ts')).toContain('removeUser');
+    expect(fs.existsSync(path.join(dest, 'auth/_composition/signedPayloadVerifier.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(dest, PAGE))).toBe(false);
+    expect(read(ROUTE)).toContain("responseMode: 'html'");
+    expect(read(ROUTE)).not.toContain('#if');
+  });
+
+  it('rejects unknown --with values and invalid variables', async () => {
+    expect(await run({ with: ['load,billing'] })).toBe(2);
+    expect(errorMock).toHaveBeenCalledWith('Unknown --with value(s): billing');
+
+    expect(await run({ 'success-path': 'done' })).toBe(2);
+    expect(await run({ 'app-name': '<script>' })).toBe(2);
+    expect(fs.existsSync(dest)).toBe(false);
+  });
 
-    // Logs should be shown
-    expect(logMock).toHaveBeenCalledWith(
-      `Scaffolding BigCommerce OAuth Next files to:\n  ${expectedDest}`,
+  it('substitutes the template variables from flags', async () => {
+    expect(
+      await run({
+        'app-name': 'Acme Sync',
+        'base-path': '/api/bigcommerce/',
+        'error-path': '/oops',
+        package: '@acme/bc-oauth',
+      }),
+    ).toBe(0);
+
+    const route = read('api/bigcommerce/route.ts');
+    expect(route).toContain("from '@acme/bc-oauth'");
+    expect(route).toContain("successPath: '/api/bigcommerce/result'");
+    expect(route).toContain("errorPath: '/oops'");
+    expect(read('api/bigcommerce/result/_presenters/AuthResult.tsx')).toContain(
+      'Acme Sync Installed',
     );
-    expect(logMock).toHaveBeenCalledWith('Done!');
+  });
 
-    // No exit or error on success
-    expect(exitMock).not.toHaveBeenCalled();
-    expect(errorMock).not.toHaveBeenCalled();
+  it('asks for settings in a terminal unless --yes is passed', async () => {
+    isInteractiveMock.mockReturnValue(true);
+    promptTextMock
+      .mockResolvedValueOnce('Prompted App')
+      .mockResolvedValueOnce('bc')
+      .mockResolvedValueOnce('load')
+      .mockResolvedValueOnce('n');
+
+    expect(await run()).toBe(0);
+
+    expect(promptTextMock).toHaveBeenCalledTimes(4);
+    expect(read('bc/load/route.ts')).toContain('LoadController.create');
+    expect(fs.existsSync(path.join(dest, 'bc/result'))).toBe(false);
+
+    promptTextMock.mockClear();
+
+    expect(await run({ yes: true, 'base-path': 'other' })).toBe(0);
+    expect(promptTextMock).not.toHaveBeenCalled();
+    expect(fs.existsSync(path.join(dest, 'other/result/page.tsx'))).toBe(true);
   });
 
-  it('prints an error and exits with code 1 when no target path is provided', async () => {
-    const { initCommand } = await import(INIT_COMMAND_PATH);
+  it('renders the JavaScript templates with --lang js and rejects unknown languages', async () => {
+    expect(await run({ lang: 'py' })).toBe(2);
+
+    expect(await run({ lang: 'js' })).toBe(0);
 
-    // Because your implementation calls process.exit(1) but does not `return`
-    // afterwards, the code *continues* and hits path.resolve(projectRoot, targetPath)
-    // with targetPath = undefined, which throws. In the real CLI this never
-    // happens (process.exit terminates), but in tests we need to swallow that.
-    try {
-      // No args -> targetPath is undefined
-      await initCommand([]);
-    } catch {
-      // We don't care about the thrown TypeError here; we only care that
-      // logs and exit were invoked as expected.
+    expect(read('auth/route.js')).toContain('InstallController.create');
+    expect(read('auth/result/page.jsx')).toContain('export default async function AuthResultPage');
+    expect(fs.existsSync(path.join(dest, ROUTE))).toBe(false);
+    expect(JSON.parse(read('auth/.bigcommerce-oauth.json')).lang).toBe('js');
+  });
+
+  describe('project detection', () => {
+    let root: string;
+
+    const project = (files: Record<string, string>) => {
+      root = dest;
+      for (const [file, content] of Object.entries(files)) write(file, content);
+      vi.spyOn(process, 'cwd').mockReturnValue(root);
+    };
+    const nextPackage = (version: string) => JSON.stringify({ dependencies: { next: version } });
+
+    async function runInProject(positionals: string[] = [], flags: Record<string, unknown> = {}) {
+      const { initCommand } = await import(INIT_COMMAND_PATH);
+      return initCommand.run({ positionals, flags });
     }
 
-    expect(errorMock).toHaveBeenNthCalledWith(1, 'Missing target path.');
-    expect(errorMock).toHaveBeenNthCalledWith(2, 'Usage: bigcommerce-oauth-next init <path>');
+    it('defaults the destination to the detected App Router directory', async () => {
+      project({
+        'package.json': nextPackage('^15.1.0'),
+        'tsconfig.json':
+          '{\n  // JSONC\n  "compilerOptions": { "paths": { "@/*": ["./src/*"] } }\n}',
+        'src/app/page.tsx': '',
+      });
+
+      expect(await runInProject()).toBe(0);
+
+      expect(fs.existsSync(path.join(root, 'src/app/auth/route.ts'))).toBe(true);
+      expect(logMock).toHaveBeenCalledWith(
+        'Detected Next.js ^15.1.0, App Router in src/app, TypeScript, "@/" → src.',
+      );
+      expect(warnMock).not.toHaveBeenCalled();
+    });
+
+    it('refuses a Next.js version below the peer dependency floor', async () => {
+      project({ 'package.json': nextPackage('14.2.3'), 'tsconfig.json': '{}', 'app/page.tsx': '' });
+
+      expect(await runInProject()).toBe(1);
+
+      expect(errorMock).toHaveBeenCalledWith(
+        'Next.js 14.2.3 is not supported; the templates need next >=15.',
+      );
+      expect(fs.existsSync(path.join(root, 'app/auth'))).toBe(false);
+    });
+
+    it('scaffolds the Pages Router templates into a Pages-Router-only project', async () => {
+      project({
+        'package.json': nextPackage('15.0.0'),
+        'tsconfig.json': '{}',
+        'pages/index.tsx': '',
+      });
+
+      expect(await runInProject()).toBe(0);
+
+      expect(logMock).toHaveBeenCalledWith(
+        'Only a Pages Router was found; using the Pages Router templates (pass --router app to override).',
+      );
+      expect(fs.readFileSync(path.join(root, 'pages/api/auth/index.ts'), 'utf8')).toContain(
+        'export default PagesInstallController.create',
+      );
+      expect(fs.readFileSync(path.join(root, 'pages/auth/result.tsx'), 'utf8')).toContain(
+        'getServerSideProps',
+      );
+      expect(fs.existsSync(path.join(root, 'app'))).toBe(false);
+
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(root, 'pages/.bigcommerce-oauth.json'), 'utf8'),
+      );
+      expect(manifest.router).toBe('pages');
+      expect(Object.keys(manifest.files)).toEqual(['api/auth/index.ts', 'auth/result.tsx']);
+    });
+
+    it('rejects callbacks and JavaScript for the Pages Router', async () => {
+      project({ 'package.json': nextPackage('15.0.0'), 'pages/index.js': '' });
+
+      expect(await runInProject([], { router: 'pages', with: ['load'] })).toBe(2);
+      expect(await runInProject([], { router: 'pages', lang: 'js' })).toBe(2);
+      expect(await runInProject([], { router: 'nuxt' })).toBe(2);
+
+      expect(await runInProject()).toBe(1);
+      expect(errorMock).toHaveBeenCalledWith(
+        expect.stringContaining('the Pages Router templates are TypeScript only'),
+      );
+
+      expect(await runInProject([], { router: 'app' })).toBe(0);
+      expect(fs.existsSync(path.join(root, 'app/auth/route.js'))).toBe(true);
+    });
+
+    it('warns when an explicit path is outside the app directory', async () => {
+      project({ 'package.json': nextPackage('16.0.0'), 'tsconfig.json': '{}', 'app/page.tsx': '' });
 
-    expect(exitMock).toHaveBeenCalledTimes(1);
-    expect(exitMock).toHaveBeenCalledWith(1);
+      expect(await runInProject([path.join(root, 'lib')])).toBe(0);
 
-    // Should not attempt to copy (or at least not before throwing)
-    expect(copyDirectoryMock).not.toHaveBeenCalled();
+      expect(warnMock).toHaveBeenCalledWith(expect.stringMatching(/lib is outside .*app;/));
+    });
   });
 });
@@ -0,0 +1,78 @@
+import { randomBytes } from 'node:crypto';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { reencryptTokensCommand } from '@/cli/commands/reencryptTokens.js';
+import { JsonFileStoreRepository } from '@/stores/adapters/JsonFileStoreRepository.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const key = randomBytes(32).toString('base64');
+
+describe('reencryptTokensCommand', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bc-reencrypt-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('encrypts every token in the store file under the active key', async () => {
+    const filePath = join(dir, 'stores.json');
+    await new JsonFileStoreRepository(filePath).upsert({
+      storeHash: 'xyz',
+      accessToken: 'plain-access-token',
+      scope: 'store_v2_products',
+      owner: { id: 1, email: 'owner@example.com' },
+      users: [],
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+    vi.stubEnv('BIGCOMMERCE_TOKEN_KEYS', `2026-02:${key}`);
+
+    expect(await reencryptTokensCommand.run({ positionals: [filePath], flags: {} })).toBe(0);
+
+    const contents = await readFile(filePath, 'utf8');
+    expect(contents).not.toContain('plain-access-token');
+    expect(contents).toContain('enc:v1:2026-02:');
+    expect(console.log).toHaveBeenCalledWith(
+      'Re-encrypted 1 of 1 stores (0 already under the active key).',
+    );
+  });
+
+  it('returns the usage exit code when the store file path is missing', async () => {
+    expect(await reencryptTokensCommand.run({ positionals: [], flags: {} })).toBe(2);
+
+    expect(console.error).toHaveBeenCalledWith('Missing store file path.');
+  });
+
+  it('returns the usage exit code when no keys are configured', async () => {
+    vi.stubEnv('BIGCOMMERCE_TOKEN_KEYS', '');
+
+    expect(
+      await reencryptTokensCommand.run({ positionals: [join(dir, 'stores.json')], flags: {} }),
+    ).toBe(2);
+
+    expect(console.error).toHaveBeenCalledWith(
+      'Missing BIGCOMMERCE_TOKEN_KEYS environment variable.',
+    );
+  });
+
+  it('returns exit code 1 when the keys are invalid', async () => {
+    vi.stubEnv('BIGCOMMERCE_TOKEN_KEYS', 'k1:too-short');
+
+    expect(
+      await reencryptTokensCommand.run({ positionals: [join(dir, 'stores.json')], flags: {} }),
+    ).toBe(1);
+
+    expect(console.error).toHaveBeenCalledWith(
+      'Invalid token encryption key: key "k1" must be 32 bytes, base64-encoded.',
+    );
+  });
+});
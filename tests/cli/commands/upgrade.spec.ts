@@ -0,0 +1,132 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { initCommand } from '@/cli/commands/init.js';
+import { upgradeCommand } from '@/cli/commands/upgrade.js';
+import { hashContent, MANIFEST_FILE } from '@/cli/utils/scaffoldManifest.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const COMPOSITION = '_composition/installApp.ts';
+const CHANGED_LINE = 'const installApp: InstallAppUseCase = new InstallApp(oauthClient);';
+
+describe('upgradeCommand', () => {
+  let root: string;
+  let scaffold: string;
+  let output: string[];
+  let current: string;
+  let previous: string;
+
+  const file = (relativePath: string) => path.join(scaffold, relativePath);
+  const read = (relativePath: string) => fs.readFileSync(file(relativePath), 'utf8');
+  const upgrade = (flags: Record<string, boolean> = {}) =>
+    upgradeCommand.run({ positionals: [scaffold], flags });
+
+  /**
+   * Pretends the scaffold was generated by an older template in which the
+   * composition root's last assignment carried a trailing comment.
+   */
+  const generatedFromPreviousTemplate = (userContent: string) => {
+    const manifestFile = file(MANIFEST_FILE);
+    const manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf8'));
+
+    manifest.templateVersion = '0.0.0';
+    manifest.files[COMPOSITION] = { hash: hashContent(previous), content: previous };
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+    fs.writeFileSync(file(COMPOSITION), userContent);
+  };
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'bc-upgrade-'));
+    scaffold = path.join(root, 'auth');
+    output = [];
+
+    vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await initCommand.run({ positionals: [root], flags: { yes: true } });
+
+    current = read(COMPOSITION);
+    previous = current.replace(CHANGED_LINE, `${CHANGED_LINE} // v0`);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('records the template version and a hash per file on init', () => {
+    const manifest = JSON.parse(read(MANIFEST_FILE));
+
+    expect(manifest.templateVersion).toMatch(/^\d+\.\d+\.\d+/);
+    expect(manifest.features).toEqual(['ui']);
+    expect(manifest.files['route.ts'].hash).toBe(hashContent(read('route.ts')));
+  });
+
+  it('silently updates files the user has not modified', () => {
+    generatedFromPreviousTemplate(previous);
+
+    expect(upgrade()).toBe(0);
+
+    expect(read(COMPOSITION)).toBe(current);
+    expect(output).toContain(`  update    ${COMPOSITION}`);
+    expect(output).toContain('  unchanged route.ts');
+    expect(JSON.parse(read(MANIFEST_FILE)).files[COMPOSITION].content).toBe(current);
+  });
+
+  it('merges template changes into customized files', () => {
+    const customized = previous.replace('// Concrete OAuth gateway', '// Our OAuth gateway');
+    generatedFromPreviousTemplate(customized);
+
+    expect(upgrade()).toBe(0);
+
+    expect(read(COMPOSITION)).toBe(
+      current.replace('// Concrete OAuth gateway', '// Our OAuth gateway'),
+    );
+    expect(output).toContain(`  merge     ${COMPOSITION}`);
+  });
+
+  it('marks conflicting edits and fails', () => {
+    generatedFromPreviousTemplate(
+      previous.replace(`${CHANGED_LINE} // v0`, `${CHANGED_LINE} // mine`),
+    );
+
+    expect(upgrade()).toBe(1);
+
+    expect(read(COMPOSITION)).toContain(
+      `<<<<<<< yours\n${CHANGED_LINE} // mine\n=======\n${CHANGED_LINE}\n>>>>>>> template`,
+    );
+    expect(output).toContain(`  ${COMPOSITION}`);
+  });
+
+  it('keeps deleted files deleted and writes nothing on --dry-run', () => {
+    fs.rmSync(file('result/page.tsx'));
+    generatedFromPreviousTemplate(previous);
+
+    expect(upgrade({ 'dry-run': true })).toBe(0);
+
+    expect(output).toContain('  deleted   result/page.tsx');
+    expect(read(COMPOSITION)).toBe(previous);
+    expect(fs.existsSync(file('result/page.tsx'))).toBe(false);
+  });
+
+  it('reports files the manifest does not record instead of merging into them', () => {
+    const manifestFile = file(MANIFEST_FILE);
+    const manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf8'));
+
+    delete manifest.files[COMPOSITION];
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+    fs.writeFileSync(file(COMPOSITION), 'kept by init --skip-existing');
+
+    expect(upgrade()).toBe(0);
+
+    expect(read(COMPOSITION)).toBe('kept by init --skip-existing');
+    expect(output).toContain(`  untracked ${COMPOSITION}`);
+    expect(JSON.parse(read(MANIFEST_FILE)).files).not.toHaveProperty(COMPOSITION);
+  });
+
+  it('fails for a scaffold without a manifest', () => {
+    fs.rmSync(file(MANIFEST_FILE));
+
+    expect(upgrade()).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { defineCommand } from '@/cli/defineCommand.js';
+import { ExitCode } from '@/cli/ExitCode.js';
+import { runCli } from '@/cli/runCli.js';
+import { readPackageInfo } from '@/cli/utils/readPackageInfo.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const run = vi.fn();
+
+const greetCommand = defineCommand({
+  name: 'greet',
+  arguments: '<name>',
+  summary: 'Print a greeting',
+  description: 'Greets <name> politely.',
+  options: {
+    loud: { type: 'boolean', short: 'l', description: 'Shout the greeting' },
+    lang: { type: 'string', valueName: '<lang>', description: 'Greeting language' },
+  },
+  examples: ['bigcommerce-oauth-next greet Ada --loud'],
+  run,
+});
+
+const commands = [greetCommand];
+
+describe('runCli', () => {
+  let stdout: string[];
+  let stderr: string[];
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    run.mockReset().mockReturnValue(ExitCode.Success);
+
+    vi.spyOn(console, 'log').mockImplementation((line: string) => stdout.push(line));
+    vi.spyOn(console, 'error').mockImplementation((line: string) => stderr.push(line));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes positionals and typed flags to the command and returns its exit code', async () => {
+    run.mockResolvedValue(ExitCode.Failure);
+
+    const code = await runCli(['greet', 'Ada', '-l', '--lang', 'en'], commands);
+
+    expect(code).toBe(ExitCode.Failure);
+    expect(run).toHaveBeenCalledWith({
+      positionals: ['Ada'],
+      flags: { loud: true, lang: 'en' },
+    });
+  });
+
+  it('prints the global help for --help and when no command is given', async () => {
+    expect(await runCli(['--help'], commands)).toBe(ExitCode.Success);
+    expect(await runCli([], commands)).toBe(ExitCode.Usage);
+
+    expect(stdout[0]).toContain('Usage: bigcommerce-oauth-next <command> [options]');
+    expect(stdout[0]).toMatch(/greet <name>\s+Print a greeting/);
+    expect(stdout[0]).toMatch(/-v, --version\s+Show version/);
+  });
+
+  it('prints per-command help without running the command', async () => {
+    expect(await runCli(['greet', '--help'], commands)).toBe(ExitCode.Success);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(stdout[0]).toContain('Usage: bigcommerce-oauth-next greet <name> [options]');
+    expect(stdout[0]).toContain('Greets <name> politely.');
+    expect(stdout[0]).toMatch(/-l, --loud\s+Shout the greeting/);
+    expect(stdout[0]).toMatch(/ {4}--lang <lang>\s+Greeting language/);
+    expect(stdout[0]).toContain('bigcommerce-oauth-next greet Ada --loud');
+  });
+
+  it('prints the package version', async () => {
+    expect(await runCli(['--version'], commands)).toBe(ExitCode.Success);
+    expect(stdout).toEqual([readPackageInfo().version]);
+  });
+
+  it('rejects unknown commands and flags with the usage exit code', async () => {
+    expect(await runCli(['foo'], commands)).toBe(ExitCode.Usage);
+    expect(stderr[0]).toBe('Unknown command: foo');
+
+    expect(await runCli(['greet', '--shout'], commands)).toBe(ExitCode.Usage);
+    expect(stderr.at(-1)).toBe('Run `bigcommerce-oauth-next greet --help` for usage.');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('registers the built-in commands by default', async () => {
+    await runCli(['--help']);
+
+    for (const name of ['init', 'add', 'upgrade', 'doctor', 'reencrypt-tokens']) {
+      expect(stdout[0]).toContain(`  ${name} `);
+    }
+  });
+});
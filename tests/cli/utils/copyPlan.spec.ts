@@ -0,0 +1,74 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { applyCopyPlan, planCopy } from '../../../src/cli/utils/copyPlan.js';
+import { formatDiff } from '../../../src/cli/utils/formatDiff.js';
+
+describe('planCopy / applyCopyPlan', () => {
+  const files = [
+    { relativePath: 'changed.txt', content: 'template' },
+    { relativePath: 'nested/new.txt', content: 'new' },
+    { relativePath: 'same.txt', content: 'same' },
+  ];
+
+  let tmpRoot: string;
+  let destDir: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'copy-plan-test-'));
+    destDir = path.join(tmpRoot, 'dest');
+
+    fs.mkdirSync(destDir, { recursive: true });
+    fs.writeFileSync(path.join(destDir, 'same.txt'), 'same');
+    fs.writeFileSync(path.join(destDir, 'changed.txt'), 'customized');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  it('classifies files without writing anything', () => {
+    const plan = planCopy(files, destDir);
+
+    expect(plan.map((entry) => [entry.relativePath, entry.status])).toEqual([
+      ['changed.txt', 'conflict'],
+      ['nested/new.txt', 'create'],
+      ['same.txt', 'unchanged'],
+    ]);
+    expect(fs.existsSync(path.join(destDir, 'nested'))).toBe(false);
+  });
+
+  it('writes new files and only the conflicts resolved to overwrite', () => {
+    const plan = planCopy(files, destDir);
+
+    expect(applyCopyPlan(plan)).toEqual({
+      created: ['nested/new.txt'],
+      overwritten: [],
+      skipped: ['changed.txt', 'same.txt'],
+    });
+    expect(fs.readFileSync(path.join(destDir, 'changed.txt'), 'utf8')).toBe('customized');
+
+    for (const entry of plan) entry.resolution = 'overwrite';
+
+    expect(applyCopyPlan(plan).overwritten).toEqual(['changed.txt']);
+    expect(fs.readFileSync(path.join(destDir, 'changed.txt'), 'utf8')).toBe('template');
+  });
+});
+
+describe('formatDiff', () => {
+  it('marks removed and added lines with collapsed context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].join('\n');
+    const after = ['a', 'b', 'c', 'd', 'e', 'f', 'G'].join('\n');
+
+    expect(formatDiff(before, after)).toBe(['  e', '  f', '- g', '+ G'].join('\n'));
+    expect(formatDiff('x\n1\n2\n3\n4\n5\ny', 'X\n1\n2\n3\n4\n5\nY')).toBe(
+      ['- x', '+ X', '  1', '  2', '…', '  4', '  5', '- y', '+ Y'].join('\n'),
+    );
+  });
+
+  it('returns an empty string for identical texts', () => {
+    expect(formatDiff('same\n', 'same\n')).toBe('');
+  });
+});
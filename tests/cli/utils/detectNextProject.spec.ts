@@ -0,0 +1,58 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { detectNextProject, satisfiesFloor } from '../../../src/cli/utils/detectNextProject.js';
+
+describe('detectNextProject', () => {
+  let root: string;
+
+  const write = (file: string, content = '') => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'detect-next-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('walks up to package.json and prefers the installed next version', () => {
+    write('package.json', JSON.stringify({ devDependencies: { next: '^15.0.0' } }));
+    write('node_modules/next/package.json', JSON.stringify({ version: '15.3.1' }));
+    write(
+      'jsconfig.json',
+      '{ "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["./*"] } } }',
+    );
+    write('app/layout.js');
+    write('src/pages/index.js');
+
+    expect(detectNextProject(path.join(root, 'app', 'not-created-yet'))).toEqual({
+      root,
+      nextVersion: '15.3.1',
+      appDir: 'app',
+      pagesDir: 'src/pages',
+      typescript: false,
+      importAlias: '.',
+    });
+  });
+
+  it('describes a project without next or router directories', () => {
+    write('package.json', '{}');
+
+    expect(detectNextProject(root)).toEqual({ root, typescript: false });
+  });
+});
+
+describe('satisfiesFloor', () => {
+  it('compares the lowest version a range allows', () => {
+    expect(satisfiesFloor('15.0.0', '>=15')).toBe(true);
+    expect(satisfiesFloor('^15.2', '>=15')).toBe(true);
+    expect(satisfiesFloor('~14.2.30', '>=15')).toBe(false);
+    expect(satisfiesFloor('canary', '>=15')).toBeUndefined();
+  });
+});
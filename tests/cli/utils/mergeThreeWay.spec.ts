@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { mergeThreeWay } from '../../../src/cli/utils/mergeThreeWay.js';
+
+const base = ['a', 'b', 'c', 'd', 'e'].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('combines edits to different regions', () => {
+    const ours = ['a', 'B (ours)', 'c', 'd', 'e', 'f (ours)'].join('\n');
+    const theirs = ['a', 'b', 'c', 'D (theirs)', 'e'].join('\n');
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: ['a', 'B (ours)', 'c', 'D (theirs)', 'e', 'f (ours)'].join('\n'),
+      conflicts: 0,
+    });
+  });
+
+  it('takes identical edits once and deletions from either side', () => {
+    const ours = ['a', 'X', 'c', 'e'].join('\n');
+    const theirs = ['a', 'X', 'c', 'd', 'e'].join('\n');
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: ['a', 'X', 'c', 'e'].join('\n'),
+      conflicts: 0,
+    });
+  });
+
+  it('marks overlapping edits as conflicts', () => {
+    const ours = ['a', 'b', 'mine', 'd', 'e'].join('\n');
+    const theirs = ['a', 'b', 'yours', 'd', 'e'].join('\n');
+
+    expect(mergeThreeWay(base, ours, theirs, { ours: 'yours', theirs: 'template 2' })).toEqual({
+      content: [
+        'a',
+        'b',
+        '<<<<<<< yours',
+        'mine',
+        '=======',
+        'yours',
+        '>>>>>>> template 2',
+        'd',
+        'e',
+      ].join('\n'),
+      conflicts: 1,
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { readPackageInfo } from '@/cli/utils/readPackageInfo.js';
+import { describe, expect, it } from 'vitest';
+
+const packageJson = JSON.parse(
+  fs.readFileSync(path.resolve(import.meta.dirname, '../../../package.json'), 'utf8'),
+) as { version: string; peerDependencies: { next: string } };
+
+describe('readPackageInfo', () => {
+  it("reads the version and next peer range from the package's own package.json", () => {
+    expect(readPackageInfo()).toEqual({
+      version: packageJson.version,
+      nextVersionRange: packageJson.peerDependencies.next,
+    });
+  });
+});
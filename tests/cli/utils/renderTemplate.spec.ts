@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TemplateFeature } from '../../../src/cli/dto/TemplateFeature.js';
+import { renderTemplate } from '../../../src/cli/utils/renderTemplate.js';
+import { isTemplateSelected } from '../../../src/cli/utils/templateFeatures.js';
+
+const variables = {
+  appName: 'Acme Sync',
+  basePath: 'api/bc',
+  successPath: '/done',
+  errorPath: '/oops',
+  packageName: '@acme/oauth',
+};
+
+const features = (...names: TemplateFeature[]) => new Set<TemplateFeature>(names);
+
+describe('renderTemplate', () => {
+  it('replaces known placeholders and leaves other identifiers alone', () => {
+    const content =
+      "import { X } from '__PACKAGE__';\n// /__BASE_PATH__ for __APP_NAME__ (__dirname__)";
+
+    expect(renderTemplate(content, variables, features())).toBe(
+      "import { X } from '@acme/oauth';\n// /api/bc for Acme Sync (__dirname__)",
+    );
+  });
+
+  it('keeps the branch of a conditional block matching the selected features', () => {
+    const content = [
+      'a',
+      '  // #if ui, load',
+      "  successPath: '__SUCCESS_PATH__',",
+      '  // #else',
+      "  responseMode: 'html',",
+      '  // #endif',
+      'b',
+    ].join('\n');
+
+    expect(renderTemplate(content, variables, features('load'))).toBe(
+      "a\n  successPath: '/done',\nb",
+    );
+    expect(renderTemplate(content, variables, features('uninstall'))).toBe(
+      "a\n  responseMode: 'html',\nb",
+    );
+  });
+});
+
+describe('isTemplateSelected', () => {
+  it('emits feature files only when one of their features is selected', () => {
+    expect(isTemplateSelected('route.ts', features())).toBe(true);
+    expect(isTemplateSelected('result/page.tsx', features())).toBe(false);
+    expect(isTemplateSelected('result/page.tsx', features('ui'))).toBe(true);
+    expect(isTemplateSelected('_composition/signedPayloadVerifier.ts', features('ui'))).toBe(false);
+    expect(isTemplateSelected('_composition/signedPayloadVerifier.ts', features('uninstall'))).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TemplateFeature } from '../../../src/cli/dto/TemplateFeature.js';
+import { renderTemplates } from '../../../src/cli/utils/renderTemplates.js';
+import { resolveTemplateDir } from '../../../src/cli/utils/resolveTemplateDir.js';
+import { TEMPLATE_FEATURES } from '../../../src/cli/utils/templateFeatures.js';
+
+const variables = {
+  appName: 'Acme Sync',
+  basePath: 'auth',
+  successPath: '/auth/result',
+  errorPath: '/auth/result',
+  packageName: 'bigcommerce-oauth-next',
+};
+
+const render = (lang: string, features: TemplateFeature[]) =>
+  renderTemplates(resolveTemplateDir(lang), variables, new Set(features));
+const withoutExtension = (relativePath: string) => relativePath.replace(/\.[jt]sx?$/, '');
+
+describe('renderTemplates', () => {
+  it.each([[[]], [['ui']], [[...TEMPLATE_FEATURES]]] as TemplateFeature[][][])(
+    'emits the same files from the ts and js template sets for %j',
+    (features) => {
+      const ts = render('ts', features).map((file) => withoutExtension(file.relativePath));
+      const js = render('js', features).map((file) => withoutExtension(file.relativePath));
+
+      expect(js).toEqual(ts);
+    },
+  );
+
+  it('leaves no placeholders, directives, or TypeScript-only files in the js set', () => {
+    for (const file of render('js', [...TEMPLATE_FEATURES])) {
+      expect(file.relativePath).toMatch(/\.jsx?$/);
+      expect(file.content).not.toMatch(/__[A-Z_]+__|\/\/ #(?:if|else|endif)/);
+      expect(file.content).not.toMatch(/^import type /m);
+    }
+  });
+
+  it('drops the files of unselected features', () => {
+    const paths = render('ts', ['load']).map((file) => file.relativePath);
+
+    expect(paths).toContain('load/route.ts');
+    expect(paths).toContain('_composition/signedPayloadVerifier.ts');
+    expect(paths).not.toContain('result/page.tsx');
+    expect(paths).not.toContain('uninstall/route.ts');
+  });
+});
@@ -0,0 +1,57 @@
+import { InvalidConfigError } from '@/config/errors/InvalidConfigError.js';
+import { loadBigCommerceConfig } from '@/config/loadBigCommerceConfig.js';
+import { describe, expect, it } from 'vitest';
+
+const env = {
+  BIGCOMMERCE_CLIENT_ID: ' client-id ',
+  BIGCOMMERCE_CLIENT_SECRET: 'client-secret',
+  BIGCOMMERCE_REDIRECT_URI: 'https://app.example.com/auth',
+};
+
+function issuesOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof InvalidConfigError) return err.issues;
+    throw err;
+  }
+  throw new Error('expected InvalidConfigError');
+}
+
+describe('loadBigCommerceConfig', () => {
+  it('returns the trimmed configuration when every variable is valid', () => {
+    expect(loadBigCommerceConfig(env)).toEqual({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      redirectUri: 'https://app.example.com/auth',
+    });
+  });
+
+  it('aggregates every missing variable into one error', () => {
+    const issues = issuesOf(() => loadBigCommerceConfig({ BIGCOMMERCE_CLIENT_SECRET: '  ' }));
+
+    expect(issues.map((issue) => [issue.variable, issue.reason])).toEqual([
+      ['BIGCOMMERCE_CLIENT_ID', 'missing'],
+      ['BIGCOMMERCE_CLIENT_SECRET', 'missing'],
+      ['BIGCOMMERCE_REDIRECT_URI', 'missing'],
+    ]);
+    expect(() => loadBigCommerceConfig({})).toThrow(/BIGCOMMERCE_CLIENT_ID is not set/);
+  });
+
+  it('rejects a redirect URI that is not an absolute https URL', () => {
+    expect(
+      issuesOf(() => loadBigCommerceConfig({ ...env, BIGCOMMERCE_REDIRECT_URI: '/auth' })),
+    ).toEqual([
+      {
+        variable: 'BIGCOMMERCE_REDIRECT_URI',
+        reason: 'invalid_url',
+        message: 'BIGCOMMERCE_REDIRECT_URI must be an absolute URL, got "/auth".',
+      },
+    ]);
+    expect(
+      issuesOf(() =>
+        loadBigCommerceConfig({ ...env, BIGCOMMERCE_REDIRECT_URI: 'http://localhost:3000/auth' }),
+      ).map((issue) => issue.reason),
+    ).toEqual(['insecure_url']);
+  });
+});
@@ -0,0 +1,66 @@
+import { toExpressHandler } from '@/fetch/toExpressHandler.js';
+import type { ExpressRequest } from '@/fetch/dto/ExpressRequest.js';
+import type { ServerResponse } from 'node:http';
+import { describe, expect, it, vi } from 'vitest';
+
+function createRequest(overrides: Partial<ExpressRequest> = {}) {
+  return {
+    method: 'GET',
+    url: '/?code=abc123',
+    originalUrl: '/bigcommerce/auth?code=abc123',
+    headers: { host: 'app.example.com', 'x-request-id': 'req-1' },
+    ...overrides,
+  } as unknown as ExpressRequest;
+}
+
+function createResponse() {
+  const headers: Record<string, unknown> = {};
+  const res = {
+    statusCode: 200,
+    setHeader: vi.fn((name: string, value: unknown) => {
+      headers[name] = value;
+    }),
+    end: vi.fn(),
+  };
+
+  return { res: res as unknown as ServerResponse, raw: res, headers };
+}
+
+describe('toExpressHandler', () => {
+  it('passes the original URL and headers as a Request', async () => {
+    const handler = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    const { res } = createResponse();
+
+    await toExpressHandler(handler)(createRequest(), res);
+
+    const [request] = handler.mock.calls[0] as [Request];
+    expect(request.url).toBe('http://app.example.com/bigcommerce/auth?code=abc123');
+    expect(request.method).toBe('GET');
+    expect(request.headers.get('x-request-id')).toBe('req-1');
+  });
+
+  it('writes status, headers, every cookie, and body back', async () => {
+    const headers = new Headers({ location: 'https://app.example.com/auth/result' });
+    headers.append('set-cookie', 'a=1; Path=/');
+    headers.append('set-cookie', 'b=2; Path=/');
+    const handler = vi.fn().mockResolvedValue(new Response('moved', { status: 307, headers }));
+    const { res, raw, headers: written } = createResponse();
+
+    await toExpressHandler(handler)(createRequest(), res);
+
+    expect(raw.statusCode).toBe(307);
+    expect(written.location).toBe('https://app.example.com/auth/result');
+    expect(written['set-cookie']).toEqual(['a=1; Path=/', 'b=2; Path=/']);
+    expect(String(raw.end.mock.calls[0]?.[0])).toBe('moved');
+  });
+
+  it('forwards errors to next', async () => {
+    const error = new Error('boom');
+    const next = vi.fn();
+    const { res } = createResponse();
+
+    await toExpressHandler(vi.fn().mockRejectedValue(error))(createRequest(), res, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+});
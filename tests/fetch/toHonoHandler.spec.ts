@@ -0,0 +1,13 @@
+import { toHonoHandler } from '@/fetch/toHonoHandler.js';
+import { describe, expect, it, vi } from 'vitest';
+
+describe('toHonoHandler', () => {
+  it('hands the raw Request to the handler and returns its Response', async () => {
+    const response = new Response('ok');
+    const handler = vi.fn().mockResolvedValue(response);
+    const request = new Request('https://app.example.com/auth?code=abc123');
+
+    expect(await toHonoHandler(handler)({ req: { raw: request } })).toBe(response);
+    expect(handler).toHaveBeenCalledWith(request);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Simulates a Hono or Express project where the optional `next` peer is not
+// installed: any runtime import of it fails the way Node.js would.
+vi.mock('next/server.js', () => {
+  throw new Error("Cannot find module 'next/server.js'");
+});
+
+describe('package entry points without next installed', () => {
+  it('cannot import next/server.js', async () => {
+    await expect(import('next/server.js')).rejects.toThrow();
+  });
+
+  it('loads the fetch entry', async () => {
+    const fetch = await import('@/fetch/index.js');
+
+    expect(fetch.FetchInstallController).toBeTypeOf('function');
+    expect(fetch.toHonoHandler).toBeTypeOf('function');
+    expect(fetch.toExpressHandler).toBeTypeOf('function');
+  });
+
+  it('loads the root entry with the Fetch-based controllers and session helpers', async () => {
+    const root = await import('@/index.js');
+
+    expect(root.InstallController).toBeTypeOf('function');
+    expect(root.LoadController).toBeTypeOf('function');
+    expect(root.UninstallController).toBeTypeOf('function');
+    expect(root.RemoveUserController).toBeTypeOf('function');
+    expect(root.withBigCommerceSession).toBeTypeOf('function');
+    expect(root.createSessionMiddleware).toBeTypeOf('function');
+  });
+
+  it('loads the use-case and session subpaths', async () => {
+    const entries = await Promise.all([
+      import('@/use-cases/install/index.js'),
+      import('@/use-cases/load/index.js'),
+      import('@/use-cases/uninstall/index.js'),
+      import('@/use-cases/remove-user/index.js'),
+      import('@/session/index.js'),
+    ]);
+
+    expect(entries.every((entry) => Object.keys(entry).length > 0)).toBe(true);
+  });
+});
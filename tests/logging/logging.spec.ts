@@ -0,0 +1,102 @@
+import { JsonLinesLogger } from '@/logging/JsonLinesLogger.js';
+import { RedactingLogger } from '@/logging/RedactingLogger.js';
+import { REDACTED, redact } from '@/logging/redact.js';
+import { TokenExchangeFailedError } from '@/use-cases/install/controllers/errors/TokenExchangeFailedError.js';
+import { BigCommerceTokenExchangeError } from 'bigcommerce-oauth/gateways/BigCommerce';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+describe('redact', () => {
+  it('replaces authorization codes, tokens, and secrets at any depth', () => {
+    expect(
+      redact({
+        request: { code: 'abc123', context: 'stores/xyz' },
+        storeHash: 'xyz',
+        session: { access_token: 'secret-token', accessToken: 'secret-token' },
+        headers: [{ Authorization: 'Bearer x', Cookie: 'bc_session=y' }],
+      }),
+    ).toEqual({
+      request: { code: REDACTED, context: 'stores/xyz' },
+      storeHash: 'xyz',
+      session: { access_token: REDACTED, accessToken: REDACTED },
+      headers: [{ Authorization: REDACTED, Cookie: REDACTED }],
+    });
+  });
+
+  it('strips sensitive query parameters from strings', () => {
+    expect(redact('GET /auth?code=abc123&context=stores/xyz&scope=a')).toBe(
+      `GET /auth?code=${REDACTED}&context=stores/xyz&scope=a`,
+    );
+    expect(redact('/load?signed_payload_jwt=eyJ.x.y')).toBe(`/load?signed_payload_jwt=${REDACTED}`);
+  });
+
+  it('reduces errors to class name, message, and own fields without the stack', () => {
+    const error = new BigCommerceTokenExchangeError(401, 'Unauthorized');
+
+    const redacted = redact({ error }) as { error: Record<string, unknown> };
+
+    expect(redacted.error).toMatchObject({
+      name: 'BigCommerceTokenExchangeError',
+      message: error.message,
+      status: 401,
+    });
+    expect(redacted.error).not.toHaveProperty('stack');
+  });
+
+  it('keeps error codes outside the install request', () => {
+    const error = new TokenExchangeFailedError({
+      cause: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+    });
+
+    expect(redact({ errorCode: error.code, error })).toMatchObject({
+      errorCode: 'token_exchange_failed',
+      error: {
+        name: 'TokenExchangeFailedError',
+        code: 'token_exchange_failed',
+        cause: { code: 'ECONNRESET' },
+      },
+    });
+  });
+
+  it('handles circular references', () => {
+    const value: Record<string, unknown> = { storeHash: 'xyz' };
+    value.self = value;
+
+    expect(redact(value)).toEqual({ storeHash: 'xyz', self: '[Circular]' });
+  });
+});
+
+describe('JsonLinesLogger', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes one JSON object per line at or above the configured level', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const write = vi.fn();
+    const logger = new JsonLinesLogger({ level: 'info', write });
+
+    logger.debug('ignored');
+    logger.warn('install.failed', { requestId: 'req-1' });
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith(
+      '{"time":"2026-01-01T00:00:00.000Z","level":"warn","msg":"install.failed","requestId":"req-1"}\n',
+    );
+  });
+});
+
+describe('RedactingLogger', () => {
+  it('redacts fields before they reach the wrapped logger', () => {
+    const inner = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    new RedactingLogger(inner).info('install.started', {
+      params: { code: 'abc123', context: 'stores/xyz' },
+      storeHash: 'xyz',
+    });
+
+    expect(inner.info).toHaveBeenCalledWith('install.started', {
+      params: { code: REDACTED, context: 'stores/xyz' },
+      storeHash: 'xyz',
+    });
+  });
+});
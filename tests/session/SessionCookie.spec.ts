@@ -0,0 +1,131 @@
+import { SessionCookie } from '@/session/SessionCookie.js';
+import { getSession } from '@/session/getSession.js';
+import { InvalidSessionSecretError } from '@/session/errors/InvalidSessionSecretError.js';
+import { createCipheriv, hkdfSync, randomBytes } from 'node:crypto';
+import { NextResponse } from 'next/server.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const secret = 'a-very-long-session-secret-for-tests-only';
+const identity = { storeHash: 'xyz', userId: 42, email: 'merchant@example.com' };
+
+describe('SessionCookie', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects secrets shorter than 32 characters', () => {
+    expect(() => new SessionCookie({ secret: 'short' })).toThrow(InvalidSessionSecretError);
+  });
+
+  it('round-trips a sealed session with issue and expiry timestamps', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const cookie = new SessionCookie({ secret, maxAge: 600 });
+
+    const session = await cookie.unseal(await cookie.seal(identity));
+
+    expect(session).toEqual({
+      ...identity,
+      issuedAt: 1767225600,
+      expiresAt: 1767225600 + 600,
+    });
+  });
+
+  it('does not expose the identity in the cookie value', async () => {
+    const value = await new SessionCookie({ secret }).seal(identity);
+
+    expect(value).not.toContain('merchant');
+    expect(Buffer.from(value, 'base64url').toString('utf8')).not.toContain('merchant');
+  });
+
+  it('returns null for tampered values and values sealed under another secret', async () => {
+    const cookie = new SessionCookie({ secret });
+    const value = await cookie.seal(identity);
+
+    const tampered = Buffer.from(value, 'base64url');
+    tampered[tampered.length - 1] = (tampered.at(-1) ?? 0) ^ 0xff;
+
+    expect(await cookie.unseal(tampered.toString('base64url'))).toBeNull();
+    expect(await cookie.unseal('garbage')).toBeNull();
+    expect(await new SessionCookie({ secret: `${secret}-rotated` }).unseal(value)).toBeNull();
+  });
+
+  it('reads values in the iv | tag | ciphertext layout sealed by other AES-GCM implementations', async () => {
+    const key = Buffer.from(hkdfSync('sha256', secret, '', 'bigcommerce-oauth-next session', 32));
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const session = { ...identity, issuedAt: 0, expiresAt: Math.floor(Date.now() / 1000) + 60 };
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(session)), cipher.final()]);
+    const value = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+
+    expect(await new SessionCookie({ secret }).unseal(value)).toEqual(session);
+  });
+
+  it('returns null once the session has expired', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const cookie = new SessionCookie({ secret, maxAge: 60 });
+    const value = await cookie.seal(identity);
+
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+
+    expect(await cookie.unseal(value)).toBeNull();
+  });
+
+  it('sets an HttpOnly, SameSite=None, Secure, Partitioned cookie by default', async () => {
+    const response = NextResponse.next();
+
+    await new SessionCookie({ secret }).commit(response, identity);
+
+    const header = response.headers.get('set-cookie') ?? '';
+    expect(header).toMatch(/^bc_session=/);
+    expect(header).toContain('HttpOnly');
+    expect(header).toContain('Secure');
+    expect(header).toMatch(/SameSite=none/i);
+    expect(header).toContain('Partitioned');
+    expect(header).toContain('Path=/');
+    expect(header).toContain('Max-Age=86400');
+  });
+
+  it('honors cookie overrides', async () => {
+    const response = NextResponse.next();
+
+    await new SessionCookie({
+      secret,
+      cookieName: 'my_app',
+      sameSite: 'lax',
+      partitioned: false,
+      path: '/app',
+      maxAge: 120,
+    }).commit(response, identity);
+
+    const header = response.headers.get('set-cookie') ?? '';
+    expect(header).toMatch(/^my_app=/);
+    expect(header).toMatch(/SameSite=lax/i);
+    expect(header).not.toContain('Partitioned');
+    expect(header).toContain('Path=/app');
+    expect(header).toContain('Max-Age=120');
+  });
+});
+
+describe('getSession', () => {
+  it('reads the session from a request Cookie header', async () => {
+    const value = await new SessionCookie({ secret }).seal(identity);
+    const request = new Request('https://app.example.com/api/products', {
+      headers: { cookie: `other=1; bc_session=${value}; theme=dark` },
+    });
+
+    expect(await getSession(request, { secret })).toMatchObject(identity);
+  });
+
+  it('reads the session from a Next.js cookie store', async () => {
+    const value = await new SessionCookie({ secret }).seal(identity);
+    const store = { get: (name: string) => (name === 'bc_session' ? { value } : undefined) };
+
+    expect(await getSession(store, { secret })).toMatchObject(identity);
+  });
+
+  it('returns null when no session cookie is present', async () => {
+    const request = new Request('https://app.example.com/api/products');
+
+    expect(await getSession(request, { secret })).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { SessionCookie } from '@/session/SessionCookie.js';
+import { createSessionMiddleware } from '@/session/createSessionMiddleware.js';
+import { withBigCommerceSession } from '@/session/withBigCommerceSession.js';
+import { NextRequest } from 'next/server.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const session = { secret: 'a-very-long-session-secret-for-tests-only' };
+const identity = { storeHash: 'xyz', userId: 42, email: 'merchant@example.com' };
+
+function createRequest(url: string, cookie?: string) {
+  return new NextRequest(url, { headers: cookie ? { cookie } : {} });
+}
+
+async function sessionCookie() {
+  return `bc_session=${await new SessionCookie(session).seal(identity)}`;
+}
+
+describe('withBigCommerceSession', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes the typed session context and route context to the handler', async () => {
+    const handler = vi.fn().mockResolvedValue(Response.json({ ok: true }));
+    const routeContext = { params: Promise.resolve({ id: '1' }) };
+
+    const wrapped = withBigCommerceSession(handler, session);
+    const request = createRequest('https://app.example.com/api/products', await sessionCookie());
+
+    const res = await wrapped(request, routeContext);
+
+    expect(res.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(request, identity, routeContext);
+  });
+
+  it('returns 401 missing_session without calling the handler', async () => {
+    const handler = vi.fn();
+
+    const res = await withBigCommerceSession(handler, session)(
+      createRequest('https://app.example.com/api/products'),
+      {},
+    );
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'unauthorized', code: 'missing_session' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 invalid_session for tampered cookies', async () => {
+    const handler = vi.fn();
+
+    const res = await withBigCommerceSession(handler, session)(
+      createRequest(
+        'https://app.example.com/api/products',
+        'bc_session=forged-value-of-some-length',
+      ),
+      {},
+    );
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'unauthorized', code: 'invalid_session' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 invalid_session for cookies that are not valid percent-encoding', async () => {
+    const handler = vi.fn();
+
+    const res = await withBigCommerceSession(handler, session)(
+      createRequest('https://app.example.com/api/products', 'bc_session=%E0%A4%A'),
+      {},
+    );
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'unauthorized', code: 'invalid_session' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 expired_session once the session has expired', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const cookie = await sessionCookie();
+    vi.setSystemTime(new Date('2026-01-03T00:00:00Z'));
+
+    const handler = vi.fn();
+
+    const res = await withBigCommerceSession(handler, session)(
+      createRequest('https://app.example.com/api/products', cookie),
+      {},
+    );
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'unauthorized', code: 'expired_session' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('createSessionMiddleware', () => {
+  const middleware = createSessionMiddleware({
+    session,
+    protectedPaths: ['/api/app', '/dashboard/'],
+  });
+
+  it('passes through requests outside the protected prefixes', async () => {
+    const res = await middleware(createRequest('https://app.example.com/api/apple'));
+
+    expect(res).toBeUndefined();
+  });
+
+  it('rejects protected prefixes and their sub-paths without a session', async () => {
+    for (const url of ['https://app.example.com/api/app', 'https://app.example.com/dashboard/x']) {
+      const res = await middleware(createRequest(url));
+
+      expect(res?.status).toBe(401);
+      expect(await res?.json()).toEqual({ error: 'unauthorized', code: 'missing_session' });
+    }
+  });
+
+  it('rejects protected prefixes with a malformed session cookie', async () => {
+    const res = await middleware(
+      createRequest('https://app.example.com/api/app/products', 'bc_session=%E0%A4%A'),
+    );
+
+    expect(res?.status).toBe(401);
+    expect(await res?.json()).toEqual({ error: 'unauthorized', code: 'invalid_session' });
+  });
+
+  it('passes through protected prefixes with a valid session', async () => {
+    const res = await middleware(
+      createRequest('https://app.example.com/api/app/products', await sessionCookie()),
+    );
+
+    expect(res).toBeUndefined();
+  });
+});
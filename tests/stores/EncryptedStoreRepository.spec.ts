@@ -0,0 +1,130 @@
+import { randomBytes } from 'node:crypto';
+import { InMemoryStoreRepository } from '@/stores/adapters/InMemoryStoreRepository.js';
+import type { StoreRecord } from '@/stores/dto/StoreRecord.js';
+import { EncryptedStoreRepository } from '@/stores/encryption/EncryptedStoreRepository.js';
+import { TokenCipher } from '@/stores/encryption/TokenCipher.js';
+import { InvalidEncryptionKeyError } from '@/stores/encryption/errors/InvalidEncryptionKeyError.js';
+import { TokenDecryptionError } from '@/stores/encryption/errors/TokenDecryptionError.js';
+import { parseTokenEncryptionKeys } from '@/stores/encryption/parseTokenEncryptionKeys.js';
+import { describe, expect, it } from 'vitest';
+
+const oldKey = { id: '2026-01', secret: randomBytes(32).toString('base64') };
+const newKey = { id: '2026-02', secret: randomBytes(32).toString('base64') };
+
+const record: StoreRecord = {
+  storeHash: 'xyz',
+  accessToken: 'plain-access-token',
+  scope: 'store_v2_products',
+  owner: { id: 1, email: 'owner@example.com' },
+  users: [{ id: 1, email: 'owner@example.com' }],
+  installedAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('TokenCipher', () => {
+  it('round-trips a token and records the key id in the envelope', () => {
+    const cipher = new TokenCipher({ keys: [oldKey] });
+    const envelope = cipher.encrypt('secret-token', 'xyz');
+
+    expect(envelope).toMatch(/^enc:v1:2026-01:/);
+    expect(envelope).not.toContain('secret-token');
+    expect(cipher.keyIdOf(envelope)).toBe('2026-01');
+    expect(cipher.decrypt(envelope, 'xyz')).toBe('secret-token');
+  });
+
+  it('decrypts envelopes sealed under any configured key', () => {
+    const envelope = new TokenCipher({ keys: [oldKey] }).encrypt('secret-token', 'xyz');
+    const rotated = new TokenCipher({ keys: [newKey, oldKey] });
+
+    expect(rotated.activeKeyId).toBe('2026-02');
+    expect(rotated.decrypt(envelope, 'xyz')).toBe('secret-token');
+  });
+
+  it('rejects envelopes for another store, unknown keys, and tampering', () => {
+    const cipher = new TokenCipher({ keys: [oldKey] });
+    const envelope = cipher.encrypt('secret-token', 'xyz');
+    const tampered = `${envelope.slice(0, -2)}${envelope.endsWith('AA') ? 'BB' : 'AA'}`;
+
+    expect(() => cipher.decrypt(envelope, 'abc')).toThrow(TokenDecryptionError);
+    expect(() => cipher.decrypt(tampered, 'xyz')).toThrow(TokenDecryptionError);
+    expect(() => new TokenCipher({ keys: [newKey] }).decrypt(envelope, 'xyz')).toThrow(
+      TokenDecryptionError,
+    );
+  });
+
+  it('rejects unusable key configurations', () => {
+    expect(() => new TokenCipher({ keys: [] })).toThrow(InvalidEncryptionKeyError);
+    expect(() => new TokenCipher({ keys: [{ id: 'k1', secret: 'c2hvcnQ=' }] })).toThrow(
+      InvalidEncryptionKeyError,
+    );
+    expect(() => new TokenCipher({ keys: [{ ...oldKey, id: 'bad:id' }] })).toThrow(
+      InvalidEncryptionKeyError,
+    );
+    expect(() => new TokenCipher({ keys: [oldKey, oldKey] })).toThrow(InvalidEncryptionKeyError);
+    expect(() => new TokenCipher({ keys: [oldKey], activeKeyId: 'missing' })).toThrow(
+      InvalidEncryptionKeyError,
+    );
+  });
+});
+
+describe('EncryptedStoreRepository', () => {
+  it('stores sealed tokens and returns plain-text tokens', async () => {
+    const inner = new InMemoryStoreRepository();
+    const stores = EncryptedStoreRepository.create(inner, { keys: [oldKey] });
+
+    await stores.upsert(record);
+
+    expect((await inner.findByStoreHash('xyz'))?.accessToken).toMatch(/^enc:v1:2026-01:/);
+    await expect(stores.findByStoreHash('xyz')).resolves.toEqual(record);
+    await expect(stores.findAll()).resolves.toEqual([record]);
+  });
+
+  it('reads records stored before encryption was enabled', async () => {
+    const inner = new InMemoryStoreRepository();
+    await inner.upsert(record);
+
+    const stores = EncryptedStoreRepository.create(inner, { keys: [oldKey] });
+
+    await expect(stores.findByStoreHash('xyz')).resolves.toEqual(record);
+  });
+
+  it('re-encrypts plain-text and old-key records under the active key', async () => {
+    const inner = new InMemoryStoreRepository();
+    await EncryptedStoreRepository.create(inner, { keys: [oldKey] }).upsert(record);
+    await inner.upsert({ ...record, storeHash: 'abc' });
+
+    const stores = EncryptedStoreRepository.create(inner, { keys: [newKey, oldKey] });
+
+    await expect(stores.reencryptAll()).resolves.toEqual({
+      total: 2,
+      reencrypted: 2,
+      unchanged: 0,
+    });
+    await expect(stores.reencryptAll()).resolves.toEqual({
+      total: 2,
+      reencrypted: 0,
+      unchanged: 2,
+    });
+
+    const retired = EncryptedStoreRepository.create(inner, { keys: [newKey] });
+    await expect(retired.findByStoreHash('xyz')).resolves.toEqual(record);
+    await expect(retired.findByStoreHash('abc')).resolves.toEqual({
+      ...record,
+      storeHash: 'abc',
+    });
+  });
+});
+
+describe('parseTokenEncryptionKeys', () => {
+  it('parses comma-separated id:secret pairs', () => {
+    expect(parseTokenEncryptionKeys(' k2:c2Vj==, k1:b2xk ')).toEqual([
+      { id: 'k2', secret: 'c2Vj==' },
+      { id: 'k1', secret: 'b2xk' },
+    ]);
+  });
+
+  it('rejects entries without an id or secret', () => {
+    expect(() => parseTokenEncryptionKeys('no-separator')).toThrow(InvalidEncryptionKeyError);
+    expect(() => parseTokenEncryptionKeys(':secret')).toThrow(InvalidEncryptionKeyError);
+  });
+});
@@ -0,0 +1,115 @@
+import { InMemoryStoreRepository } from '@/stores/adapters/InMemoryStoreRepository.js';
+import { DeleteStoreOnUninstall } from '@/stores/decorators/DeleteStoreOnUninstall.js';
+import { PersistStoreOnInstall } from '@/stores/decorators/PersistStoreOnInstall.js';
+import { RemoveUserFromStore } from '@/stores/decorators/RemoveUserFromStore.js';
+import type { AuthSession, SignedPayloadClaims } from 'bigcommerce-oauth';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const authSession: AuthSession = {
+  access_token: 'token-1',
+  scope: 'store_v2_products',
+  user: { id: 2, username: 'staff', email: 'staff@example.com' },
+  owner: { id: 1, username: 'owner', email: 'owner@example.com' },
+  context: 'stores/xyz',
+  ajs_anonymous_id: null,
+  account_uuid: 'account-uuid',
+};
+
+const claims = {
+  sub: 'stores/xyz',
+  user: { id: 2, email: 'staff@example.com', locale: 'en-US' },
+} as SignedPayloadClaims;
+
+const installInput = {
+  code: 'abc',
+  context: 'stores/xyz',
+  scope: 'store_v2_products',
+  redirectUri: 'https://app.example.com/auth',
+};
+
+describe('PersistStoreOnInstall', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('persists the exchanged token and returns the session unchanged', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const stores = new InMemoryStoreRepository();
+    const inner = { execute: vi.fn().mockResolvedValue(authSession) };
+
+    const session = await new PersistStoreOnInstall(inner, stores).execute(installInput, {});
+
+    expect(session).toBe(authSession);
+    expect(inner.execute).toHaveBeenCalledWith(installInput, {});
+    await expect(stores.findByStoreHash('xyz')).resolves.toEqual({
+      storeHash: 'xyz',
+      accessToken: 'token-1',
+      scope: 'store_v2_products',
+      owner: { id: 1, email: 'owner@example.com' },
+      users: [{ id: 2, email: 'staff@example.com' }],
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('keeps installedAt and existing users on reinstall', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const stores = new InMemoryStoreRepository();
+    const inner = { execute: vi.fn().mockResolvedValue(authSession) };
+    const decorator = new PersistStoreOnInstall(inner, stores);
+
+    await decorator.execute(installInput, {});
+    await stores.addUser('xyz', { id: 3, email: 'other@example.com' });
+
+    vi.setSystemTime(new Date('2026-02-01T00:00:00Z'));
+    inner.execute.mockResolvedValue({ ...authSession, access_token: 'token-2' });
+    await decorator.execute(installInput, {});
+
+    expect(await stores.findByStoreHash('xyz')).toMatchObject({
+      accessToken: 'token-2',
+      users: [
+        { id: 3, email: 'other@example.com' },
+        { id: 2, email: 'staff@example.com' },
+      ],
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('persists nothing when the token exchange fails', async () => {
+    const stores = new InMemoryStoreRepository();
+    const upsert = vi.spyOn(stores, 'upsert');
+    const inner = { execute: vi.fn().mockRejectedValue(new Error('exchange failed')) };
+
+    await expect(
+      new PersistStoreOnInstall(inner, stores).execute(installInput, {}),
+    ).rejects.toThrow('exchange failed');
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('DeleteStoreOnUninstall', () => {
+  it('deletes the store after the payload is verified', async () => {
+    const stores = new InMemoryStoreRepository();
+    const remove = vi.spyOn(stores, 'delete');
+    const inner = { execute: vi.fn().mockResolvedValue(claims) };
+
+    await expect(
+      new DeleteStoreOnUninstall(inner, stores).execute({ signedPayloadJwt: 'jwt' }, {}),
+    ).resolves.toBe(claims);
+    expect(remove).toHaveBeenCalledWith('xyz');
+  });
+});
+
+describe('RemoveUserFromStore', () => {
+  it('removes the user named in the payload', async () => {
+    const stores = new InMemoryStoreRepository();
+    const removeUser = vi.spyOn(stores, 'removeUser');
+    const inner = { execute: vi.fn().mockResolvedValue(claims) };
+
+    await expect(
+      new RemoveUserFromStore(inner, stores).execute({ signedPayloadJwt: 'jwt' }, {}),
+    ).resolves.toBe(claims);
+    expect(removeUser).toHaveBeenCalledWith('xyz', 2);
+  });
+});
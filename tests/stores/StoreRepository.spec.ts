@@ -0,0 +1,118 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryStoreRepository } from '@/stores/adapters/InMemoryStoreRepository.js';
+import { JsonFileStoreRepository } from '@/stores/adapters/JsonFileStoreRepository.js';
+import type { StoreRecord } from '@/stores/dto/StoreRecord.js';
+import type { StoreRepository } from '@/stores/dto/StoreRepository.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const owner = { id: 1, email: 'owner@example.com' };
+
+const record: StoreRecord = {
+  storeHash: 'xyz',
+  accessToken: 'token-1',
+  scope: 'store_v2_products',
+  owner,
+  users: [owner],
+  installedAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'bc-stores-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe.each([
+  ['InMemoryStoreRepository', (): StoreRepository => new InMemoryStoreRepository()],
+  [
+    'JsonFileStoreRepository',
+    (): StoreRepository => new JsonFileStoreRepository(join(dir, 'data', 'stores.json')),
+  ],
+])('%s', (_name, createRepository) => {
+  it('returns null for a store that is not installed', async () => {
+    await expect(createRepository().findByStoreHash('xyz')).resolves.toBeNull();
+  });
+
+  it('upserts and looks up a store by hash', async () => {
+    const stores = createRepository();
+
+    await stores.upsert(record);
+    await stores.upsert({ ...record, accessToken: 'token-2' });
+
+    await expect(stores.findByStoreHash('xyz')).resolves.toEqual({
+      ...record,
+      accessToken: 'token-2',
+    });
+  });
+
+  it('deletes a store', async () => {
+    const stores = createRepository();
+
+    await stores.upsert(record);
+    await stores.delete('xyz');
+    await stores.delete('unknown');
+
+    await expect(stores.findByStoreHash('xyz')).resolves.toBeNull();
+  });
+
+  it('adds and removes users', async () => {
+    const stores = createRepository();
+    const user = { id: 2, email: 'staff@example.com' };
+
+    await stores.upsert(record);
+    await stores.addUser('xyz', user);
+    await stores.addUser('xyz', { ...user, email: 'renamed@example.com' });
+
+    expect((await stores.findByStoreHash('xyz'))?.users).toEqual([
+      owner,
+      { id: 2, email: 'renamed@example.com' },
+    ]);
+
+    await stores.removeUser('xyz', owner.id);
+
+    expect((await stores.findByStoreHash('xyz'))?.users).toEqual([
+      { id: 2, email: 'renamed@example.com' },
+    ]);
+  });
+
+  it('ignores membership changes for unknown stores', async () => {
+    const stores = createRepository();
+
+    await stores.addUser('unknown', owner);
+    await stores.removeUser('unknown', owner.id);
+
+    await expect(stores.findByStoreHash('unknown')).resolves.toBeNull();
+  });
+});
+
+describe('JsonFileStoreRepository', () => {
+  it('persists records across instances', async () => {
+    const filePath = join(dir, 'stores.json');
+
+    await new JsonFileStoreRepository(filePath).upsert(record);
+
+    await expect(new JsonFileStoreRepository(filePath).findByStoreHash('xyz')).resolves.toEqual(
+      record,
+    );
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({ stores: { xyz: record } });
+  });
+
+  it('serializes concurrent writes', async () => {
+    const stores = new JsonFileStoreRepository(join(dir, 'stores.json'));
+
+    await Promise.all(
+      ['a01', 'b02', 'c03'].map((storeHash) => stores.upsert({ ...record, storeHash })),
+    );
+
+    for (const storeHash of ['a01', 'b02', 'c03']) {
+      await expect(stores.findByStoreHash(storeHash)).resolves.not.toBeNull();
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { TracedInstallController } from '@/telemetry/TracedInstallController.js';
+import { SpanAttributes, SpanNames } from '@/telemetry/attributes.js';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import type { AuthSession } from 'bigcommerce-oauth';
+import { BigCommerceTokenExchangeError } from 'bigcommerce-oauth/gateways/BigCommerce';
+import type { InstallAppUseCase } from 'bigcommerce-oauth/use-cases/install';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+const exporter = new InMemorySpanExporter();
+const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+provider.register();
+
+const redirectUri = 'https://my-app.example.com/api/bc/install/callback';
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const authSession = {
+  access_token: 'secret-token',
+  scope: 'store_v2_products store_v2_orders',
+  user: { id: 42, username: 'merchant', email: 'merchant@example.com' },
+  owner: { id: 7, username: 'owner', email: 'owner@example.com' },
+  context: 'stores/xyz',
+  ajs_anonymous_id: null,
+  account_uuid: 'b9c0d7a4-1d35-4a5e-9c0e-3c4d2f7b8e61',
+} satisfies AuthSession;
+
+function createRequest(url: string) {
+  return { url, headers: new Headers({ 'x-request-id': 'req-1' }) } as any;
+}
+
+describe('TracedInstallController', () => {
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+  });
+
+  it('records an install span with a child token exchange span', async () => {
+    const installApp = {
+      execute: vi.fn().mockResolvedValue(authSession),
+    } as unknown as InstallAppUseCase;
+
+    await TracedInstallController.create({ installApp, redirectUri, logger })(
+      createRequest(
+        'https://app.example.com/auth?code=abc&context=stores/xyz&scope=store_v2_products store_v2_orders',
+      ),
+    );
+
+    const spans = exporter.getFinishedSpans();
+    const install = spans.find((span) => span.name === SpanNames.install)!;
+    const exchange = spans.find((span) => span.name === SpanNames.tokenExchange)!;
+
+    expect(install.attributes).toEqual({
+      [SpanAttributes.requestId]: 'req-1',
+      [SpanAttributes.storeHash]: 'xyz',
+      [SpanAttributes.status]: 'success',
+      [SpanAttributes.scopeCount]: 2,
+    });
+    expect(install.status.code).toBe(SpanStatusCode.UNSET);
+
+    expect(exchange.kind).toBe(SpanKind.CLIENT);
+    expect(exchange.parentSpanContext?.spanId).toBe(install.spanContext().spanId);
+    expect(exchange.spanContext().traceId).toBe(install.spanContext().traceId);
+  });
+
+  it('records the error code and marks both spans as failed when the exchange fails', async () => {
+    const installApp = {
+      execute: vi.fn().mockRejectedValue(new BigCommerceTokenExchangeError(400, 'Bad Request')),
+    } as unknown as InstallAppUseCase;
+
+    await TracedInstallController.create({ installApp, redirectUri, logger })(
+      createRequest(
+        'https://app.example.com/auth?code=abc&context=stores/xyz&scope=store_v2_products',
+      ),
+    );
+
+    const spans = exporter.getFinishedSpans();
+    const install = spans.find((span) => span.name === SpanNames.install)!;
+    const exchange = spans.find((span) => span.name === SpanNames.tokenExchange)!;
+
+    expect(install.attributes).toMatchObject({
+      [SpanAttributes.status]: 'error',
+      [SpanAttributes.errorCode]: 'token_exchange_failed',
+      [SpanAttributes.scopeCount]: 1,
+    });
+    expect(install.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'token_exchange_failed',
+    });
+    expect(exchange.status.code).toBe(SpanStatusCode.ERROR);
+    expect(exchange.events.map((event) => event.name)).toContain('exception');
+  });
+
+  it('records only the install span when validation fails before the exchange', async () => {
+    const installApp = { execute: vi.fn() } as unknown as InstallAppUseCase;
+
+    await TracedInstallController.create({ installApp, redirectUri, logger })(
+      createRequest('https://app.example.com/auth?context=stores/xyz'),
+    );
+
+    const spans = exporter.getFinishedSpans();
+
+    expect(spans.map((span) => span.name)).toEqual([SpanNames.install]);
+    expect(spans[0]!.attributes).toMatchObject({
+      [SpanAttributes.errorCode]: 'missing_params',
+      [SpanAttributes.scopeCount]: 0,
+    });
+  });
+});
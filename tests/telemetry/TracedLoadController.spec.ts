@@ -0,0 +1,79 @@
+import { TracedLoadController } from '@/telemetry/TracedLoadController.js';
+import { SpanAttributes, SpanNames } from '@/telemetry/attributes.js';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import { InvalidJwtSignatureError } from 'bigcommerce-oauth/gateways/BigCommerce';
+import type { LoadAppUseCase } from 'bigcommerce-oauth/use-cases/load';
+import type { NextRequest } from 'next/server.js';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+const exporter = new InMemorySpanExporter();
+const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+const tracer = provider.getTracer('test');
+
+const claims: SignedPayloadClaims = {
+  aud: 'client-id',
+  iss: 'bc',
+  iat: 1700000000,
+  nbf: 1700000000,
+  exp: 1700003600,
+  jti: 'c1c9a3d0-8a5b-4b35-9e1b-2a8e9a3c3f1d',
+  sub: 'stores/xyz',
+  user: { id: 42, email: 'merchant@example.com', locale: 'en-US' },
+  owner: { id: 7, email: 'owner@example.com' },
+};
+
+function createRequest(url: string) {
+  // Minimal NextRequest-like shape; controller only uses url + headers
+  return { url, headers: new Headers({ host: 'app.example.com' }) } as unknown as NextRequest;
+}
+
+describe('TracedLoadController', () => {
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+  });
+
+  it('records a load span with the verified store hash', async () => {
+    const loadApp = { execute: vi.fn().mockResolvedValue(claims) } as unknown as LoadAppUseCase;
+
+    await TracedLoadController.create({ loadApp, tracer })(
+      createRequest('https://app.example.com/api/bc/load?signed_payload_jwt=a.b.c'),
+    );
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span?.name).toBe(SpanNames.load);
+    expect(span?.attributes).toEqual({
+      [SpanAttributes.storeHash]: 'xyz',
+      [SpanAttributes.callbackStatus]: 'success',
+    });
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('records the error code and marks the span as failed when verification fails', async () => {
+    const loadApp = {
+      execute: vi.fn().mockRejectedValue(new InvalidJwtSignatureError()),
+    } as unknown as LoadAppUseCase;
+
+    await TracedLoadController.create({ loadApp, tracer })(
+      createRequest('https://app.example.com/api/bc/load?signed_payload_jwt=a.b.c'),
+    );
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span?.attributes).toEqual({
+      [SpanAttributes.callbackStatus]: 'error',
+      [SpanAttributes.callbackErrorCode]: 'invalid_signature',
+    });
+    expect(span?.status).toEqual({ code: SpanStatusCode.ERROR, message: 'invalid_signature' });
+  });
+});
@@ -0,0 +1,81 @@
+import { TracedRemoveUserController } from '@/telemetry/TracedRemoveUserController.js';
+import { SpanAttributes, SpanNames } from '@/telemetry/attributes.js';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import { InvalidStoreContextError } from 'bigcommerce-oauth/value-objects';
+import type { RemoveUserUseCase } from 'bigcommerce-oauth/use-cases/remove-user';
+import type { NextRequest } from 'next/server.js';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+const exporter = new InMemorySpanExporter();
+const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+const tracer = provider.getTracer('test');
+
+const claims: SignedPayloadClaims = {
+  aud: 'client-id',
+  iss: 'bc',
+  iat: 1700000000,
+  nbf: 1700000000,
+  exp: 1700003600,
+  jti: 'c1c9a3d0-8a5b-4b35-9e1b-2a8e9a3c3f1d',
+  sub: 'stores/xyz',
+  user: { id: 42, email: 'staff@example.com', locale: 'en-US' },
+  owner: { id: 7, email: 'owner@example.com' },
+};
+
+function createRequest(url: string) {
+  // Minimal NextRequest-like shape; controller only uses url
+  return { url, headers: new Headers() } as unknown as NextRequest;
+}
+
+describe('TracedRemoveUserController', () => {
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+  });
+
+  it('records a remove-user span with the store hash', async () => {
+    const removeUser = {
+      execute: vi.fn().mockResolvedValue(claims),
+    } as unknown as RemoveUserUseCase;
+
+    await TracedRemoveUserController.create({ removeUser, tracer })(
+      createRequest('https://app.example.com/api/bc/remove-user?signed_payload_jwt=a.b.c'),
+    );
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span?.name).toBe(SpanNames.removeUser);
+    expect(span?.attributes).toEqual({
+      [SpanAttributes.storeHash]: 'xyz',
+      [SpanAttributes.callbackStatus]: 'success',
+    });
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('records the error code when the payload names an invalid store context', async () => {
+    const removeUser = {
+      execute: vi.fn().mockRejectedValue(new InvalidStoreContextError('nope')),
+    } as unknown as RemoveUserUseCase;
+
+    await TracedRemoveUserController.create({ removeUser, tracer })(
+      createRequest('https://app.example.com/api/bc/remove-user?signed_payload_jwt=a.b.c'),
+    );
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span?.attributes).toEqual({
+      [SpanAttributes.callbackStatus]: 'error',
+      [SpanAttributes.callbackErrorCode]: 'invalid_context',
+    });
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
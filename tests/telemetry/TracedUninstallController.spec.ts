@@ -0,0 +1,78 @@
+import { TracedUninstallController } from '@/telemetry/TracedUninstallController.js';
+import { SpanAttributes, SpanNames } from '@/telemetry/attributes.js';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import type { UninstallAppUseCase } from 'bigcommerce-oauth/use-cases/uninstall';
+import type { NextRequest } from 'next/server.js';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+const exporter = new InMemorySpanExporter();
+const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+const tracer = provider.getTracer('test');
+
+const claims: SignedPayloadClaims = {
+  aud: 'client-id',
+  iss: 'bc',
+  iat: 1700000000,
+  nbf: 1700000000,
+  exp: 1700003600,
+  jti: 'c1c9a3d0-8a5b-4b35-9e1b-2a8e9a3c3f1d',
+  sub: 'stores/xyz',
+  user: { id: 42, email: 'merchant@example.com', locale: 'en-US' },
+  owner: { id: 7, email: 'owner@example.com' },
+};
+
+function createRequest(url: string) {
+  // Minimal NextRequest-like shape; controller only uses url
+  return { url, headers: new Headers() } as unknown as NextRequest;
+}
+
+describe('TracedUninstallController', () => {
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+  });
+
+  it('records an uninstall span with the verified store hash', async () => {
+    const uninstallApp = {
+      execute: vi.fn().mockResolvedValue(claims),
+    } as unknown as UninstallAppUseCase;
+
+    await TracedUninstallController.create({ uninstallApp, tracer })(
+      createRequest('https://app.example.com/api/bc/uninstall?signed_payload_jwt=a.b.c'),
+    );
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span?.name).toBe(SpanNames.uninstall);
+    expect(span?.attributes).toEqual({
+      [SpanAttributes.storeHash]: 'xyz',
+      [SpanAttributes.callbackStatus]: 'success',
+    });
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('records the error code when the signed payload is missing', async () => {
+    const uninstallApp = { execute: vi.fn() } as unknown as UninstallAppUseCase;
+
+    await TracedUninstallController.create({ uninstallApp, tracer })(
+      createRequest('https://app.example.com/api/bc/uninstall'),
+    );
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span?.attributes).toEqual({
+      [SpanAttributes.callbackStatus]: 'error',
+      [SpanAttributes.callbackErrorCode]: 'missing_signed_payload',
+    });
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
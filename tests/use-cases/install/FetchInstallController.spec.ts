@@ -0,0 +1,104 @@
+import { SessionCookie } from '@/session/SessionCookie.js';
+import { FetchInstallController } from '@/use-cases/install/controllers/FetchInstallController.js';
+import type { AuthSession } from 'bigcommerce-oauth';
+import type { InstallAppUseCase } from 'bigcommerce-oauth/use-cases/install';
+import { describe, expect, it, vi } from 'vitest';
+
+const redirectUri = 'https://my-app.example.com/auth';
+const secret = 'a-very-long-session-secret-for-tests-only';
+
+const authSession: AuthSession = {
+  access_token: 'secret-token',
+  scope: 'store_v2_products',
+  user: { id: 42, username: 'merchant', email: 'merchant@example.com' },
+  owner: { id: 7, username: 'owner', email: 'owner@example.com' },
+  context: 'stores/xyz',
+  ajs_anonymous_id: null,
+  account_uuid: 'b9c0d7a4-1d35-4a5e-9c0e-3c4d2f7b8e61',
+};
+
+function createInstallAppMock() {
+  const execute = vi.fn().mockResolvedValue(authSession);
+  const installApp = { execute } as unknown as InstallAppUseCase;
+  return { installApp, execute };
+}
+
+function createLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('FetchInstallController', () => {
+  it('handles a standard Request and redirects with a standard Response', async () => {
+    const { installApp, execute } = createInstallAppMock();
+    const handler = FetchInstallController.create({
+      installApp,
+      redirectUri,
+      logger: createLogger(),
+    });
+
+    const res = await handler(
+      new Request('http://localhost:8787/auth?code=abc123&context=stores/xyz&scope=a%20b'),
+    );
+
+    expect(execute).toHaveBeenCalledWith(
+      { code: 'abc123', context: 'stores/xyz', scope: 'a b', redirectUri },
+      {},
+    );
+    expect(res).toBeInstanceOf(Response);
+    expect(res.status).toBe(307);
+    expect(res.headers.get('location')).toBe(
+      'https://my-app.example.com/auth/result?status=success&context=stores%2Fxyz',
+    );
+  });
+
+  it('appends the session cookie to the redirect when configured', async () => {
+    const { installApp } = createInstallAppMock();
+    const handler = FetchInstallController.create({
+      installApp,
+      redirectUri,
+      session: { secret },
+      logger: createLogger(),
+    });
+
+    const res = await handler(new Request(`${redirectUri}?code=abc123&context=stores/xyz`));
+    const [cookie] = res.headers.getSetCookie();
+
+    const value = /^bc_session=([^;]+)/.exec(cookie ?? '')?.[1] ?? '';
+    expect(await new SessionCookie({ secret }).unseal(value)).toMatchObject({
+      storeHash: 'xyz',
+      userId: 42,
+    });
+  });
+
+  it('answers with JSON in json mode', async () => {
+    const { installApp } = createInstallAppMock();
+    const handler = FetchInstallController.create({
+      installApp,
+      redirectUri,
+      responseMode: 'json',
+      logger: createLogger(),
+    });
+
+    const res = await handler(new Request(`${redirectUri}?context=stores/xyz`));
+
+    expect(res.status).toBe(400);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(res.headers.get('cache-control')).toBe('no-store');
+    expect(await res.json()).toEqual({ status: 'error', errorCode: 'missing_params' });
+  });
+
+  it('writes nothing to stdout when no logger is configured', async () => {
+    const { installApp } = createInstallAppMock();
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      await FetchInstallController.create({ installApp, redirectUri })(
+        new Request(`${redirectUri}?code=abc123&context=stores/xyz`),
+      );
+
+      expect(write).not.toHaveBeenCalled();
+    } finally {
+      write.mockRestore();
+    }
+  });
+});
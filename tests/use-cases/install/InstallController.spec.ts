@@ -1,17 +1,35 @@
+import { SessionCookie } from '@/session/SessionCookie.js';
 import type { InstallHandlerConfig } from '@/use-cases/install/controllers/dto/InstallHandlerConfig.js';
 import { InstallController } from '@/use-cases/install/controllers/InstallController.js';
+import { TokenExchangeFailedError } from '@/use-cases/install/controllers/errors/TokenExchangeFailedError.js';
+import { InstallGuard } from '@/use-cases/install/guard/InstallGuard.js';
+import type { AuthSession } from 'bigcommerce-oauth';
 import { BigCommerceTokenExchangeError } from 'bigcommerce-oauth/gateways/BigCommerce';
 import type { InstallAppUseCase } from 'bigcommerce-oauth/use-cases/install';
 import { describe, expect, it, vi } from 'vitest';
 
 const redirectUri = 'https://my-app.example.com/api/bc/install/callback';
 
+const authSession: AuthSession = {
+  access_token: 'secret-token',
+  scope: 'store_v2_products',
+  user: { id: 42, username: 'merchant', email: 'merchant@example.com' },
+  owner: { id: 7, username: 'owner', email: 'owner@example.com' },
+  context: 'stores/xyz',
+  ajs_anonymous_id: null,
+  account_uuid: 'b9c0d7a4-1d35-4a5e-9c0e-3c4d2f7b8e61',
+};
+
 function createInstallAppMock() {
-  const execute = vi.fn().mockResolvedValue({} as any);
+  const execute = vi.fn().mockResolvedValue(authSession);
   const installApp = { execute } as unknown as InstallAppUseCase;
   return { installApp, execute };
 }
 
+function createLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
 function createRequest(url: string, headersInit: Record<string, string> = {}) {
   const headers = new Headers(headersInit);
   // Minimal NextRequest-like shape; controller only uses url + headers
@@ -29,6 +47,10 @@ class TestableInstallController extends InstallController {
     // call the protected method from subclass
     return this.getBaseUrl(req as any);
   }
+
+  public performInstallPublic(req: any) {
+    return this.performInstall(req);
+  }
 }
 
 describe('InstallController', () => {
@@ -38,6 +60,7 @@ describe('InstallController', () => {
     const handler = InstallController.create({
       installApp,
       redirectUri,
+      allowedHosts: ['public.example.com'],
       // use defaults for successPath/errorPath
     });
 
@@ -79,6 +102,7 @@ describe('InstallController', () => {
     const handler = InstallController.create({
       installApp,
       redirectUri,
+      allowedHosts: ['shop.example.com'],
       successPath: '/custom/success',
       errorPath: '/custom/error',
     });
@@ -204,21 +228,474 @@ describe('InstallController', () => {
     expect(redirectUrl.searchParams.get('code')).toBe('unknown');
   });
 
-  it('getBaseUrl falls back to http://localhost:3000 when no headers are present', () => {
+  it('sets an encrypted session cookie after a successful install when configured', async () => {
+    const { installApp } = createInstallAppMock();
+    const session = { secret: 'a-very-long-session-secret-for-tests-only' };
+
+    const handler = InstallController.create({ installApp, redirectUri, session });
+
+    const req = createRequest(
+      'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products',
+      { host: 'shop.example.com' },
+    );
+
+    const res = await handler(req);
+    const cookie = res.headers.get('set-cookie') ?? '';
+    const value = /^bc_session=([^;]+)/.exec(cookie)?.[1] ?? '';
+
+    expect(cookie).toContain('; HttpOnly; Secure; SameSite=None; Partitioned');
+    expect(await new SessionCookie(session).unseal(value)).toMatchObject({
+      storeHash: 'xyz',
+      userId: 42,
+      email: 'merchant@example.com',
+    });
+  });
+
+  it('does not set a session cookie when installation fails', async () => {
+    const execute = vi.fn().mockRejectedValue(new Error('boom'));
+    const installApp = { execute } as unknown as InstallAppUseCase;
+
+    const handler = InstallController.create({
+      installApp,
+      redirectUri,
+      session: { secret: 'a-very-long-session-secret-for-tests-only' },
+    });
+
+    const req = createRequest(
+      'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz',
+      { host: 'shop.example.com' },
+    );
+
+    const res = await handler(req);
+
+    expect(res.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('rejects a replayed code with replayed_code when an install guard is configured', async () => {
+    const { installApp, execute } = createInstallAppMock();
+
+    const handler = InstallController.create({
+      installApp,
+      redirectUri,
+      installGuard: new InstallGuard(),
+    });
+
+    const url =
+      'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products';
+
+    await handler(createRequest(url, { host: 'shop.example.com' }));
+    const res = await handler(createRequest(url, { host: 'shop.example.com' }));
+
+    const redirectUrl = new URL(res.headers.get('location')!);
+    expect(redirectUrl.searchParams.get('status')).toBe('error');
+    expect(redirectUrl.searchParams.get('code')).toBe('replayed_code');
+
+    // The replayed code must never reach the token exchange
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a malformed context with invalid_context when an install guard is configured', async () => {
+    const { installApp, execute } = createInstallAppMock();
+
+    const handler = InstallController.create({
+      installApp,
+      redirectUri,
+      installGuard: new InstallGuard(),
+    });
+
+    const res = await handler(
+      createRequest('https://internal.example.com/api/bc/install?code=abc123&context=evil', {
+        host: 'shop.example.com',
+      }),
+    );
+
+    const redirectUrl = new URL(res.headers.get('location')!);
+    expect(redirectUrl.searchParams.get('code')).toBe('invalid_context');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('rejects a callback without an issued nonce with invalid_nonce', async () => {
+    const { installApp, execute } = createInstallAppMock();
+
+    const handler = InstallController.create({
+      installApp,
+      redirectUri,
+      installGuard: new InstallGuard({ requireNonce: true }),
+    });
+
+    const res = await handler(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&state=forged',
+        { host: 'shop.example.com' },
+      ),
+    );
+
+    const redirectUrl = new URL(res.headers.get('location')!);
+    expect(redirectUrl.searchParams.get('code')).toBe('invalid_nonce');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('fails with insufficient_scope and lists the missing scopes before exchanging the code', async () => {
+    const { installApp, execute } = createInstallAppMock();
+
+    const handler = InstallController.create({
+      installApp,
+      redirectUri,
+      requiredScopes: ['store_v2_products', 'store_v2_orders_read_only', 'store_v2_content'],
+    });
+
+    const res = await handler(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products%20store_v2_information',
+        { host: 'shop.example.com' },
+      ),
+    );
+
+    const redirectUrl = new URL(res.headers.get('location')!);
+    expect(redirectUrl.searchParams.get('status')).toBe('error');
+    expect(redirectUrl.searchParams.get('code')).toBe('insufficient_scope');
+    expect(redirectUrl.searchParams.get('missing_scopes')).toBe(
+      'store_v2_orders_read_only store_v2_content',
+    );
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('treats a modify scope as satisfying its read-only counterpart', async () => {
+    const { installApp, execute } = createInstallAppMock();
+
+    const handler = InstallController.create({
+      installApp,
+      redirectUri,
+      requiredScopes: ['store_v2_orders_read_only'],
+    });
+
+    const res = await handler(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_orders',
+        { host: 'shop.example.com' },
+      ),
+    );
+
+    const redirectUrl = new URL(res.headers.get('location')!);
+    expect(redirectUrl.searchParams.get('status')).toBe('success');
+    expect(redirectUrl.searchParams.get('missing_scopes')).toBeNull();
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports granted and missing scopes in the InstallResult', async () => {
     const { installApp } = createInstallAppMock();
 
     const controller = new TestableInstallController({
       installApp,
       redirectUri,
+      requiredScopes: ['store_v2_products', 'store_v2_customers'],
+    });
+
+    const failed = await controller.performInstallPublic(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products',
+      ),
+    );
+
+    expect(failed).toMatchObject({
+      status: 'error',
+      errorCode: 'insufficient_scope',
+      grantedScopes: ['store_v2_products'],
+      missingScopes: ['store_v2_customers'],
+    });
+
+    const succeeded = await controller.performInstallPublic(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=def456&context=stores/xyz&scope=store_v2_products store_v2_customers',
+      ),
+    );
+
+    expect(succeeded).toMatchObject({
+      status: 'success',
+      grantedScopes: ['store_v2_products', 'store_v2_customers'],
+    });
+    expect(succeeded.missingScopes).toBeUndefined();
+  });
+
+  it('invokes lifecycle hooks with the request id, store hash, and duration', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const { installApp, execute } = createInstallAppMock();
+    execute.mockImplementation(async () => {
+      vi.advanceTimersByTime(250);
+      return authSession;
     });
 
+    const hooks = {
+      onInstallStarted: vi.fn(),
+      onInstallSucceeded: vi.fn(),
+      onInstallFailed: vi.fn(),
+    };
+
+    await InstallController.create({ installApp, redirectUri, hooks, logger: createLogger() })(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products',
+        { 'x-request-id': 'req-1' },
+      ),
+    );
+    vi.useRealTimers();
+
+    expect(hooks.onInstallStarted).toHaveBeenCalledWith({ requestId: 'req-1', storeHash: 'xyz' });
+    expect(hooks.onInstallSucceeded).toHaveBeenCalledWith({
+      requestId: 'req-1',
+      storeHash: 'xyz',
+      durationMs: 250,
+      grantedScopes: ['store_v2_products'],
+    });
+    expect(hooks.onInstallFailed).not.toHaveBeenCalled();
+  });
+
+  it('reports failures to hooks and logs them without the code or tokens', async () => {
+    const { installApp, execute } = createInstallAppMock();
+    const error = new BigCommerceTokenExchangeError(400, 'Bad Request');
+    Object.assign(error, {
+      request: { code: 'abc123', context: 'stores/xyz' },
+      response: { access_token: 'secret-token' },
+    });
+    execute.mockRejectedValue(error);
+
+    const logger = createLogger();
+    const onInstallFailed = vi.fn();
+
+    await InstallController.create({ installApp, redirectUri, logger, hooks: { onInstallFailed } })(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products',
+      ),
+    );
+
+    expect(onInstallFailed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestId: expect.any(String),
+        storeHash: 'xyz',
+        errorCode: 'token_exchange_failed',
+        error: expect.any(TokenExchangeFailedError),
+      }),
+    );
+    expect(onInstallFailed.mock.calls[0]![0].error.cause).toBe(error);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'install.failed',
+      expect.objectContaining({ storeHash: 'xyz', errorCode: 'token_exchange_failed' }),
+    );
+    const logged = JSON.stringify(logger.error.mock.calls);
+    expect(logged).not.toContain('abc123');
+    expect(logged).not.toContain('secret-token');
+  });
+
+  it('does not fail the install when a hook throws', async () => {
+    const { installApp } = createInstallAppMock();
+    const logger = createLogger();
+
+    const res = await InstallController.create({
+      installApp,
+      redirectUri,
+      logger,
+      hooks: {
+        onInstallSucceeded: () => {
+          throw new Error('metrics down');
+        },
+      },
+    })(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products',
+      ),
+    );
+
+    expect(new URL(res.headers.get('location')!).searchParams.get('status')).toBe('success');
+    expect(logger.warn).toHaveBeenCalledWith(
+      'install.hook_failed',
+      expect.objectContaining({ hook: 'onInstallSucceeded' }),
+    );
+  });
+
+  it.each([
+    [new BigCommerceTokenExchangeError(400, 'Bad Request'), 'token_exchange_failed'],
+    [new BigCommerceTokenExchangeError(401, 'Unauthorized'), 'invalid_client_credentials'],
+    [new BigCommerceTokenExchangeError(403, 'Forbidden'), 'app_revoked'],
+    [new BigCommerceTokenExchangeError(429, 'Too Many Requests'), 'rate_limited'],
+    [new BigCommerceTokenExchangeError(503, 'Service Unavailable'), 'bigcommerce_unavailable'],
+    [
+      new DOMException('The operation was aborted due to timeout', 'TimeoutError'),
+      'network_timeout',
+    ],
+    [
+      new TypeError('fetch failed', { cause: { code: 'UND_ERR_CONNECT_TIMEOUT' } }),
+      'network_timeout',
+    ],
+    [new TypeError('fetch failed', { cause: { code: 'ENOTFOUND' } }), 'network_error'],
+  ])('classifies token exchange failure %o as %s', async (error, expectedCode) => {
+    const { installApp, execute } = createInstallAppMock();
+    execute.mockRejectedValue(error);
+
+    const controller = new TestableInstallController({
+      installApp,
+      redirectUri,
+      logger: createLogger(),
+    });
+
+    const result = await controller.performInstallPublic(
+      createRequest(
+        'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products',
+      ),
+    );
+
+    expect(result.errorCode).toBe(expectedCode);
+  });
+
+  it('getBaseUrl ignores forwarded headers and uses the redirectUri origin by default', () => {
+    const { installApp } = createInstallAppMock();
+
+    const controller = new TestableInstallController({
+      installApp,
+      redirectUri,
+    });
+
+    const req = createRequest(
+      'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz',
+      { 'x-forwarded-host': 'evil.example.net', 'x-forwarded-proto': 'https' },
+    );
+
+    expect(controller.getBaseUrlPublic(req)).toBe('https://my-app.example.com');
+  });
+
+  it('getBaseUrl prefers publicBaseUrl and refuses hosts outside allowedHosts', () => {
+    const { installApp } = createInstallAppMock();
     const req = createRequest(
       'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz',
-      {}, // no x-forwarded-host, no host
+      { 'x-forwarded-host': 'evil.example.net', 'x-forwarded-proto': 'https' },
     );
 
-    const baseUrl = controller.getBaseUrlPublic(req);
+    const fixed = new TestableInstallController({
+      installApp,
+      redirectUri,
+      publicBaseUrl: 'https://public.example.com/ignored/path',
+    });
+    const allowListed = new TestableInstallController({
+      installApp,
+      redirectUri,
+      allowedHosts: ['public.example.com'],
+    });
+
+    expect(fixed.getBaseUrlPublic(req)).toBe('https://public.example.com');
+    expect(allowListed.getBaseUrlPublic(req)).toBe('https://my-app.example.com');
+  });
+
+  describe('responseMode', () => {
+    const successUrl =
+      'https://internal.example.com/api/bc/install?code=abc123&context=stores/xyz&scope=store_v2_products';
+
+    it('redirects to successPath in redirect mode', async () => {
+      const { installApp } = createInstallAppMock();
 
-    expect(baseUrl).toBe('http://localhost:3000');
+      const res = await InstallController.create({
+        installApp,
+        redirectUri,
+        responseMode: 'redirect',
+        successPath: '/installed',
+        logger: createLogger(),
+      })(createRequest(successUrl, { host: 'app.example.com' }));
+
+      expect(res.status).toBe(307);
+      expect(new URL(res.headers.get('location')!).pathname).toBe('/installed');
+    });
+
+    it('returns the InstallResult as JSON with 200 on success', async () => {
+      const { installApp } = createInstallAppMock();
+
+      const res = await InstallController.create({
+        installApp,
+        redirectUri,
+        responseMode: 'json',
+        session: { secret: 'a-very-long-session-secret-for-tests-only' },
+        logger: createLogger(),
+      })(createRequest(successUrl));
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('location')).toBeNull();
+      expect(res.headers.get('cache-control')).toBe('no-store');
+      expect(res.headers.get('set-cookie')).toMatch(/^bc_session=/);
+      expect(await res.json()).toEqual({
+        status: 'success',
+        context: 'stores/xyz',
+        user: { id: 42, email: 'merchant@example.com' },
+        grantedScopes: ['store_v2_products'],
+      });
+    });
+
+    it('returns the catalog status for the error code in JSON mode', async () => {
+      const { installApp } = createInstallAppMock();
+
+      const res = await InstallController.create({
+        installApp,
+        redirectUri,
+        responseMode: 'json',
+        requiredScopes: ['store_v2_orders'],
+        logger: createLogger(),
+      })(createRequest(successUrl));
+
+      expect(res.status).toBe(403);
+      expect(await res.json()).toEqual({
+        status: 'error',
+        errorCode: 'insufficient_scope',
+        grantedScopes: ['store_v2_products'],
+        missingScopes: ['store_v2_orders'],
+      });
+    });
+
+    it('renders a self-contained success page in HTML mode', async () => {
+      const { installApp } = createInstallAppMock();
+
+      const res = await InstallController.create({
+        installApp,
+        redirectUri,
+        responseMode: 'html',
+        logger: createLogger(),
+      })(createRequest(successUrl));
+      const html = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('text/html; charset=utf-8');
+      expect(html).toContain('<h1>App installed</h1>');
+      expect(html).not.toMatch(/<script|<link|src=/);
+    });
+
+    it('renders the catalog message and escapes values on the HTML error page', async () => {
+      const { installApp, execute } = createInstallAppMock();
+      execute.mockRejectedValue(new BigCommerceTokenExchangeError(503, 'Service Unavailable'));
+
+      const res = await InstallController.create({
+        installApp,
+        redirectUri,
+        responseMode: 'html',
+        logger: createLogger(),
+      })(createRequest(successUrl));
+      const html = await res.text();
+
+      expect(res.status).toBe(503);
+      expect(html).toContain('<h1>Installation failed</h1>');
+      expect(html).toContain('BigCommerce is temporarily unavailable.');
+      expect(html).toContain('<code>bigcommerce_unavailable</code>');
+    });
+
+    it('escapes missing scopes on the HTML error page', async () => {
+      const { installApp } = createInstallAppMock();
+
+      const res = await InstallController.create({
+        installApp,
+        redirectUri,
+        responseMode: 'html',
+        requiredScopes: ['<script>alert(1)</script>'],
+        logger: createLogger(),
+      })(createRequest(successUrl));
+      const html = await res.text();
+
+      expect(res.status).toBe(403);
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(html).not.toContain('<script>');
+    });
   });
 });
@@ -0,0 +1,89 @@
+import { InvalidNonceError } from '@/use-cases/install/controllers/errors/InvalidNonceError.js';
+import { ReplayedCodeError } from '@/use-cases/install/controllers/errors/ReplayedCodeError.js';
+import { InMemoryInstallGuardStore } from '@/use-cases/install/guard/InMemoryInstallGuardStore.js';
+import { InstallGuard } from '@/use-cases/install/guard/InstallGuard.js';
+import { InvalidStoreContextError } from 'bigcommerce-oauth/value-objects';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const url = new URL('https://app.example.com/auth?code=abc123&context=stores/xyz');
+const params = { code: 'abc123', context: 'stores/xyz' };
+
+describe('InstallGuard', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a first-time code with a well-formed context', async () => {
+    await expect(new InstallGuard().verify(params, url)).resolves.toBeUndefined();
+  });
+
+  it('rejects a context that is not stores/{hash}', async () => {
+    const guard = new InstallGuard();
+
+    await expect(guard.verify({ ...params, context: 'stores/' }, url)).rejects.toBeInstanceOf(
+      InvalidStoreContextError,
+    );
+    await expect(
+      guard.verify({ ...params, context: 'https://evil.example.com' }, url),
+    ).rejects.toBeInstanceOf(InvalidStoreContextError);
+  });
+
+  it('rejects a code replayed within the window and accepts it again afterwards', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const guard = new InstallGuard({ replayWindowSeconds: 60 });
+
+    await guard.verify(params, url);
+    await expect(guard.verify(params, url)).rejects.toBeInstanceOf(ReplayedCodeError);
+
+    vi.setSystemTime(new Date('2026-01-01T00:01:01Z'));
+    await expect(guard.verify(params, url)).resolves.toBeUndefined();
+  });
+
+  it('stores only a digest of the code', async () => {
+    const store = new InMemoryInstallGuardStore();
+    const markCodeUsed = vi.spyOn(store, 'markCodeUsed');
+
+    await new InstallGuard({ store }).verify(params, url);
+
+    const [storedKey] = markCodeUsed.mock.calls[0]!;
+    expect(storedKey).not.toContain('abc123');
+  });
+
+  describe('with requireNonce', () => {
+    it('accepts an issued nonce exactly once', async () => {
+      const guard = new InstallGuard({ requireNonce: true });
+      const nonce = await guard.issueNonce();
+
+      const withNonce = new URL(url);
+      withNonce.searchParams.set('state', nonce);
+
+      await expect(guard.verify(params, withNonce)).resolves.toBeUndefined();
+      await expect(
+        guard.verify({ ...params, code: 'another-code' }, withNonce),
+      ).rejects.toBeInstanceOf(InvalidNonceError);
+    });
+
+    it('rejects a missing or unknown nonce', async () => {
+      const guard = new InstallGuard({ requireNonce: true, nonceParam: 'nonce' });
+
+      const unknown = new URL(url);
+      unknown.searchParams.set('nonce', 'never-issued');
+
+      await expect(guard.verify(params, url)).rejects.toBeInstanceOf(InvalidNonceError);
+      await expect(guard.verify(params, unknown)).rejects.toBeInstanceOf(InvalidNonceError);
+    });
+
+    it('rejects an expired nonce', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const guard = new InstallGuard({ requireNonce: true, nonceTtlSeconds: 30 });
+      const nonce = await guard.issueNonce();
+
+      vi.setSystemTime(new Date('2026-01-01T00:00:31Z'));
+
+      const withNonce = new URL(url);
+      withNonce.searchParams.set('state', nonce);
+
+      await expect(guard.verify(params, withNonce)).rejects.toBeInstanceOf(InvalidNonceError);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { SessionCookie } from '@/session/SessionCookie.js';
+import { PagesInstallController } from '@/use-cases/install/controllers/PagesInstallController.js';
+import type { AuthSession } from 'bigcommerce-oauth';
+import { BigCommerceTokenExchangeError } from 'bigcommerce-oauth/gateways/BigCommerce';
+import type { InstallAppUseCase } from 'bigcommerce-oauth/use-cases/install';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { describe, expect, it, vi } from 'vitest';
+
+const redirectUri = 'https://my-app.example.com/api/auth';
+const secret = 'a-very-long-session-secret-for-tests-only';
+
+const authSession: AuthSession = {
+  access_token: 'secret-token',
+  scope: 'store_v2_products',
+  user: { id: 42, username: 'merchant', email: 'merchant@example.com' },
+  owner: { id: 7, username: 'owner', email: 'owner@example.com' },
+  context: 'stores/xyz',
+  ajs_anonymous_id: null,
+  account_uuid: 'b9c0d7a4-1d35-4a5e-9c0e-3c4d2f7b8e61',
+};
+
+function createInstallAppMock() {
+  const execute = vi.fn().mockResolvedValue(authSession);
+  const installApp = { execute } as unknown as InstallAppUseCase;
+  return { installApp, execute };
+}
+
+function createLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+function createRequest(url: string, headers: Record<string, string | string[]> = {}) {
+  // Minimal NextApiRequest-like shape; the adapter only uses url + headers
+  return { url, headers: { host: 'localhost:3000', ...headers } } as unknown as NextApiRequest;
+}
+
+// Records what the adapter writes; mirrors the NextApiResponse helpers it uses
+function createResponse() {
+  const recorded = {
+    statusCode: 200,
+    headers: {} as Record<string, string | string[]>,
+    body: undefined as unknown,
+    redirect: undefined as { status: number; url: string } | undefined,
+  };
+
+  const res = {
+    setHeader: (name: string, value: string) => {
+      recorded.headers[name] = value;
+      return res;
+    },
+    appendHeader: (name: string, value: string) => {
+      const current = recorded.headers[name];
+      recorded.headers[name] = current === undefined ? [value] : [current, value].flat();
+      return res;
+    },
+    status: (code: number) => {
+      recorded.statusCode = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      recorded.body = body;
+    },
+    send: (body: unknown) => {
+      recorded.body = body;
+    },
+    redirect: (status: number, url: string) => {
+      recorded.redirect = { status, url };
+      return res;
+    },
+  };
+
+  return { res: res as unknown as NextApiResponse, recorded };
+}
+
+describe('PagesInstallController', () => {
+  it('calls installApp with the query params and redirects to successPath', async () => {
+    const { installApp, execute } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      logger: createLogger(),
+    });
+    const { res, recorded } = createResponse();
+
+    await handler(
+      createRequest('/api/auth?code=abc123&context=stores/xyz&scope=store_v2_products'),
+      res,
+    );
+
+    expect(execute).toHaveBeenCalledWith(
+      {
+        code: 'abc123',
+        context: 'stores/xyz',
+        scope: 'store_v2_products',
+        redirectUri,
+      },
+      {},
+    );
+    expect(recorded.redirect?.status).toBe(307);
+
+    const location = new URL(recorded.redirect?.url ?? '');
+    expect(location.origin).toBe('https://my-app.example.com');
+    expect(location.pathname).toBe('/auth/result');
+    expect(location.searchParams.get('status')).toBe('success');
+    expect(location.searchParams.get('context')).toBe('stores/xyz');
+  });
+
+  it('redirects to errorPath with the catalog code when params are missing', async () => {
+    const { installApp, execute } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      errorPath: '/install-failed',
+      logger: createLogger(),
+    });
+    const { res, recorded } = createResponse();
+
+    await handler(createRequest('/api/auth?context=stores/xyz'), res);
+
+    expect(execute).not.toHaveBeenCalled();
+
+    const location = new URL(recorded.redirect?.url ?? '');
+    expect(location.pathname).toBe('/install-failed');
+    expect(location.searchParams.get('status')).toBe('error');
+    expect(location.searchParams.get('code')).toBe('missing_params');
+  });
+
+  it('only trusts forwarded hosts on the allow-list', async () => {
+    const { installApp } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      allowedHosts: ['public.example.com'],
+      logger: createLogger(),
+    });
+
+    const trusted = createResponse();
+    await handler(
+      createRequest('/api/auth?code=abc123&context=stores/xyz', {
+        'x-forwarded-host': 'public.example.com',
+        'x-forwarded-proto': 'https',
+      }),
+      trusted.res,
+    );
+
+    const spoofed = createResponse();
+    await handler(
+      createRequest('/api/auth?code=def456&context=stores/xyz', {
+        'x-forwarded-host': 'evil.example.com',
+        'x-forwarded-proto': 'https',
+      }),
+      spoofed.res,
+    );
+
+    expect(new URL(trusted.recorded.redirect?.url ?? '').origin).toBe('https://public.example.com');
+    expect(new URL(spoofed.recorded.redirect?.url ?? '').origin).toBe('https://my-app.example.com');
+  });
+
+  it('answers a malformed Host header with untrusted_host without installing', async () => {
+    const { installApp, execute } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      responseMode: 'json',
+      logger: createLogger(),
+    });
+
+    for (const host of ['', 'evil.example.com/path', 'a b']) {
+      const { res, recorded } = createResponse();
+
+      await handler(createRequest('/api/auth?code=abc123&context=stores/xyz', { host }), res);
+
+      expect(recorded.statusCode).toBe(400);
+      expect(recorded.body).toEqual({ status: 'error', errorCode: 'untrusted_host' });
+    }
+
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('redirects to errorPath on the configured origin for a malformed Host header', async () => {
+    const { installApp } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      logger: createLogger(),
+    });
+    const { res, recorded } = createResponse();
+
+    await handler(createRequest('/api/auth?code=abc123', { host: 'evil.example.com@' }), res);
+
+    const location = new URL(recorded.redirect?.url ?? '');
+    expect(location.origin).toBe('https://my-app.example.com');
+    expect(location.searchParams.get('code')).toBe('untrusted_host');
+  });
+
+  it('reports missing_params for a request target that cannot be parsed', async () => {
+    const { installApp, execute } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      responseMode: 'json',
+      logger: createLogger(),
+    });
+    const { res, recorded } = createResponse();
+
+    await handler(createRequest('//[::1'), res);
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(recorded.statusCode).toBe(400);
+    expect(recorded.body).toEqual({ status: 'error', errorCode: 'missing_params' });
+  });
+
+  it('sets an encrypted session cookie after a successful install when configured', async () => {
+    const { installApp } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      session: { secret },
+      logger: createLogger(),
+    });
+    const { res, recorded } = createResponse();
+
+    await handler(createRequest('/api/auth?code=abc123&context=stores/xyz'), res);
+
+    const [cookie] = [recorded.headers['set-cookie'] ?? []].flat();
+    expect(cookie).toMatch(/^bc_session=[^;]+; Path=\/; Max-Age=86400; /);
+    expect(cookie).toContain('; HttpOnly; Secure; SameSite=None; Partitioned');
+
+    const value = /^bc_session=([^;]+)/.exec(cookie ?? '')?.[1] ?? '';
+    expect(await new SessionCookie({ secret }).unseal(value)).toMatchObject({
+      storeHash: 'xyz',
+      userId: 42,
+      email: 'merchant@example.com',
+    });
+  });
+
+  it('answers with JSON and no session cookie when installation fails', async () => {
+    const { installApp, execute } = createInstallAppMock();
+    execute.mockRejectedValueOnce(new BigCommerceTokenExchangeError(400, 'Bad Request'));
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      responseMode: 'json',
+      session: { secret },
+      logger: createLogger(),
+    });
+    const { res, recorded } = createResponse();
+
+    await handler(createRequest('/api/auth?code=abc123&context=stores/xyz'), res);
+
+    expect(recorded.statusCode).toBe(502);
+    expect(recorded.headers['cache-control']).toBe('no-store');
+    expect(recorded.headers['set-cookie']).toBeUndefined();
+    expect(recorded.body).toMatchObject({ status: 'error', errorCode: 'token_exchange_failed' });
+  });
+
+  it('renders the result page in html mode', async () => {
+    const { installApp } = createInstallAppMock();
+    const handler = PagesInstallController.create({
+      installApp,
+      redirectUri,
+      responseMode: 'html',
+      logger: createLogger(),
+    });
+    const { res, recorded } = createResponse();
+
+    await handler(createRequest('/api/auth?code=abc123&context=stores/xyz'), res);
+
+    expect(recorded.statusCode).toBe(200);
+    expect(recorded.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(recorded.body).toContain('<h1>App installed</h1>');
+  });
+});
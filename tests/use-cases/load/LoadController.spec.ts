@@ -0,0 +1,195 @@
+import { SessionCookie } from '@/session/SessionCookie.js';
+import { LoadController } from '@/use-cases/load/controllers/LoadController.js';
+import { ExpiredSignedPayloadError } from '@/use-cases/shared/signed-payload/errors/ExpiredSignedPayloadError.js';
+import { InvalidSignedPayloadError } from '@/use-cases/shared/signed-payload/errors/InvalidSignedPayloadError.js';
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import {
+  InvalidJwtSignatureError,
+  JwtLifetimeError,
+  MalformedJwtError,
+} from 'bigcommerce-oauth/gateways/BigCommerce';
+import type { LoadAppUseCase } from 'bigcommerce-oauth/use-cases/load';
+import { describe, expect, it, vi } from 'vitest';
+
+const claims: SignedPayloadClaims = {
+  aud: 'client-id',
+  iss: 'bc',
+  iat: 1700000000,
+  nbf: 1700000000,
+  exp: 1700003600,
+  jti: 'c1c9a3d0-8a5b-4b35-9e1b-2a8e9a3c3f1d',
+  sub: 'stores/xyz',
+  user: { id: 42, email: 'merchant@example.com', locale: 'en-US' },
+  owner: { id: 7, email: 'owner@example.com' },
+};
+
+function createLoadAppMock() {
+  const execute = vi.fn().mockResolvedValue(claims);
+  const loadApp = { execute } as unknown as LoadAppUseCase;
+  return { loadApp, execute };
+}
+
+function createRequest(url: string, headersInit: Record<string, string> = {}) {
+  const headers = new Headers(headersInit);
+  // Minimal Request-like shape; controller only uses url + headers
+  return { url, headers } as unknown as Request;
+}
+
+describe('LoadController', () => {
+  it('verifies the signed payload and redirects into the app with the store context', async () => {
+    const { loadApp, execute } = createLoadAppMock();
+
+    const handler = LoadController.create({
+      loadApp,
+      appPath: '/dashboard',
+      allowedHosts: ['public.example.com'],
+    });
+
+    const req = createRequest('https://internal.example.com/api/bc/load?signed_payload_jwt=a.b.c', {
+      'x-forwarded-host': 'public.example.com',
+      'x-forwarded-proto': 'https',
+    });
+
+    const res = await handler(req);
+    const redirectUrl = new URL(res.headers.get('location') ?? '');
+
+    expect(res.status).toBe(302);
+    expect(redirectUrl.origin).toBe('https://public.example.com');
+    expect(redirectUrl.pathname).toBe('/dashboard');
+    expect(redirectUrl.searchParams.get('context')).toBe('stores/xyz');
+    expect(redirectUrl.searchParams.get('signed_payload_jwt')).toBeNull();
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith({ signedPayloadJwt: 'a.b.c' }, {});
+  });
+
+  it('defaults appPath to "/"', async () => {
+    const { loadApp } = createLoadAppMock();
+
+    const handler = LoadController.create({ loadApp, allowedHosts: ['shop.example.com'] });
+
+    const req = createRequest('https://internal.example.com/api/bc/load?signed_payload_jwt=a.b.c', {
+      host: 'shop.example.com',
+    });
+
+    const res = await handler(req);
+    const redirectUrl = new URL(res.headers.get('location') ?? '');
+
+    expect(redirectUrl.origin).toBe('http://shop.example.com');
+    expect(redirectUrl.pathname).toBe('/');
+    expect(redirectUrl.searchParams.get('context')).toBe('stores/xyz');
+  });
+
+  it('refreshes the encrypted session cookie from the verified claims when configured', async () => {
+    const { loadApp } = createLoadAppMock();
+    const session = { secret: 'a-very-long-session-secret-for-tests-only' };
+
+    const handler = LoadController.create({ loadApp, session, allowedHosts: ['shop.example.com'] });
+
+    const req = createRequest('https://internal.example.com/api/bc/load?signed_payload_jwt=a.b.c', {
+      host: 'shop.example.com',
+    });
+
+    const res = await handler(req);
+    const cookie = res.headers.get('set-cookie') ?? '';
+    const value = /^bc_session=([^;]+)/.exec(cookie)?.[1] ?? '';
+
+    expect(cookie).toContain('; HttpOnly; Secure; SameSite=None; Partitioned');
+    expect(await new SessionCookie(session).unseal(value)).toMatchObject({
+      storeHash: 'xyz',
+      userId: 42,
+      email: 'merchant@example.com',
+    });
+  });
+
+  it('refuses a Host outside allowedHosts with untrusted_host instead of redirecting', async () => {
+    const { loadApp } = createLoadAppMock();
+    const session = { secret: 'a-very-long-session-secret-for-tests-only' };
+
+    const handler = LoadController.create({
+      loadApp,
+      session,
+      allowedHosts: ['public.example.com'],
+    });
+
+    const req = createRequest('https://internal.example.com/api/bc/load?signed_payload_jwt=a.b.c', {
+      host: 'evil.example.com',
+    });
+
+    const res = await handler(req);
+
+    expect(res.status).toBe(400);
+    expect(res.headers.get('location')).toBeNull();
+    expect(res.headers.get('set-cookie')).toBeNull();
+    expect(await res.json()).toEqual({ status: 'error', errorCode: 'untrusted_host' });
+  });
+
+  it('refuses to redirect with untrusted_host when no public origin is configured', async () => {
+    const { loadApp } = createLoadAppMock();
+    const session = { secret: 'a-very-long-session-secret-for-tests-only' };
+
+    const handler = LoadController.create({ loadApp, session });
+
+    const req = createRequest('https://internal.example.com/api/bc/load?signed_payload_jwt=a.b.c', {
+      'x-forwarded-host': 'evil.example.com',
+      'x-forwarded-proto': 'https',
+    });
+
+    const res = await handler(req);
+
+    expect(res.status).toBe(400);
+    expect(res.headers.get('location')).toBeNull();
+    expect(res.headers.get('set-cookie')).toBeNull();
+    expect(await res.json()).toEqual({ status: 'error', errorCode: 'untrusted_host' });
+  });
+
+  it('redirects to errorPath with missing_signed_payload when the JWT is absent', async () => {
+    const { loadApp, execute } = createLoadAppMock();
+
+    const handler = LoadController.create({
+      loadApp,
+      errorPath: '/custom/error',
+      publicBaseUrl: 'https://shop.example.com',
+    });
+
+    const req = createRequest('https://internal.example.com/api/bc/load', {
+      host: 'shop.example.com',
+    });
+
+    const res = await handler(req);
+    const redirectUrl = new URL(res.headers.get('location') ?? '');
+
+    expect(redirectUrl.pathname).toBe('/custom/error');
+    expect(redirectUrl.searchParams.get('status')).toBe('error');
+    expect(redirectUrl.searchParams.get('code')).toBe('missing_signed_payload');
+    expect(redirectUrl.searchParams.get('context')).toBeNull();
+
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [new MalformedJwtError(), 'malformed_signed_payload'],
+    [new InvalidJwtSignatureError(), 'invalid_signature'],
+    [new JwtLifetimeError(), 'expired_signed_payload'],
+    [new InvalidSignedPayloadError('signature'), 'invalid_signature'],
+    [new InvalidSignedPayloadError('audience'), 'invalid_signed_payload'],
+    [new ExpiredSignedPayloadError(1700000000), 'expired_signed_payload'],
+    [new Error('boom'), 'unknown'],
+  ])('maps %o to the %s error code', async (error, expectedCode) => {
+    const execute = vi.fn().mockRejectedValue(error);
+    const loadApp = { execute } as unknown as LoadAppUseCase;
+
+    const handler = LoadController.create({ loadApp, publicBaseUrl: 'https://shop.example.com' });
+
+    const req = createRequest('https://internal.example.com/api/bc/load?signed_payload_jwt=a.b.c', {
+      host: 'shop.example.com',
+    });
+
+    const res = await handler(req);
+    const redirectUrl = new URL(res.headers.get('location') ?? '');
+
+    expect(redirectUrl.pathname).toBe('/auth/result');
+    expect(redirectUrl.searchParams.get('status')).toBe('error');
+    expect(redirectUrl.searchParams.get('code')).toBe(expectedCode);
+  });
+});
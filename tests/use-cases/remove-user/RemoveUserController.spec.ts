@@ -0,0 +1,94 @@
+import { RemoveUserController } from '@/use-cases/remove-user/controllers/RemoveUserController.js';
+import type { SignedPayloadClaims } from 'bigcommerce-oauth';
+import {
+  InvalidJwtSignatureError,
+  JwtLifetimeError,
+  MalformedJwtError,
+} from 'bigcommerce-oauth/gateways/BigCommerce';
+import type { RemoveUserUseCase } from 'bigcommerce-oauth/use-cases/remove-user';
+import { describe, expect, it, vi } from 'vitest';
+
+const claims: SignedPayloadClaims = {
+  aud: 'client-id',
+  iss: 'bc',
+  iat: 1700000000,
+  nbf: 1700000000,
+  exp: 1700003600,
+  jti: 'c1c9a3d0-8a5b-4b35-9e1b-2a8e9a3c3f1d',
+  sub: 'stores/xyz',
+  user: { id: 42, email: 'staff@example.com', locale: 'en-US' },
+  owner: { id: 7, email: 'owner@example.com' },
+};
+
+function createRequest(url: string) {
+  // Minimal Request-like shape; controller only uses url
+  return { url, headers: new Headers() } as any;
+}
+
+describe('RemoveUserController', () => {
+  it('returns the removed user and store hash after verifying the payload', async () => {
+    const execute = vi.fn().mockResolvedValue(claims);
+    const removeUser = { execute } as unknown as RemoveUserUseCase;
+
+    const handler = RemoveUserController.create({ removeUser });
+
+    const res = await handler(
+      createRequest('https://app.example.com/api/bc/remove-user?signed_payload_jwt=a.b.c'),
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      status: 'success',
+      storeHash: 'xyz',
+      user: { id: 42, email: 'staff@example.com' },
+    });
+
+    expect(execute).toHaveBeenCalledWith({ signedPayloadJwt: 'a.b.c' }, {});
+  });
+
+  it('returns 400 with missing_signed_payload when the JWT is absent', async () => {
+    const execute = vi.fn();
+    const removeUser = { execute } as unknown as RemoveUserUseCase;
+
+    const handler = RemoveUserController.create({ removeUser });
+
+    const res = await handler(createRequest('https://app.example.com/api/bc/remove-user'));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ status: 'error', errorCode: 'missing_signed_payload' });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 with invalid_context when the sub claim is not stores/{hash}', async () => {
+    const execute = vi.fn().mockResolvedValue({ ...claims, sub: 'nope' });
+    const removeUser = { execute } as unknown as RemoveUserUseCase;
+
+    const handler = RemoveUserController.create({ removeUser });
+
+    const res = await handler(
+      createRequest('https://app.example.com/api/bc/remove-user?signed_payload_jwt=a.b.c'),
+    );
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ status: 'error', errorCode: 'invalid_context' });
+  });
+
+  it.each([
+    [new MalformedJwtError(), 'malformed_signed_payload', 400],
+    [new InvalidJwtSignatureError(), 'invalid_signature', 401],
+    [new JwtLifetimeError(), 'expired_signed_payload', 401],
+    [new Error('db down'), 'unknown', 500],
+  ])('maps %o to %s with HTTP %i', async (error, expectedCode, expectedStatus) => {
+    const execute = vi.fn().mockRejectedValue(error);
+    const removeUser = { execute } as unknown as RemoveUserUseCase;
+
+    const handler = RemoveUserController.create({ removeUser });
+
+    const res = await handler(
+      createRequest('https://app.example.com/api/bc/remove-user?signed_payload_jwt=a.b.c'),
+    );
+
+    expect(res.status).toBe(expectedStatus);
+    expect(await res.json()).toEqual({ status: 'error', errorCode: expectedCode });
+  });
+});
@@ -0,0 +1,50 @@
+import { InsufficientScopeError } from '@/use-cases/install/controllers/errors/InsufficientScopeError.js';
+import { NetworkTimeoutError } from '@/use-cases/install/controllers/errors/NetworkTimeoutError.js';
+import {
+  ErrorCatalog,
+  describeError,
+  isErrorCode,
+} from '@/use-cases/shared/errors/ErrorCatalog.js';
+import { describe, expect, it } from 'vitest';
+
+describe('ErrorCatalog', () => {
+  it('gives every code an error status and a merchant-facing message', () => {
+    for (const descriptor of Object.values(ErrorCatalog)) {
+      expect(descriptor.status).toBeGreaterThanOrEqual(400);
+      expect(descriptor.message).toMatch(/\.$/);
+    }
+  });
+
+  it('narrows untrusted strings to known codes', () => {
+    expect(isErrorCode('network_timeout')).toBe(true);
+    expect(isErrorCode('toString')).toBe(false);
+    expect(isErrorCode(undefined)).toBe(false);
+  });
+
+  it('describes unknown values as unknown', () => {
+    expect(describeError('not-a-code')).toEqual({ code: 'unknown', ...ErrorCatalog.unknown });
+    expect(describeError('rate_limited')).toMatchObject({
+      code: 'rate_limited',
+      status: 429,
+      retryable: true,
+    });
+  });
+
+  it('exposes catalog metadata on error classes', () => {
+    const timeout = new NetworkTimeoutError();
+    const scope = new InsufficientScopeError(['store_v2_products']);
+
+    expect(timeout).toMatchObject({ code: 'network_timeout', status: 504, retryable: true });
+    expect(scope).toMatchObject({ code: 'insufficient_scope', status: 403, retryable: false });
+    expect(scope.merchantMessage).toBe(ErrorCatalog.insufficient_scope.message);
+  });
+
+  it('marks callbacks the merchant must reopen the app for as not retryable', () => {
+    const reopen = Object.values(ErrorCatalog).filter(({ message }) =>
+      message.includes('reopen the app'),
+    );
+
+    expect(reopen.length).toBeGreaterThan(0);
+    expect(reopen.every(({ retryable }) => !retryable)).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { createHmac } from 'node:crypto';
+import { SignedPayloadJwtVerifier } from '@/use-cases/shared/signed-payload/SignedPayloadJwtVerifier.js';
+import { ExpiredSignedPayloadError } from '@/use-cases/shared/signed-payload/errors/ExpiredSignedPayloadError.js';
+import { InvalidSignedPayloadError } from '@/use-cases/shared/signed-payload/errors/InvalidSignedPayloadError.js';
+import { describe, expect, it } from 'vitest';
+
+const clientId = 'client-id';
+const clientSecret = 'client-secret';
+const now = 1700000000;
+
+const claims = {
+  aud: clientId,
+  iss: 'bc',
+  iat: now,
+  nbf: now,
+  exp: now + 60,
+  jti: 'c1c9a3d0-8a5b-4b35-9e1b-2a8e9a3c3f1d',
+  sub: 'stores/xyz',
+  user: { id: 42, email: 'merchant@example.com', locale: 'en-US' },
+  owner: { id: 7, email: 'owner@example.com' },
+};
+
+function encode(value: unknown) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Signs a token locally, exactly as BigCommerce does, so tests run offline.
+function sign(
+  payload: object,
+  secret = clientSecret,
+  header: object = { alg: 'HS256', typ: 'JWT' },
+) {
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = createHmac('sha256', secret).update(signingInput).digest('base64url');
+  return `${signingInput}.${signature}`;
+}
+
+function createVerifier(at = now, clockSkewSeconds?: number) {
+  return new SignedPayloadJwtVerifier({ clientId, clientSecret, clockSkewSeconds, now: () => at });
+}
+
+function reasonOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof InvalidSignedPayloadError) return err.reason;
+    throw err;
+  }
+  throw new Error('expected verify to throw');
+}
+
+describe('SignedPayloadJwtVerifier', () => {
+  it('returns the verified claims with the extracted store hash', () => {
+    const verified = createVerifier().verify(sign(claims));
+
+    expect(verified).toEqual({ ...claims, storeHash: 'xyz' });
+  });
+
+  it('rejects tokens that are not three segments', () => {
+    expect(reasonOf(() => createVerifier().verify('a.b'))).toBe('malformed');
+    expect(reasonOf(() => createVerifier().verify('a.b.c.d'))).toBe('malformed');
+  });
+
+  it('rejects segments that are not JSON objects', () => {
+    expect(reasonOf(() => createVerifier().verify('not-json.e30.sig'))).toBe('malformed');
+  });
+
+  it('rejects headers that do not declare HS256', () => {
+    const token = sign(claims, clientSecret, { alg: 'none' });
+
+    expect(reasonOf(() => createVerifier().verify(token))).toBe('algorithm');
+  });
+
+  it('rejects tokens signed with a different secret', () => {
+    const token = sign(claims, 'someone-elses-secret');
+
+    expect(reasonOf(() => createVerifier().verify(token))).toBe('signature');
+  });
+
+  it('rejects tokens issued for another app', () => {
+    const token = sign({ ...claims, aud: 'other-client' });
+
+    expect(reasonOf(() => createVerifier().verify(token))).toBe('audience');
+  });
+
+  it('rejects tokens from an unexpected issuer', () => {
+    const token = sign({ ...claims, iss: 'evil' });
+
+    expect(reasonOf(() => createVerifier().verify(token))).toBe('issuer');
+  });
+
+  it('rejects a sub claim that is not stores/{hash}', () => {
+    const token = sign({ ...claims, sub: 'users/42' });
+
+    expect(reasonOf(() => createVerifier().verify(token))).toBe('subject');
+  });
+
+  it('rejects tokens used before nbf beyond the clock skew', () => {
+    const token = sign(claims);
+
+    expect(reasonOf(() => createVerifier(now - 10, 5).verify(token))).toBe('not_before');
+    expect(() => createVerifier(now - 3, 5).verify(token)).not.toThrow();
+  });
+
+  it('throws ExpiredSignedPayloadError once exp has passed beyond the clock skew', () => {
+    const token = sign(claims);
+
+    expect(() => createVerifier(now + 70, 5).verify(token)).toThrow(ExpiredSignedPayloadError);
+    expect(() => createVerifier(now + 62, 5).verify(token)).not.toThrow();
+    expect(() => createVerifier(now + 60, 0).verify(token)).toThrow(ExpiredSignedPayloadError);
+  });
+});
@@ -0,0 +1,19 @@
+import { decodeBase64Url, encodeBase64Url } from '@/use-cases/shared/encoding/base64url.js';
+import { describe, expect, it } from 'vitest';
+
+describe('base64url', () => {
+  it('matches Buffer base64url encoding for every padding length', () => {
+    for (const length of [0, 1, 2, 3, 32]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 97 + 251) % 256);
+
+      expect(encodeBase64Url(bytes)).toBe(Buffer.from(bytes).toString('base64url'));
+      expect(decodeBase64Url(encodeBase64Url(bytes))).toEqual(bytes);
+    }
+  });
+
+  it('returns undefined for values outside the base64url alphabet', () => {
+    expect(decodeBase64Url('a+b/')).toBeUndefined();
+    expect(decodeBase64Url('%E0%A4%A')).toBeUndefined();
+    expect(decodeBase64Url('abcde')).toBeUndefined();
+  });
+});
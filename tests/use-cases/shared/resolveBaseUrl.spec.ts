@@ -0,0 +1,87 @@
+import { UntrustedHostError } from '@/use-cases/shared/http/errors/UntrustedHostError.js';
+import { resolveBaseUrl } from '@/use-cases/shared/http/resolveBaseUrl.js';
+import { describe, expect, it } from 'vitest';
+
+describe('resolveBaseUrl', () => {
+  it('uses forwarded headers, then host, then localhost when nothing is configured', () => {
+    expect(
+      resolveBaseUrl(
+        new Headers({ 'x-forwarded-host': 'public.example.com', 'x-forwarded-proto': 'https' }),
+      ),
+    ).toBe('https://public.example.com');
+    expect(resolveBaseUrl(new Headers({ host: 'shop.example.com' }))).toBe(
+      'http://shop.example.com',
+    );
+    expect(resolveBaseUrl(new Headers())).toBe('http://localhost:3000');
+  });
+
+  it('returns the origin of publicBaseUrl regardless of headers', () => {
+    const headers = new Headers({ 'x-forwarded-host': 'evil.example.net' });
+
+    expect(resolveBaseUrl(headers, { publicBaseUrl: 'https://app.example.com/base/' })).toBe(
+      'https://app.example.com',
+    );
+  });
+
+  it('returns the fallback origin when no allow-list is configured', () => {
+    const headers = new Headers({ 'x-forwarded-host': 'evil.example.net' });
+
+    expect(resolveBaseUrl(headers, {}, 'https://app.example.com/api/auth')).toBe(
+      'https://app.example.com',
+    );
+  });
+
+  it('reads the first hop of comma-separated x-forwarded-* headers', () => {
+    const headers = new Headers({
+      'x-forwarded-host': 'app.example.com, proxy.internal',
+      'x-forwarded-proto': 'https, http',
+    });
+
+    expect(resolveBaseUrl(headers, { allowedHosts: ['app.example.com'] })).toBe(
+      'https://app.example.com',
+    );
+  });
+
+  it('prefers the RFC 7239 Forwarded header, including quoted values', () => {
+    const headers = new Headers({
+      forwarded: 'for=192.0.2.60;proto=https;host="app.example.com:8443", for=10.0.0.1;host=lb',
+      'x-forwarded-host': 'other.example.com',
+    });
+
+    expect(resolveBaseUrl(headers, { allowedHosts: ['app.example.com'] })).toBe(
+      'https://app.example.com:8443',
+    );
+  });
+
+  it('matches wildcard and port-specific allow-list entries', () => {
+    const tunnel = new Headers({ 'x-forwarded-host': 'abc123.ngrok-free.app' });
+    const local = new Headers({ host: 'localhost:3000' });
+
+    expect(resolveBaseUrl(tunnel, { allowedHosts: ['*.ngrok-free.app'] })).toBe(
+      'http://abc123.ngrok-free.app',
+    );
+    expect(resolveBaseUrl(local, { allowedHosts: ['localhost:3000'] })).toBe(
+      'http://localhost:3000',
+    );
+    expect(() => resolveBaseUrl(local, { allowedHosts: ['localhost:4000'] })).toThrow(
+      UntrustedHostError,
+    );
+  });
+
+  it('refuses hosts outside the allow-list, or falls back when a fallback is given', () => {
+    const allowedHosts = ['app.example.com'];
+
+    for (const host of [
+      'evil.example.net',
+      'app.example.com.evil.net',
+      'app.example.com@evil.net',
+    ]) {
+      const headers = new Headers({ 'x-forwarded-host': host });
+
+      expect(() => resolveBaseUrl(headers, { allowedHosts })).toThrow(UntrustedHostError);
+      expect(resolveBaseUrl(headers, { allowedHosts }, 'https://app.example.com/auth')).toBe(
+        'https://app.example.com',
+      );
+    }
+  });
+});
@@ -10,6 +10,13 @@ export default defineConfig({
     'src/use-cases/load/index.ts',
     'src/use-cases/uninstall/index.ts',
     'src/use-cases/remove-user/index.ts',
+    'src/session/index.ts',
+    'src/stores/index.ts',
+    'src/logging/index.ts',
+    'src/telemetry/index.ts',
+    'src/fetch/index.ts',
+    'src/next/index.ts',
+    'src/config/index.ts',
   ],
   bundle: true,
   splitting: true,
@@ -18,7 +25,7 @@ export default defineConfig({
   clean: true,
   format: ['esm', 'cjs'],
   outDir: 'dist',
-  target: 'node18',
+  target: 'node20',
   treeshake: true,
   minify: false,
   esbuildPlugins: [